@@ -10,6 +10,7 @@ import { existsSync } from 'node:fs';
 import { basename, isAbsolute, relative, resolve } from 'node:path';
 import { Command } from 'commander';
 import { addSource, findProjectRoot, initializeProject } from '../../core/config.js';
+import { DEFAULT_INCLUDE_PATTERNS, SENSITIVE_PATH_POLICIES } from '../../core/constants.js';
 import { indexSource } from '../../core/indexer.js';
 import type { Source } from '../../types/index.js';
 
@@ -20,10 +21,18 @@ export const addCommand = new Command('add')
   .option('-i, --include <patterns...>', 'Include patterns (e.g., "**/*.md")')
   .option('-e, --exclude <patterns...>', 'Exclude patterns')
   .option('--no-index', 'Add source without indexing')
+  .option('--sensitive-paths <policy>', 'Sensitive files in this source: skip, redact or warn')
   .action(async (path: string, options) => {
     try {
       const absolutePath = resolve(path);
 
+      if (options.sensitivePaths && !(SENSITIVE_PATH_POLICIES as readonly string[]).includes(options.sensitivePaths)) {
+        console.error(
+          `Error: Unknown sensitive-paths policy: ${options.sensitivePaths} (available: ${SENSITIVE_PATH_POLICIES.join(', ')})`,
+        );
+        process.exit(1);
+      }
+
       // Validate path exists
       if (!existsSync(absolutePath)) {
         console.error(`Error: Path not found: ${absolutePath}`);
@@ -50,9 +59,10 @@ export const addCommand = new Command('add')
       const source: Source = {
         name: options.name ?? basename(absolutePath),
         path: sourcePath,
-        include: options.include ?? ['**/*.md', '**/*.txt', '**/*.html', '**/*.pdf', '**/*.docx'],
+        include: options.include ?? [...DEFAULT_INCLUDE_PATTERNS],
         exclude: options.exclude ?? [],
         watch: true,
+        sensitive_paths: options.sensitivePaths,
       };
 
       // Add source to config
@@ -67,12 +77,23 @@ export const addCommand = new Command('add')
         console.log('\nIndexing complete:');
         console.log(`  Indexed: ${result.indexed} files`);
         console.log(`  Skipped: ${result.skipped} files (unchanged)`);
+        const { hits, misses } = result.embedding_cache;
+        if (hits + misses > 0) {
+          const rate = Math.round((hits / (hits + misses)) * 100);
+          console.log(`  Embedding cache: ${rate}% hits (${hits} of ${hits + misses} chunks reused)`);
+        }
         if (result.errors.length > 0) {
           console.log(`  Errors: ${result.errors.length}`);
           for (const e of result.errors) {
             console.log(`    - ${e}`);
           }
         }
+        if (result.sensitive.length > 0) {
+          console.log(`  Sensitive: ${result.sensitive.length}`);
+          for (const f of result.sensitive) {
+            console.log(`    - ${f.path} (${f.policy})`);
+          }
+        }
       }
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : error);
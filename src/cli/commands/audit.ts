@@ -1,54 +1,44 @@
 /**
- * Audit command - find duplicates and conflicts
+ * Audit command - find duplicates, conflicts and PII
  *
- * Analyzes index for near-duplicate content and conflicting information.
+ * Analyzes index for near-duplicate content, conflicting information
+ * and sensitive data that was indexed.
  *
  * @module cli/commands/audit
  */
 
 import { Command } from 'commander';
-import { DEFAULTS, LIMITS, SEARCH } from '../../core/constants.js';
-import { getDb } from '../../storage/sqlite.js';
-
-interface ChunkWithEmbedding {
-  chunk_id: string;
-  doc_id: string;
-  text: string;
-  snippet: string;
-  line_start: number;
-  line_end: number;
-  embedding: number[];
-}
-
-interface DuplicateGroup {
-  chunks: Array<{
-    chunk_id: string;
-    path: string;
-    line_start: number;
-    line_end: number;
-    snippet: string;
-  }>;
-  similarity: number;
-}
+import { findConflicts, findDuplicates, findPII } from '../../core/audit.js';
+import { findProjectRoot, loadConfig } from '../../core/config.js';
+import { DEFAULTS } from '../../core/constants.js';
+import { loadDetectors, type PIIDetector } from '../../privacy/pii.js';
+import { getIndexStats } from '../../storage/index.js';
 
 export const auditCommand = new Command('audit')
   .description('Audit the index for issues')
-  .argument('<type>', 'Audit type: duplicates | conflicts')
+  .argument('<type>', 'Audit type: duplicates | conflicts | pii')
   .option('-t, --threshold <number>', 'Similarity threshold (0-1)', String(DEFAULTS.SIMILARITY_THRESHOLD))
   .option('-l, --limit <number>', 'Maximum results', String(DEFAULTS.AUDIT_LIMIT))
+  .option('--max-findings <number>', 'PII audit: exit with code 1 above this many findings', '0')
   .option('--json', 'Output as JSON')
   .action(async (type: string, options) => {
     try {
+      const config = await loadConfig();
+      const detectors = await loadDetectors(config.privacy, findProjectRoot());
+
       switch (type) {
         case 'duplicates':
-          await auditDuplicates(options);
+          await auditDuplicates(options, detectors);
           break;
         case 'conflicts':
-          await auditConflicts(options);
+          await auditConflicts(options, detectors);
+          break;
+        case 'pii':
+          await auditPII(options, detectors);
           break;
         default:
           console.error(`Unknown audit type: ${type}`);
-          console.error('Available types: duplicates, conflicts');
+          console.error('Available types: duplicates, conflicts, pii');
           process.exit(1);
       }
     } catch (error) {
@@ -58,116 +48,29 @@ export const auditCommand = new Command('audit')
   });
 
 /**
- * Get all chunks with embeddings from the database.
+ * Check that the index has chunks, printing a notice if it is empty
  */
-function getAllChunksWithEmbeddings(): ChunkWithEmbedding[] {
-  const db = getDb();
-
-  // Get all chunks
-  const chunkRows = db
-    .prepare(
-      `
-    SELECT c.id, c.chunk_id, c.doc_id, c.text, c.snippet, c.line_start, c.line_end
-    FROM chunks c
-    LIMIT ?
-  `,
-    )
-    .all(LIMITS.MAX_DOCS_STATS_SCAN) as Array<{
-    id: number;
-    chunk_id: string;
-    doc_id: string;
-    text: string;
-    snippet: string;
-    line_start: number;
-    line_end: number;
-  }>;
-
-  // Get embeddings for each chunk
-  const getEmbeddingStmt = db.prepare(`
-    SELECT embedding FROM chunks_vec WHERE chunk_rowid = ?
-  `);
-
-  const chunks: ChunkWithEmbedding[] = [];
-
-  for (const row of chunkRows) {
-    const vecRow = getEmbeddingStmt.get(row.id) as { embedding: ArrayBuffer } | undefined;
-
-    if (vecRow) {
-      // Convert Float32Array back from ArrayBuffer
-      const embedding = Array.from(new Float32Array(vecRow.embedding));
-
-      chunks.push({
-        chunk_id: row.chunk_id,
-        doc_id: row.doc_id,
-        text: row.text,
-        snippet: row.snippet,
-        line_start: row.line_start,
-        line_end: row.line_end,
-        embedding,
-      });
-    }
+async function hasChunks(): Promise<boolean> {
+  const { chunks } = await getIndexStats();
+  if (chunks === 0) {
+    console.log('No chunks in index.');
+    return false;
   }
-
-  return chunks;
+  return true;
 }
 
-async function auditDuplicates(options: { threshold: string; limit: string; json?: boolean }): Promise<void> {
+async function auditDuplicates(
+  options: { threshold: string; limit: string; json?: boolean },
+  detectors: PIIDetector[],
+): Promise<void> {
   const threshold = parseFloat(options.threshold);
   const limit = parseInt(options.limit, 10);
 
   console.log(`Searching for near-duplicate content (threshold: ${threshold})...\n`);
 
-  const chunks = getAllChunksWithEmbeddings();
-
-  if (chunks.length === 0) {
-    console.log('No chunks in index.');
-    return;
-  }
-
-  // Find duplicates using pairwise similarity
-  const duplicates: DuplicateGroup[] = [];
-  const seen = new Set<string>();
-
-  for (let i = 0; i < chunks.length && duplicates.length < limit; i++) {
-    if (seen.has(chunks[i].chunk_id)) continue;
-
-    const group: DuplicateGroup = {
-      chunks: [
-        {
-          chunk_id: chunks[i].chunk_id,
-          path: chunks[i].doc_id,
-          line_start: chunks[i].line_start,
-          line_end: chunks[i].line_end,
-          snippet: chunks[i].snippet,
-        },
-      ],
-      similarity: 1,
-    };
-
-    // Compare with other chunks
-    for (let j = i + 1; j < chunks.length; j++) {
-      if (seen.has(chunks[j].chunk_id)) continue;
-
-      const similarity = cosineSimilarity(chunks[i].embedding, chunks[j].embedding);
-
-      if (similarity >= threshold) {
-        group.chunks.push({
-          chunk_id: chunks[j].chunk_id,
-          path: chunks[j].doc_id,
-          line_start: chunks[j].line_start,
-          line_end: chunks[j].line_end,
-          snippet: chunks[j].snippet,
-        });
-        group.similarity = Math.min(group.similarity, similarity);
-        seen.add(chunks[j].chunk_id);
-      }
-    }
+  if (!(await hasChunks())) return;
 
-    if (group.chunks.length > 1) {
-      duplicates.push(group);
-      seen.add(chunks[i].chunk_id);
-    }
-  }
+  const duplicates = findDuplicates({ threshold, limit, detectors });
 
   if (options.json) {
     console.log(JSON.stringify(duplicates, null, 2));
@@ -192,63 +95,19 @@ async function auditDuplicates(options: { threshold: string; limit: string; json
   }
 }
 
-async function auditConflicts(options: { threshold: string; limit: string; json?: boolean }): Promise<void> {
+async function auditConflicts(
+  options: { threshold: string; limit: string; json?: boolean },
+  detectors: PIIDetector[],
+): Promise<void> {
   console.log('Searching for potentially conflicting information...\n');
 
-  // Conflict detection heuristics:
-  // 1. Similar topics (high semantic similarity)
-  // 2. Different values/statements (lexical differences)
-
-  const chunks = getAllChunksWithEmbeddings();
-
-  if (chunks.length === 0) {
-    console.log('No chunks in index.');
-    return;
-  }
-
-  // Look for conflict patterns
-  const conflicts: Array<{
-    chunk1: { path: string; line_start: number; snippet: string };
-    chunk2: { path: string; line_start: number; snippet: string };
-    reason: string;
-    similarity: number;
-  }> = [];
-
-  const limit = parseInt(options.limit, 10);
-  const threshold = parseFloat(options.threshold);
-
-  // Find chunks that are semantically similar but from different documents
-  for (let i = 0; i < chunks.length && conflicts.length < limit; i++) {
-    for (let j = i + 1; j < chunks.length && conflicts.length < limit; j++) {
-      // Skip chunks from same document
-      if (chunks[i].doc_id === chunks[j].doc_id) continue;
-
-      const similarity = cosineSimilarity(chunks[i].embedding, chunks[j].embedding);
-
-      // Look for high similarity (same topic) but different content
-      if (similarity >= threshold * SEARCH.CONFLICT_THRESHOLD_MODIFIER && similarity < 1.0) {
-        // Check for potential conflict patterns (numbers, dates, versions)
-        const hasConflict = detectPotentialConflict(chunks[i].text, chunks[j].text);
+  if (!(await hasChunks())) return;
 
-        if (hasConflict.isConflict) {
-          conflicts.push({
-            chunk1: {
-              path: chunks[i].doc_id,
-              line_start: chunks[i].line_start,
-              snippet: chunks[i].snippet,
-            },
-            chunk2: {
-              path: chunks[j].doc_id,
-              line_start: chunks[j].line_start,
-              snippet: chunks[j].snippet,
-            },
-            reason: hasConflict.reason,
-            similarity,
-          });
-        }
-      }
-    }
-  }
+  const conflicts = findConflicts({
+    threshold: parseFloat(options.threshold),
+    limit: parseInt(options.limit, 10),
+    detectors,
+  });
 
   if (options.json) {
     console.log(JSON.stringify(conflicts, null, 2));
@@ -273,53 +132,41 @@ async function auditConflicts(options: { threshold: string; limit: string; json?
   }
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
-
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
+async function auditPII(options: { maxFindings: string; json?: boolean }, detectors: PIIDetector[]): Promise<void> {
+  // A NaN limit would never fail the gate
+  if (!/^\d+$/.test(options.maxFindings.trim())) {
+    console.error(`Error: --max-findings must be a non-negative integer, got: ${options.maxFindings}`);
+    process.exit(1);
   }
+  const maxFindings = parseInt(options.maxFindings, 10);
+  const report = findPII(detectors);
+  const failed = report.total > maxFindings;
 
-  if (normA === 0 || normB === 0) return 0;
-
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-}
-
-function detectPotentialConflict(text1: string, text2: string): { isConflict: boolean; reason: string } {
-  // Pattern 1: Different numbers for same metric
-  const numberPattern = /(\d+(?:\.\d+)?)\s*(MB|GB|KB|ms|seconds?|minutes?|hours?|days?|%)/gi;
-  const nums1 = [...text1.matchAll(numberPattern)];
-  const nums2 = [...text2.matchAll(numberPattern)];
-
-  for (const n1 of nums1) {
-    for (const n2 of nums2) {
-      if (n1[2].toLowerCase() === n2[2].toLowerCase() && n1[1] !== n2[1]) {
-        return { isConflict: true, reason: `Different values: ${n1[0]} vs ${n2[0]}` };
+  if (options.json) {
+    console.log(JSON.stringify({ ...report, max_findings: maxFindings, failed }, null, 2));
+  } else if (report.total === 0) {
+    console.log('No PII found in the index.');
+  } else {
+    const types = Object.entries(report.by_type).map(([t, count]) => `${t} ${count}`);
+    console.log(`Found ${report.total} PII matches in ${report.documents.length} documents (${types.join(', ')}):\n`);
+
+    for (const doc of report.documents) {
+      console.log(`${doc.path} (${doc.findings.length})`);
+      for (const f of doc.findings) {
+        const lines = f.line_end > f.line_start ? `${f.line_start}-${f.line_end}` : String(f.line_start);
+        console.log(`  line ${lines}  ${f.type}`);
       }
+      console.log();
     }
   }
 
-  // Pattern 2: Different version numbers
-  const versionPattern = /v?(\d+\.\d+(?:\.\d+)?)/gi;
-  const vers1 = [...text1.matchAll(versionPattern)];
-  const vers2 = [...text2.matchAll(versionPattern)];
-
-  if (vers1.length > 0 && vers2.length > 0) {
-    const v1 = vers1[0][1];
-    const v2 = vers2[0][1];
-    if (v1 !== v2) {
-      return { isConflict: true, reason: `Different versions: ${v1} vs ${v2}` };
+  if (failed) {
+    if (!options.json) {
+      console.error(`PII audit failed: ${report.total} findings (max ${maxFindings})`);
     }
+    process.exit(1);
   }
-
-  return { isConflict: false, reason: '' };
 }
 
 // Export for testing
-export { detectPotentialConflict };
+export { detectPotentialConflict } from '../../core/audit.js';
@@ -42,7 +42,7 @@ export const bootstrapCommand = new Command('bootstrap')
       // Download models in parallel if --all, otherwise sequential
       if (options.all) {
         console.log('Downloading all models in parallel:');
-        console.log(`  - Embedding: ${getModelName()}`);
+        console.log(`  - Embedding: ${await getModelName()}`);
         console.log(`  - Reranker: ${getRerankerModelName()}`);
         console.log('This may take a few minutes on first run...\n');
 
@@ -56,7 +56,7 @@ export const bootstrapCommand = new Command('bootstrap')
         }
       } else {
         // Download embedding model
-        console.log(`Downloading embedding model: ${getModelName()}`);
+        console.log(`Downloading embedding model: ${await getModelName()}`);
         console.log('This may take a few minutes on first run...\n');
 
         try {
@@ -7,6 +7,7 @@
  */
 
 import { Command } from 'commander';
+import { formatLocation } from '../../core/chunker.js';
 import { DEFAULTS, MODELS, UI } from '../../core/constants.js';
 import { buildRAGPrompt, ensureModelAvailable, ensureOllamaRunning, generateWithRAG } from '../../core/llm.js';
 import { search } from '../../core/retrieval.js';
@@ -66,6 +67,9 @@ export const chatCommand = new Command('chat')
         path: r.path,
         line_start: r.line_start,
         line_end: r.line_end,
+        page_start: r.page_start,
+        page_end: r.page_end,
+        heading_path: r.heading_path,
         snippet: r.snippet,
         score: r.score,
       }));
@@ -75,7 +79,8 @@ export const chatCommand = new Command('chat')
         console.log('Retrieved context:');
         console.log('─'.repeat(UI.SEPARATOR_WIDTH));
         for (const ctx of contexts) {
-          console.log(`[${ctx.path}:${ctx.line_start}-${ctx.line_end}] (score: ${ctx.score.toFixed(3)})`);
+          const section = ctx.heading_path ? ` | ${ctx.heading_path}` : '';
+          console.log(`[${formatLocation(ctx.path, ctx)}] (score: ${ctx.score.toFixed(3)})${section}`);
           console.log(ctx.snippet);
           console.log('─'.repeat(UI.SEPARATOR_WIDTH));
         }
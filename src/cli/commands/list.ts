@@ -1,7 +1,8 @@
 /**
  * List command - list indexed documents
  *
- * Displays all indexed documents with size and update time.
+ * Displays all indexed documents with size and update time, and flags
+ * documents that had PII redacted at index time.
  *
  * @module cli/commands/list
  */
@@ -50,6 +51,10 @@ export const listCommand = new Command('list')
         const updated = new Date(doc.updated_at).toLocaleString();
         console.log(`${doc.doc_id}`);
         console.log(`  Format: ${doc.format} | Size: ${sizeKB} KB | Updated: ${updated}`);
+        if (doc.pii_stats && Object.keys(doc.pii_stats).length > 0) {
+          const counts = Object.entries(doc.pii_stats).map(([type, count]) => `${type} ×${count}`);
+          console.log(`  PII redacted at index time: ${counts.join(', ')}`);
+        }
       }
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : error);
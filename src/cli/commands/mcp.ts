@@ -0,0 +1,21 @@
+/**
+ * MCP command - run DSEEK as an MCP server
+ *
+ * Serves search, status, list and chat tools over stdio for MCP clients.
+ *
+ * @module cli/commands/mcp
+ */
+
+import { Command } from 'commander';
+import { startMcpServer } from '../../mcp/server.js';
+
+export const mcpCommand = new Command('mcp')
+  .description('Run an MCP server on stdio exposing search, status, list and chat tools')
+  .action(async () => {
+    try {
+      await startMcpServer(mcpCommand.parent?.version() ?? '0.0.0');
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
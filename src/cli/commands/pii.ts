@@ -0,0 +1,95 @@
+/**
+ * PII command - preview PII redaction
+ *
+ * Runs the project's PII detectors (config plus `.dseek/pii-rules.json`)
+ * over a file and shows what would be redacted.
+ *
+ * @module cli/commands/pii
+ */
+
+import { readFile } from 'node:fs/promises';
+import { relative, resolve } from 'node:path';
+import { Command } from 'commander';
+import { findProjectRoot, loadConfig } from '../../core/config.js';
+import { FILES } from '../../core/constants.js';
+import { isSupported, parseDocument } from '../../parsers/index.js';
+import { createDetectors, loadPIIRules, redactPII } from '../../privacy/pii.js';
+
+/**
+ * 1-based line number of a character offset
+ */
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (text[i] === '\n') line++;
+  }
+  return line;
+}
+
+const testCommand = new Command('test')
+  .description('Show what PII would be redacted in a file')
+  .argument('<file>', 'File to scan')
+  .option('--redacted', 'Print the redacted text')
+  .option('--json', 'Output as JSON')
+  .action(async (file: string, options) => {
+    try {
+      const projectRoot = findProjectRoot();
+      const config = await loadConfig(projectRoot);
+      const projectRules = await loadPIIRules(projectRoot);
+      const detectors = createDetectors(config.privacy, projectRules);
+
+      // Scan the text as it would be indexed
+      const filePath = resolve(file);
+      const content = await readFile(filePath);
+      const text = isSupported(filePath) ? (await parseDocument(content, filePath)).content : content.toString('utf-8');
+
+      const result = redactPII(text, detectors);
+      const matches = result.matches.map((m) => ({
+        type: m.type,
+        value: m.value,
+        replacement: m.replacement,
+        line: lineAt(text, m.start),
+      }));
+
+      if (options.json) {
+        console.log(
+          JSON.stringify(
+            {
+              file: relative(projectRoot, filePath),
+              detectors: [...new Set(detectors.map((d) => d.name))],
+              matches,
+              redacted_text: options.redacted ? result.text : undefined,
+            },
+            null,
+            2,
+          ),
+        );
+        return;
+      }
+
+      console.log(`Detectors: ${[...new Set(detectors.map((d) => d.name))].join(', ')}`);
+      console.log(
+        `Rules file: ${FILES.PII_RULES} (${projectRules.rules.length} rules, ${projectRules.allowlist.length} allowlisted values)`,
+      );
+      console.log();
+
+      if (matches.length === 0) {
+        console.log(`No PII found in ${file}.`);
+      } else {
+        console.log(`${matches.length} match(es) in ${file}:\n`);
+        for (const m of matches) {
+          console.log(`  line ${m.line}  ${m.type}  ${m.value} -> ${m.replacement}`);
+        }
+      }
+
+      if (options.redacted) {
+        console.log('\nRedacted text:');
+        console.log(result.text);
+      }
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+export const piiCommand = new Command('pii').description('Inspect PII detection').addCommand(testCommand);
@@ -0,0 +1,55 @@
+/**
+ * Reindex command - rebuild parts of the index
+ *
+ * With --embeddings, re-embeds all stored chunks with the configured
+ * embedding model, without parsing documents again.
+ *
+ * @module cli/commands/reindex
+ */
+
+import { Command } from 'commander';
+import { reembedIndex } from '../../core/indexer.js';
+import type { EmbeddingConfig } from '../../types/index.js';
+
+function describeModel(model: EmbeddingConfig): string {
+  return model.model ? `${model.model} (${model.dimensions} dims)` : 'unfinished rebuild';
+}
+
+export const reindexCommand = new Command('reindex')
+  .description('Rebuild the index')
+  .option('--embeddings', 'Re-embed all chunks with the configured embedding model')
+  .option('-f, --force', 'Rebuild even if the index already uses the configured model')
+  .option('--json', 'Output as JSON')
+  .action(async (options: { embeddings?: boolean; force?: boolean; json?: boolean }) => {
+    try {
+      if (!options.embeddings) {
+        console.error('Error: nothing to rebuild; use --embeddings to re-embed chunks with embedding.model');
+        process.exit(1);
+      }
+
+      const showProgress = !options.json && process.stdout.isTTY;
+      const result = await reembedIndex(undefined, {
+        force: options.force,
+        onProgress: (done, total) => {
+          if (showProgress) process.stdout.write(`\rEmbedded ${done}/${total} chunks`);
+        },
+      });
+      if (showProgress && result.chunks > 0) process.stdout.write('\n');
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+
+      if (!result.rebuilt) {
+        console.log(`Index already uses ${describeModel(result.current)}. Use --force to rebuild anyway.`);
+        return;
+      }
+
+      console.log(`Embedding model: ${describeModel(result.previous)} -> ${describeModel(result.current)}`);
+      console.log(`Re-embedded ${result.chunks} chunks (${result.cached} from the embedding cache)`);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
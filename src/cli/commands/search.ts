@@ -1,7 +1,7 @@
 /**
  * Search command - hybrid search with text/JSON output
  *
- * Performs semantic + keyword search with optional reranking.
+ * Performs hybrid, semantic-only or keyword-only search with optional reranking.
  * Default output is LLM-friendly text format; use --json for machine parsing.
  *
  * @module cli/commands/search
@@ -9,8 +9,9 @@
 
 import { readFileSync } from 'node:fs';
 import { Command } from 'commander';
+import { formatLocation } from '../../core/chunker.js';
 import { LIMITS, TEXT_FORMAT } from '../../core/constants.js';
-import { search } from '../../core/retrieval.js';
+import { CursorError, search } from '../../core/retrieval.js';
 import type { SearchQuery, SearchResponse } from '../../types/index.js';
 
 export const searchCommand = new Command('search')
@@ -20,7 +21,9 @@ export const searchCommand = new Command('search')
   .option('-c, --cursor <cursor>', 'Pagination cursor')
   .option('--path <prefix>', 'Filter by path prefix (e.g., "docs/api/")')
   .option('--source <name>', 'Filter by source name')
+  .option('--section <heading>', 'Filter by heading (e.g., "Tokens" or "Auth > Tokens")')
   .option('--batch <file>', 'Batch search from file (one query per line)')
+  .option('--mode <mode>', 'Retrieval mode: hybrid, semantic or keyword (default: from config)')
   .option('--rerank', 'Enable cross-encoder reranking (slower, more accurate)')
   .option('--rerank-top-k <number>', 'Number of candidates to rerank', String(LIMITS.DEFAULT_RERANK_TOP_K))
   .option('--json', 'Output as JSON (default: text)')
@@ -44,9 +47,11 @@ export const searchCommand = new Command('search')
             filters: {
               path_prefix: options.path,
               source_name: options.source,
+              section: options.section,
             },
             rerank: options.rerank ?? false,
             rerank_top_k: options.rerank ? parseInt(options.rerankTopK, 10) : undefined,
+            mode: options.mode,
           };
           const result = await search(searchQuery);
           results.push(result);
@@ -70,9 +75,11 @@ export const searchCommand = new Command('search')
         filters: {
           path_prefix: options.path,
           source_name: options.source,
+          section: options.section,
         },
         rerank: options.rerank ?? false,
         rerank_top_k: options.rerank ? parseInt(options.rerankTopK, 10) : undefined,
+        mode: options.mode,
       };
 
       const result = await search(searchQuery);
@@ -84,10 +91,11 @@ export const searchCommand = new Command('search')
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
+      const code = error instanceof CursorError ? error.code : undefined;
       if (options.json && !options.llm) {
-        outputJSON({ error: errorMessage }, options.pretty);
+        outputJSON({ error: errorMessage, code }, options.pretty);
       } else {
-        console.log(`# Error: ${errorMessage}`);
+        console.log(`# Error${code ? ` (${code})` : ''}: ${errorMessage}`);
       }
       process.exit(1);
     }
@@ -105,9 +113,12 @@ export const searchCommand = new Command('search')
  * # Confidence: 0.85 | Results: 3 | Index: ready
  *
  * ---
- * [docs/auth.md:45-67] score:0.92
+ * [docs/auth.md:45-67] score:0.92 | Auth > Tokens > Refresh
  *
  * The authentication flow begins with...
+ *
+ * ---
+ * [manuals/sso.pdf#p12] score:0.81
  * ```
  */
 function formatTextOutput(response: SearchResponse): string {
@@ -116,13 +127,15 @@ function formatTextOutput(response: SearchResponse): string {
 
   lines.push(`# Query: "${response.query}"`);
   lines.push(
-    `# Confidence: ${response.confidence.toFixed(precision)} | Results: ${response.results.length} | Index: ${response.index_state}`
+    `# Confidence: ${response.confidence.toFixed(precision)} | Results: ${response.results.length} | Index: ${response.index_state}`,
   );
   lines.push('');
 
   for (const result of response.results) {
     lines.push(TEXT_FORMAT.RESULT_SEPARATOR);
-    lines.push(`[${result.path}:${result.line_start}-${result.line_end}] score:${result.score.toFixed(precision)}`);
+    const citation = result.citation ?? formatLocation(result.path, result);
+    const section = result.heading_path ? ` | ${result.heading_path}` : '';
+    lines.push(`[${citation}] score:${result.score.toFixed(precision)}${section}`);
     lines.push('');
     lines.push(result.snippet);
     lines.push('');
@@ -0,0 +1,43 @@
+/**
+ * Serve command - run the local HTTP API
+ *
+ * Keeps models loaded and serves search, status, list, audit and chat as JSON.
+ *
+ * @module cli/commands/serve
+ */
+
+import type { AddressInfo } from 'node:net';
+import { Command } from 'commander';
+import { NETWORK } from '../../core/constants.js';
+import { startHttpServer } from '../../server/http.js';
+
+export const serveCommand = new Command('serve')
+  .description('Run a local HTTP API for search, status, list, audit and chat')
+  .option('-p, --port <number>', 'Port to listen on', String(NETWORK.DEFAULT_SERVE_PORT))
+  .option('--host <host>', 'Address to bind (non-local requires privacy.allow_remote)', NETWORK.DEFAULT_SERVE_HOST)
+  .option('--warm-reranker', 'Also load the reranker model at startup')
+  .option('--allow-origin <origins...>', 'Browser origins allowed to call the API (default: none)')
+  .action(async (options) => {
+    try {
+      const server = await startHttpServer({
+        host: options.host,
+        port: parseInt(options.port, 10),
+        warmReranker: options.warmReranker ?? false,
+        allowedOrigins: options.allowOrigin ?? [],
+      });
+
+      const { address, port } = server.address() as AddressInfo;
+      const host = address.includes(':') ? `[${address}]` : address;
+      console.error(`DSEEK HTTP API listening on http://${host}:${port}`);
+
+      const shutdown = () => {
+        server.close(() => process.exit(0));
+        server.closeAllConnections();
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
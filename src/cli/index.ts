@@ -14,7 +14,11 @@ import { bootstrapCommand } from './commands/bootstrap.js';
 import { chatCommand } from './commands/chat.js';
 import { deleteCommand } from './commands/delete.js';
 import { listCommand } from './commands/list.js';
+import { mcpCommand } from './commands/mcp.js';
+import { piiCommand } from './commands/pii.js';
+import { reindexCommand } from './commands/reindex.js';
 import { searchCommand } from './commands/search.js';
+import { serveCommand } from './commands/serve.js';
 import { statusCommand } from './commands/status.js';
 import { watchCommand } from './commands/watch.js';
 
@@ -37,8 +41,12 @@ export function createCLI(): Command {
   program.addCommand(statusCommand);
   program.addCommand(listCommand);
   program.addCommand(deleteCommand);
+  program.addCommand(reindexCommand);
   program.addCommand(auditCommand);
+  program.addCommand(piiCommand);
   program.addCommand(watchCommand);
+  program.addCommand(mcpCommand);
+  program.addCommand(serveCommand);
 
   return program;
 }
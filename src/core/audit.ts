@@ -0,0 +1,375 @@
+/**
+ * Index audits - near-duplicate, conflict and PII detection
+ *
+ * Compares chunk embeddings pairwise to find repeated content and
+ * similar passages that state different values or versions.
+ * Snippets in the results are PII-redacted.
+ *
+ * The PII audit scans the stored chunk text for values that should not
+ * be in the index, reporting locations only (never the values).
+ *
+ * @module audit
+ */
+
+import { type PIIDetector, redactPII } from '../privacy/pii.js';
+import { getDb } from '../storage/sqlite.js';
+import { LIMITS, SEARCH } from './constants.js';
+
+interface ChunkWithEmbedding {
+  chunk_id: string;
+  doc_id: string;
+  text: string;
+  snippet: string;
+  line_start: number;
+  line_end: number;
+  embedding: number[];
+}
+
+export interface DuplicateGroup {
+  chunks: Array<{
+    chunk_id: string;
+    path: string;
+    line_start: number;
+    line_end: number;
+    snippet: string;
+  }>;
+  similarity: number;
+}
+
+export interface ConflictPair {
+  chunk1: { path: string; line_start: number; snippet: string };
+  chunk2: { path: string; line_start: number; snippet: string };
+  reason: string;
+  similarity: number;
+}
+
+export interface PIIFinding {
+  type: string;
+  line_start: number;
+  line_end: number;
+}
+
+export interface PIIDocumentFindings {
+  path: string;
+  /** Findings per PII type */
+  by_type: Record<string, number>;
+  /** Locations, sorted by line */
+  findings: PIIFinding[];
+}
+
+export interface PIIAuditReport {
+  /** Total findings across the index */
+  total: number;
+  /** Findings per PII type */
+  by_type: Record<string, number>;
+  /** Documents with findings, most findings first */
+  documents: PIIDocumentFindings[];
+}
+
+export interface AuditOptions {
+  /** Similarity threshold (0-1) */
+  threshold: number;
+  /** Maximum results */
+  limit: number;
+  /** Detectors used to redact snippets (default: built-in regex rules) */
+  detectors?: PIIDetector[];
+}
+
+/**
+ * Get all chunks with embeddings from the database.
+ */
+function getAllChunksWithEmbeddings(): ChunkWithEmbedding[] {
+  const db = getDb();
+
+  // Get all chunks
+  const chunkRows = db
+    .prepare(
+      `
+    SELECT c.id, c.chunk_id, c.doc_id, c.text, c.snippet, c.line_start, c.line_end
+    FROM chunks c
+    LIMIT ?
+  `,
+    )
+    .all(LIMITS.MAX_DOCS_STATS_SCAN) as Array<{
+    id: number;
+    chunk_id: string;
+    doc_id: string;
+    text: string;
+    snippet: string;
+    line_start: number;
+    line_end: number;
+  }>;
+
+  // Get embeddings for each chunk
+  const getEmbeddingStmt = db.prepare(`
+    SELECT embedding FROM chunks_vec WHERE chunk_rowid = ?
+  `);
+
+  const chunks: ChunkWithEmbedding[] = [];
+
+  for (const row of chunkRows) {
+    const vecRow = getEmbeddingStmt.get(row.id) as { embedding: ArrayBuffer } | undefined;
+
+    if (vecRow) {
+      // Convert Float32Array back from ArrayBuffer
+      const embedding = Array.from(new Float32Array(vecRow.embedding));
+
+      chunks.push({
+        chunk_id: row.chunk_id,
+        doc_id: row.doc_id,
+        text: row.text,
+        snippet: row.snippet,
+        line_start: row.line_start,
+        line_end: row.line_end,
+        embedding,
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Find groups of near-duplicate chunks.
+ *
+ * @param options - Similarity threshold and maximum number of groups
+ * @returns Groups of two or more chunks at or above the threshold
+ *
+ * @example
+ * ```ts
+ * const groups = findDuplicates({ threshold: 0.9, limit: 20 });
+ * ```
+ */
+export function findDuplicates(options: AuditOptions): DuplicateGroup[] {
+  const { threshold, limit, detectors } = options;
+  const chunks = getAllChunksWithEmbeddings();
+
+  // Find duplicates using pairwise similarity
+  const duplicates: DuplicateGroup[] = [];
+  const seen = new Set<string>();
+
+  for (let i = 0; i < chunks.length && duplicates.length < limit; i++) {
+    if (seen.has(chunks[i].chunk_id)) continue;
+
+    const group: DuplicateGroup = {
+      chunks: [
+        {
+          chunk_id: chunks[i].chunk_id,
+          path: chunks[i].doc_id,
+          line_start: chunks[i].line_start,
+          line_end: chunks[i].line_end,
+          snippet: redactPII(chunks[i].snippet, detectors).text,
+        },
+      ],
+      similarity: 1,
+    };
+
+    // Compare with other chunks
+    for (let j = i + 1; j < chunks.length; j++) {
+      if (seen.has(chunks[j].chunk_id)) continue;
+
+      const similarity = cosineSimilarity(chunks[i].embedding, chunks[j].embedding);
+
+      if (similarity >= threshold) {
+        group.chunks.push({
+          chunk_id: chunks[j].chunk_id,
+          path: chunks[j].doc_id,
+          line_start: chunks[j].line_start,
+          line_end: chunks[j].line_end,
+          snippet: redactPII(chunks[j].snippet, detectors).text,
+        });
+        group.similarity = Math.min(group.similarity, similarity);
+        seen.add(chunks[j].chunk_id);
+      }
+    }
+
+    if (group.chunks.length > 1) {
+      duplicates.push(group);
+      seen.add(chunks[i].chunk_id);
+    }
+  }
+
+  return duplicates;
+}
+
+/**
+ * Find potentially conflicting chunks across documents.
+ *
+ * Heuristics:
+ * 1. Similar topics (high semantic similarity)
+ * 2. Different values/statements (lexical differences)
+ *
+ * @param options - Similarity threshold and maximum number of conflicts
+ * @returns Pairs of chunks from different documents with a conflict reason
+ *
+ * @example
+ * ```ts
+ * const conflicts = findConflicts({ threshold: 0.9, limit: 20 });
+ * ```
+ */
+export function findConflicts(options: AuditOptions): ConflictPair[] {
+  const { threshold, limit, detectors } = options;
+  const chunks = getAllChunksWithEmbeddings();
+
+  // Look for conflict patterns
+  const conflicts: ConflictPair[] = [];
+
+  // Find chunks that are semantically similar but from different documents
+  for (let i = 0; i < chunks.length && conflicts.length < limit; i++) {
+    for (let j = i + 1; j < chunks.length && conflicts.length < limit; j++) {
+      // Skip chunks from same document
+      if (chunks[i].doc_id === chunks[j].doc_id) continue;
+
+      const similarity = cosineSimilarity(chunks[i].embedding, chunks[j].embedding);
+
+      // Look for high similarity (same topic) but different content
+      if (similarity >= threshold * SEARCH.CONFLICT_THRESHOLD_MODIFIER && similarity < 1.0) {
+        // Check for potential conflict patterns (numbers, dates, versions)
+        const hasConflict = detectPotentialConflict(chunks[i].text, chunks[j].text);
+
+        if (hasConflict.isConflict) {
+          conflicts.push({
+            chunk1: {
+              path: chunks[i].doc_id,
+              line_start: chunks[i].line_start,
+              snippet: redactPII(chunks[i].snippet, detectors).text,
+            },
+            chunk2: {
+              path: chunks[j].doc_id,
+              line_start: chunks[j].line_start,
+              snippet: redactPII(chunks[j].snippet, detectors).text,
+            },
+            reason: hasConflict.reason,
+            similarity,
+          });
+        }
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * 1-based line of a character offset, counted from `firstLine`
+ */
+function lineOf(text: string, offset: number, firstLine: number): number {
+  let line = firstLine;
+  for (let i = 0; i < offset; i++) {
+    if (text[i] === '\n') line++;
+  }
+  return line;
+}
+
+/**
+ * Scan every stored chunk for PII.
+ *
+ * Counts the matches redaction would replace, located by line within their
+ * chunk (clamped to the chunk's line range) and grouped by document and
+ * type. A value seen by several overlapping chunks is reported once.
+ *
+ * @param detectors - Detectors to run (default: built-in regex rules)
+ * @returns Findings grouped by document and type
+ *
+ * @example
+ * ```ts
+ * const report = findPII(await loadDetectors(config.privacy, root));
+ * if (report.total > 0) process.exitCode = 1;
+ * ```
+ */
+export function findPII(detectors?: PIIDetector[]): PIIAuditReport {
+  const db = getDb();
+  const rows = db
+    .prepare('SELECT doc_id, text, line_start, line_end FROM chunks ORDER BY doc_id, line_start')
+    .iterate() as IterableIterator<{ doc_id: string; text: string; line_start: number; line_end: number }>;
+
+  const documents = new Map<string, PIIDocumentFindings>();
+  const seen = new Set<string>();
+  const byType: Record<string, number> = {};
+  let total = 0;
+
+  for (const row of rows) {
+    for (const match of redactPII(row.text, detectors).matches) {
+      const clamp = (line: number) => Math.min(Math.max(line, row.line_start), row.line_end);
+      const finding: PIIFinding = {
+        type: match.type,
+        line_start: clamp(lineOf(row.text, match.start, row.line_start)),
+        line_end: clamp(lineOf(row.text, match.end, row.line_start)),
+      };
+
+      const key = `${row.doc_id}\0${finding.type}\0${finding.line_start}\0${match.value}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      let doc = documents.get(row.doc_id);
+      if (!doc) {
+        doc = { path: row.doc_id, by_type: {}, findings: [] };
+        documents.set(row.doc_id, doc);
+      }
+      doc.findings.push(finding);
+      doc.by_type[finding.type] = (doc.by_type[finding.type] ?? 0) + 1;
+      byType[finding.type] = (byType[finding.type] ?? 0) + 1;
+      total++;
+    }
+  }
+
+  for (const doc of documents.values()) {
+    doc.findings.sort((a, b) => a.line_start - b.line_start || a.type.localeCompare(b.type));
+  }
+
+  return {
+    total,
+    by_type: byType,
+    documents: [...documents.values()].sort(
+      (a, b) => b.findings.length - a.findings.length || a.path.localeCompare(b.path),
+    ),
+  };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export function detectPotentialConflict(text1: string, text2: string): { isConflict: boolean; reason: string } {
+  // Pattern 1: Different numbers for same metric
+  const numberPattern = /(\d+(?:\.\d+)?)\s*(MB|GB|KB|ms|seconds?|minutes?|hours?|days?|%)/gi;
+  const nums1 = [...text1.matchAll(numberPattern)];
+  const nums2 = [...text2.matchAll(numberPattern)];
+
+  for (const n1 of nums1) {
+    for (const n2 of nums2) {
+      if (n1[2].toLowerCase() === n2[2].toLowerCase() && n1[1] !== n2[1]) {
+        return { isConflict: true, reason: `Different values: ${n1[0]} vs ${n2[0]}` };
+      }
+    }
+  }
+
+  // Pattern 2: Different version numbers
+  const versionPattern = /v?(\d+\.\d+(?:\.\d+)?)/gi;
+  const vers1 = [...text1.matchAll(versionPattern)];
+  const vers2 = [...text2.matchAll(versionPattern)];
+
+  if (vers1.length > 0 && vers2.length > 0) {
+    const v1 = vers1[0][1];
+    const v2 = vers2[0][1];
+    if (v1 !== v2) {
+      return { isConflict: true, reason: `Different versions: ${v1} vs ${v2}` };
+    }
+  }
+
+  return { isConflict: false, reason: '' };
+}
@@ -0,0 +1,90 @@
+/**
+ * Chat pipeline - retrieve context and answer with the local LLM
+ *
+ * Shared by the MCP and HTTP servers; the `chat` CLI command drives the
+ * same steps itself so it can auto-start Ollama and show context/prompt.
+ *
+ * @module chat
+ */
+
+import { loadConfig } from './config.js';
+import { DEFAULTS, MODELS } from './constants.js';
+import { generateWithRAG, isOllamaAvailable, type RAGContext } from './llm.js';
+import { search } from './retrieval.js';
+
+export interface ChatOptions {
+  /** Number of context chunks */
+  top_k?: number;
+  /** Ollama model to use */
+  model?: string;
+  /** Generation temperature */
+  temperature?: number;
+  /** Use cross-encoder reranking for context */
+  rerank?: boolean;
+  /** Disable source citations in the answer */
+  no_cite?: boolean;
+}
+
+export interface ChatResponse {
+  query: string;
+  answer: string;
+  context: Array<RAGContext & { score: number }>;
+  model: string;
+  confidence: number;
+}
+
+/**
+ * Answer a question from the indexed documentation.
+ *
+ * @param query - Question to answer
+ * @param options - Retrieval and generation options
+ * @returns Answer with the context it was generated from
+ * @throws Error if Ollama is not running or generation fails
+ *
+ * @example
+ * ```ts
+ * const { answer, context } = await answerQuestion('How do refresh tokens work?', { top_k: 5 });
+ * ```
+ */
+export async function answerQuestion(query: string, options: ChatOptions = {}): Promise<ChatResponse> {
+  if (!(await isOllamaAvailable())) {
+    throw new Error('Ollama is not running. Start it with `ollama serve`.');
+  }
+
+  const config = await loadConfig();
+  const model = options.model ?? config.runtime.ollama_model ?? MODELS.DEFAULT_LLM;
+  const searchResult = await search({
+    query,
+    limit: options.top_k ?? DEFAULTS.CHAT_TOP_K,
+    rerank: options.rerank ?? false,
+  });
+
+  if (searchResult.results.length === 0) {
+    return {
+      query,
+      answer: 'No relevant documentation found for your question.',
+      context: [],
+      model,
+      confidence: searchResult.confidence,
+    };
+  }
+
+  const context = searchResult.results.map((r) => ({
+    path: r.path,
+    line_start: r.line_start,
+    line_end: r.line_end,
+    page_start: r.page_start,
+    page_end: r.page_end,
+    heading_path: r.heading_path,
+    snippet: r.snippet,
+    score: r.score,
+  }));
+
+  const answer = await generateWithRAG(query, context, {
+    model,
+    temperature: options.temperature,
+    noCite: options.no_cite ?? false,
+  });
+
+  return { query, answer, context, model, confidence: searchResult.confidence };
+}
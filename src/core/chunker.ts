@@ -2,28 +2,61 @@
  * Document chunking strategies
  *
  * Splits documents into semantic chunks for embedding and retrieval.
- * Supports markdown-aware chunking and fixed-size fallback.
+ * Supports markdown-aware chunking (also used for reStructuredText,
+ * AsciiDoc and structured data converted to markdown), declaration-based
+ * chunking for source code, cell-based chunking for notebooks, and
+ * fixed-size fallback. Markdown tables are kept whole where they fit;
+ * tables split across chunks repeat their header rows.
  *
  * @module chunker
  */
 
 import { createHash } from 'node:crypto';
-import { extractSections } from '../parsers/markdown.js';
+import { extractDeclarations } from '../parsers/code.js';
+import { extractSections, findTables } from '../parsers/markdown.js';
 import type { Chunk, ChunkingConfig, DocumentFormat } from '../types/index.js';
 import { LIMITS, TEXT_PROCESSING } from './constants.js';
 
+/** Formats whose parsed content is markdown (other markup and structured data are converted to it) */
+const MARKDOWN_FORMATS: DocumentFormat[] = [
+  'md',
+  'rst',
+  'adoc',
+  'epub',
+  'odt',
+  'rtf',
+  'eml',
+  'mbox',
+  'json',
+  'yaml',
+  'toml',
+];
+
+/** Formats whose content may hold markdown headings that give chunks a heading path */
+const HEADING_PATH_FORMATS: DocumentFormat[] = [...MARKDOWN_FORMATS, 'html', 'docx', 'ipynb'];
+
+/** Separator between the headings of a heading path */
+const HEADING_PATH_SEPARATOR = ' > ';
+
 const DEFAULT_CONFIG: ChunkingConfig = {
   strategy: 'markdown-structure',
   fallback: {
     chunk_size: LIMITS.DEFAULT_CHUNK_SIZE,
     overlap: LIMITS.DEFAULT_CHUNK_OVERLAP,
   },
+  notebook_outputs: false,
 };
 
 export interface ChunkOptions {
   docId: string;
   format: DocumentFormat;
   config?: ChunkingConfig;
+  /** 1-based line number where each page starts (from `ParsedDocument.metadata.page_breaks`) */
+  pageBreaks?: number[];
+  /** Source language for `code` documents (from `ParsedDocument.metadata.language`) */
+  language?: string;
+  /** Source line of each content line (from `ParsedDocument.metadata.line_map`) */
+  lineMap?: number[];
 }
 
 /**
@@ -40,6 +73,63 @@ export function generateChunkId(docId: string, lineStart: number, lineEnd: numbe
   return `${docId}:${lineStart}-${lineEnd}:${hash}`;
 }
 
+/**
+ * Get the 1-based page number containing a line.
+ *
+ * @param line - 1-based line number
+ * @param pageBreaks - 1-based line number where each page starts
+ * @returns Page number (1 if line precedes the first break)
+ */
+export function getPageForLine(line: number, pageBreaks: number[]): number {
+  let page = 1;
+
+  for (let i = 0; i < pageBreaks.length && pageBreaks[i] <= line; i++) {
+    page = i + 1;
+  }
+
+  return page;
+}
+
+/**
+ * Check whether a document is a notebook, whose page numbers are cell numbers.
+ *
+ * @param path - Document path
+ * @returns True for `.ipynb` files
+ */
+export function isNotebook(path: string): boolean {
+  return path.toLowerCase().endsWith('.ipynb');
+}
+
+/**
+ * Format a chunk location as a citation.
+ *
+ * Paged documents cite pages (`manual.pdf#p12`, `manual.pdf#p12-13`),
+ * notebooks cite cells (`analysis.ipynb cell 14`), everything else cites
+ * lines (`docs/auth.md:45-67`).
+ *
+ * @param path - Document path
+ * @param location - Line and optional page range
+ * @returns Citation string
+ */
+export function formatLocation(
+  path: string,
+  location: { line_start: number; line_end: number; page_start?: number | null; page_end?: number | null },
+): string {
+  const { line_start, line_end, page_start, page_end } = location;
+
+  if (page_start && isNotebook(path)) {
+    return page_end && page_end !== page_start
+      ? `${path} cells ${page_start}-${page_end}`
+      : `${path} cell ${page_start}`;
+  }
+
+  if (page_start) {
+    return page_end && page_end !== page_start ? `${path}#p${page_start}-${page_end}` : `${path}#p${page_start}`;
+  }
+
+  return `${path}:${line_start}-${line_end}`;
+}
+
 /**
  * Create a preview snippet from text.
  *
@@ -84,7 +174,10 @@ export function createSnippet(text: string, maxLength: number = LIMITS.MAX_SNIPP
 /**
  * Chunk document using appropriate strategy.
  *
- * Uses markdown-structure for .md files, fixed-size for others.
+ * Uses markdown-structure for markdown, reStructuredText, AsciiDoc and
+ * structured data, top-level declarations for source code and cells for
+ * notebooks (unless the strategy is `fallback`), fixed-size for others.
+ * With a line map, line ranges are mapped back to the source file.
  *
  * @param content - Document text content
  * @param options - Chunking options (docId, format, config)
@@ -100,22 +193,94 @@ export function createSnippet(text: string, maxLength: number = LIMITS.MAX_SNIPP
  * ```
  */
 export function chunkDocument(content: string, options: ChunkOptions): Omit<Chunk, 'embedding'>[] {
-  const { docId, format, config = DEFAULT_CONFIG } = options;
+  const { docId, format, config = DEFAULT_CONFIG, pageBreaks, language, lineMap } = options;
+
+  // Use markdown structure for markdown files, declarations for code, fixed-size chunking otherwise
+  let chunks: Omit<Chunk, 'embedding'>[];
+  if (MARKDOWN_FORMATS.includes(format) && config.strategy === 'markdown-structure') {
+    chunks = chunkMarkdownStructure(content, docId);
+  } else if (format === 'code' && language && config.strategy !== 'fallback') {
+    chunks = chunkCodeStructure(content, docId, language, config.fallback);
+  } else if (format === 'ipynb' && pageBreaks && config.strategy !== 'fallback') {
+    chunks = chunkNotebookCells(content, docId, pageBreaks, config.fallback);
+  } else {
+    chunks = chunkFallback(content, docId, config.fallback);
+  }
 
-  // Use markdown structure for markdown files
-  if (format === 'md' && config.strategy === 'markdown-structure') {
-    return chunkMarkdownStructure(content, docId);
+  if (HEADING_PATH_FORMATS.includes(format)) {
+    chunks = addHeadingPaths(chunks, content);
   }
 
-  // Fallback to fixed-size chunking
-  return chunkFallback(content, docId, config.fallback);
+  if (lineMap && lineMap.length > 0) {
+    chunks = chunks.map((chunk) => mapChunkLines(chunk, lineMap));
+  }
+
+  if (!pageBreaks || pageBreaks.length === 0) {
+    return chunks;
+  }
+
+  // Map line ranges to pages for paged formats (PDF)
+  return chunks.map((chunk) => ({
+    ...chunk,
+    page_start: getPageForLine(chunk.line_start, pageBreaks),
+    page_end: getPageForLine(chunk.line_end, pageBreaks),
+  }));
+}
+
+/**
+ * Extract markdown sections with the path of headings enclosing each one.
+ *
+ * Skipped heading levels are left out, so `# A` followed by `### C` gives `A > C`.
+ */
+function extractSectionsWithPaths(content: string): Array<ReturnType<typeof extractSections>[0] & { path: string }> {
+  const stack: Array<{ level: number; text: string }> = [];
+  return extractSections(content).map((section) => {
+    if (section.heading) {
+      while (stack.length > 0 && stack[stack.length - 1].level >= section.level) stack.pop();
+      stack.push({ level: section.level, text: section.heading });
+    }
+    return { ...section, path: stack.map((h) => h.text).join(HEADING_PATH_SEPARATOR) };
+  });
+}
+
+/**
+ * Set each chunk's heading path: the headings enclosing the line it starts on.
+ */
+function addHeadingPaths(chunks: Omit<Chunk, 'embedding'>[], content: string): Omit<Chunk, 'embedding'>[] {
+  const sections = extractSectionsWithPaths(content);
+
+  return chunks.map((chunk) => {
+    let path = '';
+    for (const section of sections) {
+      if (section.startLine > chunk.line_start) break;
+      path = section.path;
+    }
+    return path ? { ...chunk, heading_path: path } : chunk;
+  });
+}
+
+/**
+ * Map a chunk's content lines to source lines (the range covers every mapped line)
+ */
+function mapChunkLines(chunk: Omit<Chunk, 'embedding'>, lineMap: number[]): Omit<Chunk, 'embedding'> {
+  const mapped = lineMap.slice(chunk.line_start - 1, chunk.line_end);
+  if (mapped.length === 0) return chunk;
+
+  const lineStart = mapped.reduce((min, line) => Math.min(min, line));
+  const lineEnd = mapped.reduce((max, line) => Math.max(max, line));
+  return {
+    ...chunk,
+    chunk_id: generateChunkId(chunk.doc_id, lineStart, lineEnd, generateContentHash(chunk.text)),
+    line_start: lineStart,
+    line_end: lineEnd,
+  };
 }
 
 /**
  * Chunk markdown by structure (headers)
  */
 function chunkMarkdownStructure(content: string, docId: string): Omit<Chunk, 'embedding'>[] {
-  const sections = extractSections(content);
+  const sections = extractSectionsWithPaths(content);
   const chunks: Omit<Chunk, 'embedding'>[] = [];
 
   for (const section of sections) {
@@ -125,7 +290,7 @@ function chunkMarkdownStructure(content: string, docId: string): Omit<Chunk, 'em
 
     // If section is too large, split it further
     if (trimmedContent.length > LIMITS.DEFAULT_CHUNK_SIZE * 2) {
-      const subChunks = splitLargeSection(trimmedContent, docId, section.startLine, section.heading);
+      const subChunks = splitLargeSection(trimmedContent, docId, section.startLine, section.path);
       chunks.push(...subChunks);
     } else {
       const hash = generateContentHash(trimmedContent);
@@ -145,18 +310,167 @@ function chunkMarkdownStructure(content: string, docId: string): Omit<Chunk, 'em
   return chunks;
 }
 
+/** A section for `mergeSections()` with 1-based source lines */
+interface MergeableSection {
+  content: string;
+  startLine: number;
+  endLine: number;
+  /** Never merge this section into the previous chunk */
+  startsChunk?: boolean;
+}
+
+/**
+ * Chunk source code by top-level declarations.
+ *
+ * Small neighbouring declarations are merged up to the chunk size;
+ * declarations still too large are split with the fallback chunker.
+ */
+function chunkCodeStructure(
+  content: string,
+  docId: string,
+  language: string,
+  fallback: { chunk_size: number; overlap: number },
+): Omit<Chunk, 'embedding'>[] {
+  return mergeSections(extractDeclarations(content, language, LIMITS.DEFAULT_CHUNK_SIZE * 2), docId, fallback);
+}
+
+/**
+ * Chunk a notebook by cell.
+ *
+ * Cells are merged up to the chunk size, but a markdown heading always
+ * starts a new chunk; cells still too large are split with the fallback
+ * chunker.
+ */
+function chunkNotebookCells(
+  content: string,
+  docId: string,
+  cellBreaks: number[],
+  fallback: { chunk_size: number; overlap: number },
+): Omit<Chunk, 'embedding'>[] {
+  const lines = content.split('\n');
+  const cells: MergeableSection[] = [];
+
+  cellBreaks.forEach((start, i) => {
+    let end = Math.min(cellBreaks[i + 1] ?? lines.length + 1, lines.length + 1) - 1;
+    while (end >= start && lines[end - 1].trim() === '') end--;
+    if (end < start) return;
+
+    const cellContent = lines.slice(start - 1, end).join('\n');
+    cells.push({ content: cellContent, startLine: start, endLine: end, startsChunk: /^#{1,6}\s/.test(cellContent) });
+  });
+
+  return mergeSections(cells, docId, fallback);
+}
+
+/**
+ * Turn consecutive sections into chunks, merging small neighbours up to
+ * the chunk size and splitting sections too large for one chunk.
+ */
+function mergeSections(
+  sections: MergeableSection[],
+  docId: string,
+  fallback: { chunk_size: number; overlap: number },
+): Omit<Chunk, 'embedding'>[] {
+  const maxLength = LIMITS.DEFAULT_CHUNK_SIZE * 2;
+  const chunks: Omit<Chunk, 'embedding'>[] = [];
+  let pending: { text: string; startLine: number; endLine: number } | null = null;
+
+  const flush = () => {
+    if (!pending) return;
+    const hash = generateContentHash(pending.text);
+    chunks.push({
+      chunk_id: generateChunkId(docId, pending.startLine, pending.endLine, hash),
+      doc_id: docId,
+      text: pending.text,
+      snippet: createSnippet(pending.text),
+      line_start: pending.startLine,
+      line_end: pending.endLine,
+    });
+    pending = null;
+  };
+
+  for (const section of sections) {
+    if (section.content.length > maxLength) {
+      flush();
+      // Fallback line numbers are relative to the section
+      for (const chunk of chunkFallback(section.content, docId, fallback)) {
+        const lineStart = chunk.line_start + section.startLine - 1;
+        const lineEnd = chunk.line_end + section.startLine - 1;
+        chunks.push({
+          ...chunk,
+          chunk_id: generateChunkId(docId, lineStart, lineEnd, generateContentHash(chunk.text)),
+          line_start: lineStart,
+          line_end: lineEnd,
+        });
+      }
+      continue;
+    }
+
+    if (pending && !section.startsChunk && pending.text.length + section.content.length <= LIMITS.DEFAULT_CHUNK_SIZE) {
+      // Keep the blank lines between merged sections so lines still match
+      const gap = '\n'.repeat(section.startLine - pending.endLine);
+      pending = { text: pending.text + gap + section.content, startLine: pending.startLine, endLine: section.endLine };
+    } else {
+      flush();
+      pending = { text: section.content, startLine: section.startLine, endLine: section.endLine };
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/** A paragraph of a section with 1-based source lines */
+interface Paragraph {
+  text: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Split a paragraph with a table too large for one chunk into groups of
+ * rows, each group after the first starting with the header rows again
+ */
+function splitTableRows(para: Paragraph): Paragraph[] {
+  if (para.text.length <= LIMITS.DEFAULT_CHUNK_SIZE) return [para];
+
+  const lines = para.text.split('\n');
+  const tables = findTables(lines);
+  if (tables.length === 0) return [para];
+
+  const groups: Paragraph[] = [];
+  let group = { lines: [] as string[], startLine: para.startLine, endLine: para.startLine };
+
+  for (const [i, line] of lines.entries()) {
+    // Cut before a body row, once the group holds at least one
+    const table = tables.find((t) => i > t.start + 2 && i <= t.end);
+    if (table && group.lines.join('\n').length + line.length + 1 > LIMITS.DEFAULT_CHUNK_SIZE) {
+      groups.push({ text: group.lines.join('\n'), startLine: group.startLine, endLine: group.endLine });
+      group = { lines: [lines[table.start], lines[table.start + 1]], startLine: para.startLine + i, endLine: 0 };
+    }
+    group.lines.push(line);
+    group.endLine = para.startLine + i;
+  }
+  groups.push({ text: group.lines.join('\n'), startLine: group.startLine, endLine: group.endLine });
+
+  return groups;
+}
+
 /**
  * Split a large section into smaller chunks
+ *
+ * Chunks after the first start with the section's heading path, so they
+ * still match searches for their heading.
  */
 function splitLargeSection(
   content: string,
   docId: string,
   startLine: number,
-  heading: string | null,
+  headingPath: string,
 ): Omit<Chunk, 'embedding'>[] {
   const chunks: Omit<Chunk, 'embedding'>[] = [];
   const lines = content.split('\n');
-  const paragraphs: Array<{ text: string; startLine: number; endLine: number }> = [];
+  const paragraphs: Paragraph[] = [];
 
   let currentParagraph = '';
   let paragraphStart = startLine;
@@ -193,11 +507,13 @@ function splitLargeSection(
   }
 
   // Merge paragraphs into chunks of appropriate size
-  let currentChunk = heading ? `# ${heading}\n\n` : '';
+  // The heading itself is the section's first line
+  const headingPrefix = headingPath ? `# ${headingPath}\n\n` : '';
+  let currentChunk = '';
   let chunkStartLine = paragraphs[0]?.startLine ?? startLine;
   let chunkEndLine = chunkStartLine;
 
-  for (const para of paragraphs) {
+  for (const para of paragraphs.flatMap(splitTableRows)) {
     if (currentChunk.length + para.text.length > LIMITS.DEFAULT_CHUNK_SIZE && currentChunk.length > 0) {
       // Save current chunk
       const hash = generateContentHash(currentChunk);
@@ -213,7 +529,7 @@ function splitLargeSection(
       });
 
       // Start new chunk (include overlap from context)
-      currentChunk = `${para.text}\n\n`;
+      currentChunk = `${headingPrefix}${para.text}\n\n`;
       chunkStartLine = para.startLine;
     } else {
       currentChunk += `${para.text}\n\n`;
@@ -240,7 +556,11 @@ function splitLargeSection(
 }
 
 /**
- * Fallback chunking with fixed size and overlap
+ * Fallback chunking with fixed size and overlap.
+ *
+ * A table that would overflow the current chunk starts a new one. Tables
+ * longer than a chunk are cut between body rows; the next chunk repeats
+ * the header rows instead of overlapping.
  */
 function chunkFallback(
   content: string,
@@ -252,40 +572,85 @@ function chunkFallback(
   const chunks: Omit<Chunk, 'embedding'>[] = [];
   const lines = content.split('\n');
 
+  // Table containing each line
+  const tableAt: Array<{ start: number; end: number } | undefined> = [];
+  for (const table of findTables(lines)) {
+    for (let i = table.start; i <= table.end; i++) tableAt[i] = table;
+  }
+
   let currentChunk = '';
   let chunkStartLine = 1;
   let chunkEndLine = 1;
   let charCount = 0;
+  // Lines added since the chunk started, and whether it started without overlap at a table
+  let newLines = 0;
+  let tableStart = false;
+
+  const pushChunk = (text: string) => {
+    const hash = generateContentHash(text);
+    const chunkId = generateChunkId(docId, chunkStartLine, chunkEndLine, hash);
+
+    chunks.push({
+      chunk_id: chunkId,
+      doc_id: docId,
+      text,
+      snippet: createSnippet(text),
+      line_start: chunkStartLine,
+      line_end: chunkEndLine,
+    });
+  };
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
     const lineNum = i + 1;
+    const table = tableAt[i];
+
+    if (table && i === table.start && charCount > 0) {
+      const tableLength = lines.slice(table.start, table.end + 1).join('\n').length + 1;
+      if (charCount + tableLength > chunkSize) {
+        // Start the table in a new chunk rather than cutting it; overlap alone is dropped
+        const text = currentChunk.trim();
+        if (text && newLines > 0) pushChunk(text);
+        currentChunk = '';
+        charCount = 0;
+        chunkStartLine = lineNum;
+        newLines = 0;
+        tableStart = true;
+      }
+    }
 
     currentChunk += `${line}\n`;
     charCount += line.length + 1;
     chunkEndLine = lineNum;
+    newLines++;
 
-    if (charCount >= chunkSize) {
+    // Keep the header rows with at least one body row
+    if (charCount >= chunkSize && !(table && i < table.start + 2 && i < table.end)) {
       // Create chunk
       const text = currentChunk.trim();
-      if (text) {
-        const hash = generateContentHash(text);
-        const chunkId = generateChunkId(docId, chunkStartLine, chunkEndLine, hash);
+      if (text) pushChunk(text);
 
-        chunks.push({
-          chunk_id: chunkId,
-          doc_id: docId,
-          text,
-          snippet: createSnippet(text),
-          line_start: chunkStartLine,
-          line_end: chunkEndLine,
-        });
+      newLines = 0;
+      tableStart = table !== undefined;
+
+      if (table && i < table.end) {
+        // Continue the table with its header rows repeated
+        currentChunk = `${lines[table.start]}\n${lines[table.start + 1]}\n`;
+        charCount = currentChunk.length;
+        chunkStartLine = lineNum + 1;
+        continue;
+      }
+      if (table) {
+        currentChunk = '';
+        charCount = 0;
+        chunkStartLine = lineNum + 1;
+        continue;
       }
 
-      // Calculate overlap
+      // Calculate overlap; it stops at tables, whose rows would lose their header
       const overlapLines = [];
       let overlapCharCount = 0;
-      for (let j = i; j >= 0 && overlapCharCount < overlap; j--) {
+      for (let j = i; j >= 0 && overlapCharCount < overlap && (j === i || !tableAt[j]); j--) {
         overlapLines.unshift(lines[j]);
         overlapCharCount += lines[j].length + 1;
         chunkStartLine = j + 1;
@@ -298,18 +663,8 @@ function chunkFallback(
 
   // Add last chunk
   const text = currentChunk.trim();
-  if (text && text.length > overlap) {
-    const hash = generateContentHash(text);
-    const chunkId = generateChunkId(docId, chunkStartLine, chunkEndLine, hash);
-
-    chunks.push({
-      chunk_id: chunkId,
-      doc_id: docId,
-      text,
-      snippet: createSnippet(text),
-      line_start: chunkStartLine,
-      line_end: chunkEndLine,
-    });
+  if (text && (text.length > overlap || (tableStart && newLines > 0))) {
+    pushChunk(text);
   }
 
   return chunks;
@@ -9,9 +9,19 @@
 
 import { existsSync } from 'node:fs';
 import { mkdir, readFile, writeFile } from 'node:fs/promises';
-import { basename, dirname, join } from 'node:path';
+import { basename, dirname, join, resolve, sep } from 'node:path';
+import { compilePIIRule } from '../privacy/pii.js';
 import type { DseekConfig, Source } from '../types/index.js';
-import { DIRS, FILES, LIMITS, RETRIEVAL_WEIGHTS } from './constants.js';
+import {
+  DIRS,
+  EMBEDDING_CONFIG,
+  FILES,
+  LIMITS,
+  MODELS,
+  PII_DETECTORS,
+  RETRIEVAL_WEIGHTS,
+  SENSITIVE_PATH_POLICIES,
+} from './constants.js';
 
 const DEFAULT_CONFIG: DseekConfig = {
   schema_version: 1,
@@ -23,10 +33,16 @@ const DEFAULT_CONFIG: DseekConfig = {
       chunk_size: LIMITS.DEFAULT_CHUNK_SIZE,
       overlap: LIMITS.DEFAULT_CHUNK_OVERLAP,
     },
+    notebook_outputs: false,
+  },
+  embedding: {
+    model: MODELS.EMBEDDING,
+    dimensions: EMBEDDING_CONFIG.DIMENSIONS,
   },
   retrieval: {
     mode: 'hybrid',
     fusion: 'rrf',
+    normalization: 'min-max',
     semantic_weight: RETRIEVAL_WEIGHTS.SEMANTIC,
     keyword_weight: RETRIEVAL_WEIGHTS.KEYWORD,
     default_limit: LIMITS.DEFAULT_RESULTS,
@@ -41,7 +57,10 @@ const DEFAULT_CONFIG: DseekConfig = {
     require_boundary_key: true,
     boundary_key_env: 'DSEEK_DATA_BOUNDARY_KEY',
     redact_before_remote: true,
+    redact_at_index: false,
+    sensitive_paths: 'skip',
     pii_detectors: ['regex_rules'],
+    pii_rules: [],
   },
   runtime: {
     auto_bootstrap: true,
@@ -138,6 +157,7 @@ export async function loadConfig(projectRoot?: string): Promise<DseekConfig> {
     ...DEFAULT_CONFIG,
     ...config,
     chunking: { ...DEFAULT_CONFIG.chunking, ...config.chunking },
+    embedding: { ...DEFAULT_CONFIG.embedding, ...config.embedding },
     retrieval: { ...DEFAULT_CONFIG.retrieval, ...config.retrieval },
     privacy: { ...DEFAULT_CONFIG.privacy, ...config.privacy },
     runtime: { ...DEFAULT_CONFIG.runtime, ...config.runtime },
@@ -238,6 +258,42 @@ export async function removeSource(name: string, projectRoot?: string): Promise<
   return false;
 }
 
+/**
+ * Find the configured source that owns a file.
+ *
+ * Source paths are resolved against the project root. When sources are nested,
+ * the most specific (longest) source path wins.
+ *
+ * @param filePath - Absolute or project-relative file path
+ * @param sources - Configured sources
+ * @param projectRoot - Project root used to resolve relative paths
+ * @returns Owning source or null if the file is outside every source
+ *
+ * @example
+ * ```ts
+ * const source = findSourceForPath("docs/api/auth.md", config.sources, root);
+ * console.log(source?.name); // "docs"
+ * ```
+ */
+export function findSourceForPath(filePath: string, sources: Source[], projectRoot: string): Source | null {
+  const absolutePath = resolve(projectRoot, filePath);
+  let best: Source | null = null;
+  let bestLength = -1;
+
+  for (const source of sources) {
+    const sourcePath = resolve(projectRoot, source.path);
+    const prefix = sourcePath.endsWith(sep) ? sourcePath : `${sourcePath}${sep}`;
+    const isMatch = absolutePath === sourcePath || absolutePath.startsWith(prefix);
+
+    if (isMatch && sourcePath.length > bestLength) {
+      best = source;
+      bestLength = sourcePath.length;
+    }
+  }
+
+  return best;
+}
+
 /**
  * Load ignore patterns from `.dseek/ignore`.
  *
@@ -293,6 +349,34 @@ export function validateConfig(config: DseekConfig): string[] {
     errors.push('overlap must be less than chunk_size');
   }
 
+  if (!config.embedding.model) {
+    errors.push('embedding.model must not be empty');
+  }
+
+  if (!Number.isInteger(config.embedding.dimensions) || config.embedding.dimensions <= 0) {
+    errors.push('embedding.dimensions must be a positive integer');
+  }
+
+  for (const detector of config.privacy.pii_detectors) {
+    if (!(PII_DETECTORS as readonly string[]).includes(detector)) {
+      errors.push(`Unknown PII detector "${detector}" (available: ${PII_DETECTORS.join(', ')})`);
+    }
+  }
+
+  for (const rule of config.privacy.pii_rules) {
+    try {
+      compilePIIRule(rule);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  if (!(SENSITIVE_PATH_POLICIES as readonly string[]).includes(config.privacy.sensitive_paths)) {
+    errors.push(
+      `Unknown sensitive_paths policy "${config.privacy.sensitive_paths}" (available: ${SENSITIVE_PATH_POLICIES.join(', ')})`,
+    );
+  }
+
   for (const source of config.sources) {
     if (!source.name) {
       errors.push('Source must have a name');
@@ -300,6 +384,12 @@ export function validateConfig(config: DseekConfig): string[] {
     if (!source.path) {
       errors.push(`Source "${source.name}" must have a path`);
     }
+    if (
+      source.sensitive_paths !== undefined &&
+      !(SENSITIVE_PATH_POLICIES as readonly string[]).includes(source.sensitive_paths)
+    ) {
+      errors.push(`Source "${source.name}" has unknown sensitive_paths policy "${source.sensitive_paths}"`);
+    }
   }
 
   return errors;
@@ -25,10 +25,14 @@ export const LIMITS = {
   DEFAULT_CHUNK_OVERLAP: 150,
   /** Maximum rerank candidates */
   DEFAULT_RERANK_TOP_K: 20,
+  /** Reranked candidate lists kept in memory for cursor pagination */
+  RERANK_CACHE_SIZE: 32,
   /** Maximum snippet length in characters */
   MAX_SNIPPET_LENGTH: 500,
   /** Batch size for embedding generation */
   EMBEDDING_BATCH_SIZE: 32,
+  /** Cached embeddings kept for re-indexing (~3KB each at 768 dimensions); least recently used are dropped */
+  EMBEDDING_CACHE_MAX_ENTRIES: 100000,
   /** Minimum chunk size for validation */
   MIN_CHUNK_SIZE: 100,
   /** Maximum chunks to fetch for document search */
@@ -37,6 +41,10 @@ export const LIMITS = {
   MAX_DOCS_STATS_SCAN: 10000,
   /** Number of files to index in parallel */
   INDEXING_CONCURRENCY: 4,
+  /** Recent watcher errors kept in the watch state file */
+  MAX_WATCH_ERRORS: 20,
+  /** Maximum characters of outputs indexed per notebook code cell */
+  MAX_NOTEBOOK_OUTPUT_LENGTH: 2000,
 } as const;
 
 // ============================================================================
@@ -45,7 +53,7 @@ export const LIMITS = {
 
 /** Model identifiers */
 export const MODELS = {
-  /** Embedding model for semantic search (768 dimensions, ~1.2GB, 70+ languages) */
+  /** Default embedding model for semantic search (768 dimensions, ~1.2GB, 70+ languages) */
   EMBEDDING: 'onnx-community/gte-multilingual-base',
   /** Cross-encoder model for reranking (15+ languages, 512 tokens) */
   RERANKER: 'cross-encoder/mmarco-mMiniLMv2-L12-H384-v1',
@@ -55,7 +63,7 @@ export const MODELS = {
 
 /** Embedding model configuration */
 export const EMBEDDING_CONFIG = {
-  /** Vector dimensions for gte-multilingual-base */
+  /** Vector dimensions for gte-multilingual-base (default of `embedding.dimensions`) */
   DIMENSIONS: 768,
   /** Data type for model inference */
   DTYPE: 'fp32' as const,
@@ -75,6 +83,32 @@ export const RETRIEVAL_WEIGHTS = {
   KEYWORD: 0.25,
 } as const;
 
+/** Supported retrieval modes */
+export const RETRIEVAL_MODES = ['hybrid', 'semantic', 'keyword'] as const;
+
+/** Available PII detectors for `privacy.pii_detectors` */
+export const PII_DETECTORS = ['regex_rules', 'credit_card', 'iban', 'custom_rules'] as const;
+
+/** Policies for `privacy.sensitive_paths` */
+export const SENSITIVE_PATH_POLICIES = ['skip', 'redact', 'warn'] as const;
+
+/** Include patterns for sources added without `--include` */
+export const DEFAULT_INCLUDE_PATTERNS = [
+  '**/*.md',
+  '**/*.rst',
+  '**/*.adoc',
+  '**/*.txt',
+  '**/*.html',
+  '**/*.pdf',
+  '**/*.docx',
+  '**/*.epub',
+  '**/*.odt',
+  '**/*.rtf',
+  '**/*.ipynb',
+  '**/*.eml',
+  '**/*.mbox',
+] as const;
+
 /** Score fusion weights for reranking */
 export const RERANK_FUSION = {
   /** Weight for original hybrid search score */
@@ -91,6 +125,12 @@ export const RERANK_FUSION = {
 export const NETWORK = {
   /** Default Ollama API URL */
   DEFAULT_OLLAMA_URL: 'http://localhost:11434',
+  /** Default bind address for `dseek serve` */
+  DEFAULT_SERVE_HOST: '127.0.0.1',
+  /** Default port for `dseek serve` */
+  DEFAULT_SERVE_PORT: 7411,
+  /** Maximum HTTP request body size (1MB) */
+  MAX_REQUEST_BODY_BYTES: 1024 * 1024,
 } as const;
 
 // ============================================================================
@@ -131,6 +171,8 @@ export const DEFAULTS = {
   AUDIT_LIMIT: 20,
   /** Snippet preview length in CLI output */
   SNIPPET_PREVIEW_LENGTH: 80,
+  /** Source name for documents outside every configured source */
+  SOURCE_NAME: 'default',
 } as const;
 
 /** Confidence calculation weights */
@@ -189,6 +231,8 @@ export const FILES = {
   CONFIG: '.dseek/config.json',
   /** Ignore patterns file */
   IGNORE: '.dseek/ignore',
+  /** Project PII rules file */
+  PII_RULES: '.dseek/pii-rules.json',
   /** SQLite database file */
   INDEX: 'dseek.db',
   /** Legacy Orama index (for migration) */
@@ -199,6 +243,8 @@ export const FILES = {
   WATCH_LOCK: 'watch.lock',
   /** Watcher PID file */
   WATCH_PID: 'watch.pid',
+  /** Watcher progress (queue, current file, errors) */
+  WATCH_STATE: 'watch-state.json',
 } as const;
 
 /** SQLite configuration */
@@ -210,7 +256,7 @@ export const SQLITE = {
   /** Cache size in KB (negative value = KB) */
   CACHE_SIZE_KB: 16384,
   /** Schema version for migrations */
-  SCHEMA_VERSION: 2,
+  SCHEMA_VERSION: 7,
 } as const;
 
 // ============================================================================
@@ -1,7 +1,8 @@
 /**
  * Embeddings pipeline using Transformers.js
  *
- * Provides semantic embedding generation using gte-multilingual-base model.
+ * Provides semantic embedding generation using the model set in
+ * `embedding.model` (gte-multilingual-base by default).
  * Uses singleton pattern for efficient model reuse across operations.
  *
  * @module embedder
@@ -9,10 +10,12 @@
 
 import { join } from 'node:path';
 import { AutoTokenizer, type FeatureExtractionPipeline, type PreTrainedTokenizer, pipeline } from '@huggingface/transformers';
-import { getDseekDir } from './config.js';
-import { DIRS, EMBEDDING_CONFIG, LIMITS, MODELS, TIMING } from './constants.js';
+import type { EmbeddingConfig } from '../types/index.js';
+import { getDseekDir, loadConfig } from './config.js';
+import { DIRS, EMBEDDING_CONFIG, LIMITS, TIMING } from './constants.js';
 
 // Singleton instances
+let activeModel: EmbeddingConfig | null = null;
 let embedderInstance: FeatureExtractionPipeline | null = null;
 let tokenizerInstance: PreTrainedTokenizer | null = null;
 let isLoading = false;
@@ -25,6 +28,21 @@ export function getModelsDir(): string {
   return join(getDseekDir(), DIRS.MODELS);
 }
 
+/**
+ * Get the embedding model of the project.
+ *
+ * Read from config once; the loaded pipeline keeps using it until
+ * {@link resetEmbedder} is called.
+ *
+ * @returns Model id and vector dimensions
+ */
+export async function getEmbeddingModel(): Promise<EmbeddingConfig> {
+  if (!activeModel) {
+    activeModel = (await loadConfig()).embedding;
+  }
+  return activeModel;
+}
+
 /**
  * Get or initialize the tokenizer for text truncation.
  *
@@ -34,7 +52,8 @@ export function getModelsDir(): string {
  */
 async function getTokenizer(): Promise<PreTrainedTokenizer> {
   if (!tokenizerInstance) {
-    tokenizerInstance = await AutoTokenizer.from_pretrained(MODELS.EMBEDDING, {
+    const { model } = await getEmbeddingModel();
+    tokenizerInstance = await AutoTokenizer.from_pretrained(model, {
       cache_dir: getModelsDir(),
     });
   }
@@ -120,11 +139,12 @@ export async function getEmbedder(): Promise<FeatureExtractionPipeline> {
   isLoading = true;
 
   try {
-    console.error(`Loading embedding model: ${MODELS.EMBEDDING}...`);
+    const { model } = await getEmbeddingModel();
+    console.error(`Loading embedding model: ${model}...`);
     const startTime = Date.now();
 
     // @ts-expect-error - Pipeline returns complex union type that's too complex for TS
-    embedderInstance = await pipeline('feature-extraction', MODELS.EMBEDDING, {
+    embedderInstance = await pipeline('feature-extraction', model, {
       cache_dir: getModelsDir(),
       dtype: EMBEDDING_CONFIG.DTYPE,
     });
@@ -154,8 +174,8 @@ export function isEmbedderReady(): boolean {
  * Uses mean pooling with L2 normalization for semantic similarity.
  *
  * @param text - Input text to embed
- * @returns 768-dimensional embedding vector
- * @throws Error if embedding dimension doesn't match expected
+ * @returns Embedding vector (768 dimensions with the default model)
+ * @throws Error if embedding dimension doesn't match `embedding.dimensions`
  *
  * @example
  * ```ts
@@ -176,21 +196,31 @@ export async function embed(text: string): Promise<number[]> {
 
   // Convert to array
   const embedding = Array.from(result.data as Float32Array);
-
-  if (embedding.length !== EMBEDDING_CONFIG.DIMENSIONS) {
-    throw new Error(`Unexpected embedding dimension: ${embedding.length}, expected ${EMBEDDING_CONFIG.DIMENSIONS}`);
-  }
+  await checkDimensions(embedding);
 
   return embedding;
 }
 
+/**
+ * Ensure a vector has the configured number of dimensions
+ */
+async function checkDimensions(embedding: number[]): Promise<void> {
+  const { model, dimensions } = await getEmbeddingModel();
+  if (embedding.length !== dimensions) {
+    throw new Error(
+      `Unexpected embedding dimension: ${embedding.length}, expected ${dimensions} (check embedding.dimensions for ${model})`,
+    );
+  }
+}
+
 /**
  * Generate embeddings for multiple texts in batches.
  *
  * Processes texts in batches of 32 to avoid memory issues.
  *
  * @param texts - Array of texts to embed
- * @returns Array of 768-dimensional embedding vectors
+ * @returns Array of embedding vectors
+ * @throws Error if embedding dimension doesn't match `embedding.dimensions`
  *
  * @example
  * ```ts
@@ -222,6 +252,9 @@ export async function embedBatch(texts: string[]): Promise<number[][]> {
       }),
     );
 
+    if (results.length > 0) {
+      await checkDimensions(results[0]);
+    }
     embeddings.push(...results);
   }
 
@@ -268,8 +301,8 @@ export function cosineSimilarity(a: number[], b: number[]): number {
  *
  * @returns Number of dimensions in embedding vectors (768 for gte-multilingual-base)
  */
-export function getEmbeddingDim(): number {
-  return EMBEDDING_CONFIG.DIMENSIONS;
+export async function getEmbeddingDim(): Promise<number> {
+  return (await getEmbeddingModel()).dimensions;
 }
 
 /**
@@ -277,14 +310,15 @@ export function getEmbeddingDim(): number {
  *
  * @returns HuggingFace model identifier
  */
-export function getModelName(): string {
-  return MODELS.EMBEDDING;
+export async function getModelName(): Promise<string> {
+  return (await getEmbeddingModel()).model;
 }
 
 /**
- * Reset the embedder and tokenizer (for testing)
+ * Reset the embedder and tokenizer (for testing, or after a model change)
  */
 export function resetEmbedder(): void {
+  activeModel = null;
   embedderInstance = null;
   tokenizerInstance = null;
   isLoading = false;
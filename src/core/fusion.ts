@@ -0,0 +1,97 @@
+/**
+ * Weighted score fusion for hybrid search
+ *
+ * Normalizes keyword (BM25) and semantic (vector) scores per query and
+ * combines them linearly, as an alternative to rank-based RRF.
+ * Unlike RRF, score gaps survive fusion: a strong exact-term match can
+ * outrank several weak semantic neighbours.
+ *
+ * @module fusion
+ */
+
+import type { ScoreNormalization } from '../types/index.js';
+
+/** Candidate identified by chunk row id with a raw score (higher is better) */
+export interface ScoredCandidate {
+  id: number;
+  score: number;
+}
+
+/**
+ * Normalize scores from a single result list.
+ *
+ * - `min-max`: scale to 0-1 (all equal scores map to 1)
+ * - `z-score`: center on the mean in units of standard deviation, mapped to 0-1
+ *   with a logistic curve (the mean and all equal scores map to 0.5)
+ *
+ * @param scores - Raw scores (higher is better)
+ * @param method - Normalization method
+ * @returns Normalized scores in the same order
+ *
+ * @example
+ * ```ts
+ * normalizeScores([2, 4, 6], 'min-max') // [0, 0.5, 1]
+ * ```
+ */
+export function normalizeScores(scores: number[], method: ScoreNormalization): number[] {
+  if (scores.length === 0) return [];
+
+  if (method === 'z-score') {
+    const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+    const variance = scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length;
+    const std = Math.sqrt(variance);
+    return scores.map((s) => 1 / (1 + Math.exp(-(std === 0 ? 0 : (s - mean) / std))));
+  }
+
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return scores.map((s) => (max === min ? 1 : (s - min) / (max - min)));
+}
+
+/**
+ * Fuse keyword and semantic candidates with weighted normalized scores.
+ *
+ * Both lists are scored over the union of candidates, then normalized on their own.
+ * A candidate missing from a list is scored as ranking below it: BM25 score 0
+ * (no term match) or the lowest similarity among the semantic candidates.
+ *
+ * @param keyword - Keyword candidates with BM25 scores (higher is better)
+ * @param semantic - Semantic candidates with similarity scores
+ * @param options - Weights and normalization method
+ * @returns Candidates sorted by fused score (descending)
+ *
+ * @example
+ * ```ts
+ * const fused = fuseWeighted(ftsHits, vecHits, {
+ *   keywordWeight: 0.25,
+ *   semanticWeight: 0.75,
+ *   normalization: 'min-max',
+ * });
+ * ```
+ */
+export function fuseWeighted(
+  keyword: ScoredCandidate[],
+  semantic: ScoredCandidate[],
+  options: { keywordWeight: number; semanticWeight: number; normalization: ScoreNormalization },
+): ScoredCandidate[] {
+  const ids = [...new Set([...keyword.map((c) => c.id), ...semantic.map((c) => c.id)])];
+
+  const semanticFloor = semantic.length > 0 ? Math.min(...semantic.map((c) => c.score)) : 0;
+  const keywordScores = normalizeScores(scoresFor(ids, keyword, 0), options.normalization);
+  const semanticScores = normalizeScores(scoresFor(ids, semantic, semanticFloor), options.normalization);
+
+  return ids
+    .map((id, i) => ({
+      id,
+      score: keywordScores[i] * options.keywordWeight + semanticScores[i] * options.semanticWeight,
+    }))
+    .sort((a, b) => b.score - a.score || a.id - b.id);
+}
+
+/**
+ * Raw scores of a candidate list for each id, using `missing` for absent ids
+ */
+function scoresFor(ids: number[], candidates: ScoredCandidate[], missing: number): number[] {
+  const byId = new Map(candidates.map((c) => [c.id, c.score]));
+  return ids.map((id) => byId.get(id) ?? missing);
+}
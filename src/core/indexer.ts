@@ -12,26 +12,113 @@ import { existsSync } from 'node:fs';
 import { readFile, stat } from 'node:fs/promises';
 import { relative, resolve } from 'node:path';
 import { glob } from 'glob';
+import { minimatch } from 'minimatch';
 import { getFormat, isSupported, parseDocument } from '../parsers/index.js';
-import { insertChunks, removeDocument as removeFromIndex, saveIndex } from '../storage/index.js';
+import { getPIIStats, isSensitivePath, loadDetectors, type PIIDetector, redactPII } from '../privacy/pii.js';
 import {
+  cacheEmbeddings,
+  checkEmbeddingModel,
+  getCachedEmbeddings,
+  getChunkTexts,
+  getIndexStats,
+  getVectorModel,
+  insertChunks,
+  insertEmbeddings,
+  pruneEmbeddingCache,
+  removeDocument as removeFromIndex,
+  resetEmbeddings,
+  saveIndex,
+  setVectorModel,
+} from '../storage/index.js';
+import {
+  getDocument,
+  getDocumentParts,
+  getSensitiveFiles,
   loadMetadata,
   needsUpdate,
   recordEvent,
   removeDocument as removeFromMetadata,
   saveMetadata,
   setDocument,
+  setSensitiveFile,
+  updateDocumentSource,
 } from '../storage/metadata.js';
-import type { Chunk, Document, Source } from '../types/index.js';
+import type {
+  Chunk,
+  ChunkingConfig,
+  Document,
+  EmbeddingConfig,
+  ParsedPart,
+  SensitiveFile,
+  SensitivePathPolicy,
+  Source,
+} from '../types/index.js';
 import { chunkDocument } from './chunker.js';
-import { findProjectRoot, loadConfig, loadIgnorePatterns } from './config.js';
-import { LIMITS } from './constants.js';
+import { findProjectRoot, findSourceForPath, loadConfig, loadIgnorePatterns } from './config.js';
+import { DEFAULTS, LIMITS } from './constants.js';
 import { embedBatch } from './embedder.js';
 
 export interface IndexResult {
   indexed: number;
   skipped: number;
   errors: string[];
+  /** Sensitive files found and the policy applied (skipped ones are not counted above) */
+  sensitive: SensitiveFile[];
+  /** Chunks whose vectors came from the embedding cache (hits) or were embedded (misses) */
+  embedding_cache: { hits: number; misses: number };
+}
+
+export interface ReembedResult {
+  /** Model the index vectors were built with */
+  previous: EmbeddingConfig;
+  /** Configured model the vectors were rebuilt with */
+  current: EmbeddingConfig;
+  /** False if the index already matched the configured model */
+  rebuilt: boolean;
+  /** Number of chunks embedded */
+  chunks: number;
+  /** Chunks whose vectors came from the embedding cache */
+  cached: number;
+}
+
+/**
+ * Text embedded for a chunk; the heading path gives chunks deep in a section their context
+ */
+function embeddingInput(chunk: { text: string; heading_path?: string }): string {
+  return chunk.heading_path ? `${chunk.heading_path}\n\n${chunk.text}` : chunk.text;
+}
+
+/**
+ * Embed texts, reusing cached vectors of unchanged content.
+ *
+ * Keyed by the full SHA-256 of the embedded text: the short hash in chunk
+ * ids is only unique within a document, not across a corpus.
+ *
+ * @returns Vectors in input order and the number of cache hits
+ */
+async function embedCached(
+  texts: string[],
+  model: string,
+  useCache = true,
+): Promise<{ embeddings: number[][]; hits: number }> {
+  const hashes = texts.map(generateHash);
+  const cached = useCache ? await getCachedEmbeddings(hashes, model) : new Map<string, number[]>();
+  const hits = hashes.filter((hash) => cached.has(hash)).length;
+
+  // Identical chunks are embedded once
+  const missing = new Map<string, string>();
+  for (const [i, hash] of hashes.entries()) {
+    if (!cached.has(hash)) missing.set(hash, texts[i]);
+  }
+
+  const computed = await embedBatch([...missing.values()]);
+  const entries = [...missing.keys()].map((hash, i) => ({ hash, embedding: computed[i] }));
+  await cacheEmbeddings(entries, model);
+  for (const { hash, embedding } of entries) {
+    cached.set(hash, embedding);
+  }
+
+  return { embeddings: hashes.map((hash) => cached.get(hash) as number[]), hits };
 }
 
 /**
@@ -44,7 +131,7 @@ function generateDocId(filePath: string, projectRoot: string): string {
 /**
  * Generate content hash
  */
-function generateHash(content: Buffer): string {
+function generateHash(content: Buffer | string): string {
   return createHash('sha256').update(content).digest('hex');
 }
 
@@ -66,14 +153,118 @@ function shouldIgnore(path: string, ignorePatterns: string[], excludePatterns: s
   return false;
 }
 
+/**
+ * Check whether `indexSource` would pick up a file of a source: a supported
+ * format matching one of the source's include globs (any file if there are
+ * none), and not ignored or excluded
+ *
+ * @param filePath - Absolute file path
+ * @param source - Source the file belongs to
+ * @param projectRoot - Project root directory
+ * @param ignorePatterns - Patterns from `.dseek/ignore`
+ */
+function isSourceFile(filePath: string, source: Source, projectRoot: string, ignorePatterns: string[]): boolean {
+  if (!isSupported(filePath)) return false;
+
+  // A single-file source indexes just that file
+  const sourcePath = resolve(projectRoot, source.path);
+  if (resolve(filePath) !== sourcePath) {
+    const patterns = source.include.length > 0 ? source.include : ['**/*'];
+    const relativeToSource = relative(sourcePath, filePath);
+    if (!patterns.some((pattern) => minimatch(relativeToSource, pattern))) return false;
+  }
+
+  return !shouldIgnore(relative(projectRoot, filePath), ignorePatterns, source.exclude);
+}
+
+/**
+ * Remove a file's document, and the documents split out of it, from the index and metadata
+ *
+ * @returns True if anything was removed
+ */
+async function removeFile(docId: string): Promise<boolean> {
+  let removed = false;
+
+  for (const id of [docId, ...(await getDocumentParts(docId)).map((d) => d.doc_id)]) {
+    const chunksRemoved = await removeFromIndex(id);
+    const metaRemoved = await removeFromMetadata(id);
+    removed = removed || chunksRemoved > 0 || metaRemoved;
+  }
+
+  return removed;
+}
+
+/**
+ * Redact, chunk, embed and store one logical document
+ *
+ * @returns Number of chunks stored, and how many reused cached embeddings
+ */
+async function storeDocument(
+  doc: Omit<Document, 'pii_stats'>,
+  parsed: Omit<ParsedPart, 'id'>,
+  chunking: ChunkingConfig,
+  model: string,
+  detectors: PIIDetector[] | null,
+): Promise<{ chunks: number; cached: number }> {
+  // Redact before anything is stored or embedded, keeping line numbers
+  let text = parsed.content;
+  let piiStats: Record<string, number> | undefined;
+  if (detectors) {
+    piiStats = getPIIStats(text, detectors);
+    text = redactPII(text, detectors, { preserveLines: true }).text;
+  }
+
+  // Chunk document
+  const rawChunks = chunkDocument(text, {
+    docId: doc.doc_id,
+    format: doc.format,
+    config: chunking,
+    pageBreaks: parsed.metadata.page_breaks,
+    language: parsed.metadata.language,
+    lineMap: parsed.metadata.line_map,
+  });
+
+  // Generate embeddings, reusing those of unchanged chunks
+  const { embeddings, hits } = await embedCached(rawChunks.map(embeddingInput), model);
+
+  // Combine chunks with embeddings
+  const chunks: Chunk[] = rawChunks.map((chunk, i) => ({
+    ...chunk,
+    embedding: embeddings[i],
+  }));
+
+  // Store chunks and document metadata
+  await insertChunks(chunks);
+  await setDocument({ ...doc, pii_stats: piiStats });
+
+  return { chunks: chunks.length, cached: hits };
+}
+
 /**
  * Index a single file into the search index.
  *
  * Parses, chunks, generates embeddings, and stores the document.
- * Skips re-indexing if content hash unchanged.
+ * Skips re-indexing if content hash unchanged. Chunks whose text is
+ * unchanged reuse their vectors from the embedding cache (`cached`). With `privacy.redact_at_index`,
+ * PII is redacted from the parsed text first and counted in `pii_stats`
+ * (`{}` for clean documents, absent when the setting is off).
+ *
+ * Files matching `isSensitivePath()` follow the source's `sensitive_paths`
+ * policy (default: `privacy.sensitive_paths`): `skip` leaves them out of
+ * the index (removing any earlier copy), `redact` indexes them with PII
+ * redaction, `warn` indexes them unchanged. The policy is recorded so
+ * `getStatus()` can report it.
+ *
+ * The document is attributed to `source` when given, otherwise to the
+ * configured source whose path contains the file.
+ *
+ * Container files whose parser returns parts (mbox archives) are indexed
+ * as one document per part, `<doc_id>#<part id>`, with `source_doc_id`
+ * set to the file.
  *
  * @param filePath - Absolute path to the file
  * @param projectRoot - Optional project root directory
+ * @param source - Optional owning source
  * @returns Result with success status and chunk count or error
  *
  * @example
@@ -87,10 +278,19 @@ function shouldIgnore(path: string, ignorePatterns: string[], excludePatterns: s
 export async function indexFile(
   filePath: string,
   projectRoot?: string,
-): Promise<{ success: boolean; chunks?: number; error?: string }> {
+  source?: Source,
+): Promise<{
+  success: boolean;
+  chunks?: number;
+  cached?: number;
+  error?: string;
+  sensitive?: SensitivePathPolicy;
+}> {
   const root = projectRoot ?? findProjectRoot();
   const docId = generateDocId(filePath, root);
   const config = await loadConfig(root);
+  const owner = source ?? findSourceForPath(filePath, config.sources, root);
+  const sourceName = owner?.name ?? DEFAULTS.SOURCE_NAME;
 
   try {
     // Check if file exists
@@ -110,51 +310,67 @@ export async function indexFile(
       return { success: false, error: `Unsupported format: ${filePath}` };
     }
 
+    // Apply the sensitive-path policy
+    const sensitive = isSensitivePath(docId) ? (owner?.sensitive_paths ?? config.privacy.sensitive_paths) : undefined;
+    await setSensitiveFile(docId, sensitive ?? null);
+    if (sensitive === 'skip') {
+      if (await removeFile(docId)) {
+        await recordEvent({ type: 'delete', path: docId, at: new Date().toISOString() });
+      }
+      return { success: true, chunks: 0, sensitive };
+    }
+    const redact = config.privacy.redact_at_index || sensitive === 'redact';
+
     // Read file
     const content = await readFile(filePath);
     const contentHash = generateHash(content);
 
-    // Check if update needed
-    if (!(await needsUpdate(docId, contentHash))) {
-      return { success: true, chunks: 0 };
+    // Check if update needed (documents indexed under a different
+    // redact_at_index setting are re-indexed even when unchanged)
+    const existing = (await getDocument(docId)) ?? (await getDocumentParts(docId))[0];
+    const redactionChanged = (existing?.pii_stats !== undefined) !== redact;
+    if (!redactionChanged && !(await needsUpdate(docId, contentHash))) {
+      // Content unchanged, but the file may now belong to a different source
+      await updateDocumentSource(docId, sourceName);
+      return { success: true, chunks: 0, sensitive };
     }
 
-    // Remove old chunks if re-indexing
-    await removeFromIndex(docId);
+    // Vectors of another model cannot be mixed into the index
+    await checkEmbeddingModel(config.embedding);
 
-    // Parse document
-    const parsed = await parseDocument(content, filePath);
+    // Remove old chunks (and parts) if re-indexing
+    await removeFile(docId);
 
-    // Chunk document
-    const rawChunks = chunkDocument(parsed.content, {
-      docId,
-      format,
-      config: config.chunking,
-    });
-
-    // Generate embeddings
-    const texts = rawChunks.map((c) => c.text);
-    const embeddings = await embedBatch(texts);
-
-    // Combine chunks with embeddings
-    const chunks: Chunk[] = rawChunks.map((chunk, i) => ({
-      ...chunk,
-      embedding: embeddings[i],
-    }));
-
-    // Store chunks
-    await insertChunks(chunks);
+    // Parse document
+    const parsed = await parseDocument(content, filePath, { notebookOutputs: config.chunking.notebook_outputs });
+    const detectors = redact ? await loadDetectors(config.privacy, root) : null;
 
-    // Store document metadata
-    const doc: Document = {
+    const doc: Omit<Document, 'pii_stats'> = {
       doc_id: docId,
-      source_name: 'default', // TODO: determine from source config
+      source_name: sourceName,
       format,
       content_hash: contentHash,
       updated_at: new Date().toISOString(),
       size_bytes: fileStat.size,
     };
-    await setDocument(doc);
+
+    let chunks = 0;
+    let cached = 0;
+    if (parsed.parts) {
+      for (const part of parsed.parts) {
+        const partDoc = {
+          ...doc,
+          doc_id: `${docId}#${part.id}`,
+          size_bytes: Buffer.byteLength(part.content),
+          source_doc_id: docId,
+        };
+        const stored = await storeDocument(partDoc, part, config.chunking, config.embedding.model, detectors);
+        chunks += stored.chunks;
+        cached += stored.cached;
+      }
+    } else {
+      ({ chunks, cached } = await storeDocument(doc, parsed, config.chunking, config.embedding.model, detectors));
+    }
 
     // Record event
     await recordEvent({
@@ -163,7 +379,7 @@ export async function indexFile(
       at: new Date().toISOString(),
     });
 
-    return { success: true, chunks: chunks.length };
+    return { success: true, chunks, cached, sensitive };
   } catch (error) {
     return {
       success: false,
@@ -181,6 +397,7 @@ export async function indexFile(
  * @param source - Source configuration with path and include/exclude patterns
  * @param projectRoot - Optional project root directory
  * @returns Index result with counts of indexed, skipped, and errored files
+ * @throws EmbeddingModelError if the index was built with another embedding model
  *
  * @example
  * ```ts
@@ -197,11 +414,14 @@ export async function indexSource(source: Source, projectRoot?: string): Promise
   const root = projectRoot ?? findProjectRoot();
   const sourcePath = resolve(root, source.path);
   const ignorePatterns = await loadIgnorePatterns(root);
+  await checkEmbeddingModel((await loadConfig(root)).embedding);
 
   const result: IndexResult = {
     indexed: 0,
     skipped: 0,
     errors: [],
+    sensitive: [],
+    embedding_cache: { hits: 0, misses: 0 },
   };
 
   // Check if source is a single file or directory
@@ -251,16 +471,24 @@ export async function indexSource(source: Source, projectRoot?: string): Promise
   for (let i = 0; i < uniqueFiles.length; i += concurrency) {
     const batch = uniqueFiles.slice(i, i + concurrency);
 
-    const batchResults = await Promise.all(batch.map((file) => indexFile(file, root)));
+    const batchResults = await Promise.all(batch.map((file) => indexFile(file, root, source)));
 
     // Process batch results
     for (let j = 0; j < batchResults.length; j++) {
-      const { success, chunks, error } = batchResults[j];
+      const { success, chunks, cached, error, sensitive } = batchResults[j];
       const file = batch[j];
 
-      if (success) {
+      if (sensitive) {
+        result.sensitive.push({ path: relative(root, file), policy: sensitive });
+      }
+
+      if (sensitive === 'skip') {
+        console.log(`  Skipped sensitive file: ${relative(root, file)}`);
+      } else if (success) {
         if (chunks && chunks > 0) {
           result.indexed++;
+          result.embedding_cache.hits += cached ?? 0;
+          result.embedding_cache.misses += chunks - (cached ?? 0);
           console.log(`  Indexed: ${relative(root, file)} (${chunks} chunks)`);
         } else {
           result.skipped++;
@@ -273,12 +501,72 @@ export async function indexSource(source: Source, projectRoot?: string): Promise
   }
 
   // Save index and metadata
+  await pruneEmbeddingCache(LIMITS.EMBEDDING_CACHE_MAX_ENTRIES);
   await saveIndex();
   await saveMetadata();
 
   return result;
 }
 
+/**
+ * Rebuild the vectors of all indexed chunks with the configured embedding model.
+ *
+ * Chunks are re-embedded from their stored text, so documents are not
+ * parsed again; vectors cached for the model are reused, so switching
+ * back to a previous model is fast. Does nothing if the index already
+ * uses the configured model, unless `force` is set (which also bypasses
+ * the cache).
+ *
+ * @param projectRoot - Optional project root directory
+ * @param options - `force` to rebuild even if the model matches, `onProgress` called after each batch
+ * @returns Previous and current model, and the number of chunks embedded
+ *
+ * @example
+ * ```ts
+ * const result = await reembedIndex();
+ * if (result.rebuilt) console.log(`Re-embedded ${result.chunks} chunks`);
+ * ```
+ */
+export async function reembedIndex(
+  projectRoot?: string,
+  options: { force?: boolean; onProgress?: (done: number, total: number) => void } = {},
+): Promise<ReembedResult> {
+  const root = projectRoot ?? findProjectRoot();
+  const current = (await loadConfig(root)).embedding;
+  const previous = getVectorModel();
+
+  if (!options.force && previous.model === current.model && previous.dimensions === current.dimensions) {
+    return { previous, current, rebuilt: false, chunks: 0, cached: 0 };
+  }
+
+  const { chunks: total } = await getIndexStats();
+  await resetEmbeddings(current.dimensions);
+
+  let done = 0;
+  let cached = 0;
+  let afterId = 0;
+  for (;;) {
+    const page = await getChunkTexts(afterId, LIMITS.EMBEDDING_BATCH_SIZE);
+    if (page.length === 0) break;
+
+    const { embeddings, hits } = await embedCached(page.map(embeddingInput), current.model, !options.force);
+    await insertEmbeddings(page.map((chunk, i) => ({ id: chunk.id, embedding: embeddings[i] })));
+
+    done += page.length;
+    cached += hits;
+    afterId = page[page.length - 1].id;
+    options.onProgress?.(done, total);
+  }
+
+  // Recorded last, so an interrupted rebuild is still reported as a mismatch
+  setVectorModel(current);
+  await pruneEmbeddingCache(LIMITS.EMBEDDING_CACHE_MAX_ENTRIES);
+  await saveIndex();
+  await saveMetadata();
+
+  return { previous, current, rebuilt: true, chunks: done, cached };
+}
+
 /**
  * Remove a document or directory from the index.
  *
@@ -313,10 +601,19 @@ export async function deleteDocument(docIdOrPath: string, projectRoot?: string):
   const metadata = await loadMetadata();
   const allDocIds = Object.keys(metadata.documents);
 
-  // Find matching documents (exact match OR prefix match for directories)
-  const matchingDocs = allDocIds.filter(
-    (id) => id === normalizedId || id.startsWith(normalizedId + '/'),
-  );
+  // Find matching documents (exact match OR prefix match for directories);
+  // documents split out of a file (mbox messages) match by that file
+  const matchingDocs = allDocIds.filter((id) => {
+    const fileId = metadata.documents[id].source_doc_id ?? id;
+    return fileId === normalizedId || fileId.startsWith(`${normalizedId}/`);
+  });
+
+  // Forget sensitive files under the path, including skipped ones
+  for (const file of await getSensitiveFiles()) {
+    if (file.path === normalizedId || file.path.startsWith(`${normalizedId}/`)) {
+      await setSensitiveFile(file.path, null);
+    }
+  }
 
   if (matchingDocs.length === 0) {
     return false;
@@ -372,4 +669,4 @@ export async function reindexFile(filePath: string, projectRoot?: string): Promi
 }
 
 // Export pure functions for testing
-export { generateDocId, generateHash, shouldIgnore };
+export { generateDocId, generateHash, isSourceFile, shouldIgnore };
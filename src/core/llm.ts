@@ -3,13 +3,18 @@
  *
  * Provides local LLM generation via Ollama for RAG-powered chat.
  * Handles model management, prompt building, and response generation.
+ * Every send goes through the privacy guard, so a remote `OLLAMA_HOST`
+ * is refused unless the privacy config allows it.
  *
  * @module llm
  */
 
 import { execSync, spawn } from 'node:child_process';
+import { assertEndpointAllowed, guardContexts } from '../privacy/guard.js';
+import { loadDetectors } from '../privacy/pii.js';
 import type { DseekConfig } from '../types/index.js';
-import { loadConfig } from './config.js';
+import { formatLocation, isNotebook } from './chunker.js';
+import { findProjectRoot, loadConfig } from './config.js';
 import { DEFAULTS, MODELS, NETWORK, TIMING } from './constants.js';
 
 /**
@@ -170,11 +175,13 @@ export async function listModels(): Promise<string[]> {
  * @param prompt - The prompt to send to the LLM
  * @param options - Generation options (model, temperature, maxTokens)
  * @returns Generated text response
+ * @throws PrivacyError if Ollama is remote and the privacy config does not allow it
  */
 export async function generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
   const config = await loadConfig();
   const model = options.model ?? config.runtime.ollama_model ?? MODELS.DEFAULT_LLM;
   const url = getOllamaUrl(config);
+  assertEndpointAllowed(url, config.privacy);
 
   const response = await fetch(`${url}/api/generate`, {
     method: 'POST',
@@ -205,6 +212,34 @@ export interface RAGPromptOptions {
   noCite?: boolean;
 }
 
+/** Retrieved context passed to the LLM */
+export interface RAGContext {
+  path: string;
+  line_start: number;
+  line_end: number;
+  page_start?: number | null;
+  page_end?: number | null;
+  /** Headings enclosing the snippet: `Auth > Tokens > Refresh` */
+  heading_path?: string;
+  snippet: string;
+}
+
+/**
+ * Describe where a context comes from for the SOURCES block
+ */
+function describeSource(context: RAGContext): string {
+  const { page_start, page_end } = context;
+  const section = context.heading_path ? `, section: ${context.heading_path}` : '';
+
+  if (page_start) {
+    const unit = isNotebook(context.path) ? 'cell' : 'page';
+    const pages = page_end && page_end !== page_start ? `${unit}s ${page_start}-${page_end}` : `${unit} ${page_start}`;
+    return `${context.path} (${pages}${section})`;
+  }
+
+  return `${context.path} (lines ${context.line_start}-${context.line_end}${section})`;
+}
+
 /**
  * Build RAG prompt with context sources.
  *
@@ -223,21 +258,13 @@ export interface RAGPromptOptions {
  * ]);
  * ```
  */
-export function buildRAGPrompt(
-  query: string,
-  contexts: Array<{ path: string; line_start: number; line_end: number; snippet: string }>,
-  options?: RAGPromptOptions,
-): string {
+export function buildRAGPrompt(query: string, contexts: RAGContext[], options?: RAGPromptOptions): string {
   // Format context with numbered sources including file paths
-  const contextText = contexts
-    .map((c, i) => `[${i + 1}] Source: ${c.path} (lines ${c.line_start}-${c.line_end})\n${c.snippet}`)
-    .join('\n\n');
+  const contextText = contexts.map((c, i) => `[${i + 1}] Source: ${describeSource(c)}\n${c.snippet}`).join('\n\n');
 
-  // Build example citation from first context (with lines)
+  // Build example citation from first context (lines, or pages for PDFs)
   const exampleCitation =
-    contexts.length > 0
-      ? `[1: ${contexts[0].path}:${contexts[0].line_start}-${contexts[0].line_end}]`
-      : '[1: filename.md:10-20]';
+    contexts.length > 0 ? `[1: ${formatLocation(contexts[0].path, contexts[0])}]` : '[1: filename.md:10-20]';
 
   const language = detectLanguage(query);
 
@@ -265,7 +292,7 @@ export function buildRAGPrompt(
   const citationSection = options?.noCite
     ? `If information is not in sources, say so briefly.`
     : `CITATION FORMAT:
-- Cite sources as [N: file:lines], for example: ${exampleCitation}
+- Cite sources as [N: file:lines] (or [N: file#pPAGE] for paged documents, [N: file cell CELL] for notebooks), for example: ${exampleCitation}
 - When combining facts from multiple sources, cite all: [1][2] or [1, 2]
 - Only cite sources you actually use.
 - If information is not in sources, say so briefly.`;
@@ -288,11 +315,14 @@ ANSWER:`;
  * Generate answer using RAG (Retrieval-Augmented Generation).
  *
  * Builds a prompt with retrieved context and generates a response via Ollama.
+ * Context snippets are PII-redacted first when Ollama is remote and
+ * `privacy.redact_before_remote` is set.
  *
  * @param query - User's question
  * @param contexts - Retrieved context snippets
  * @param options - Generation options (model, temperature, noCite)
  * @returns Generated answer with source citations
+ * @throws PrivacyError if Ollama is remote and the privacy config does not allow it
  *
  * @example
  * ```ts
@@ -304,9 +334,12 @@ ANSWER:`;
  */
 export async function generateWithRAG(
   query: string,
-  contexts: Array<{ path: string; line_start: number; line_end: number; snippet: string }>,
+  contexts: RAGContext[],
   options: GenerateOptions & RAGPromptOptions = {},
 ): Promise<string> {
-  const prompt = buildRAGPrompt(query, contexts, { noCite: options.noCite });
+  const config = await loadConfig();
+  const detectors = await loadDetectors(config.privacy, findProjectRoot());
+  const safeContexts = guardContexts(getOllamaUrl(config), contexts, config.privacy, detectors);
+  const prompt = buildRAGPrompt(query, safeContexts, { noCite: options.noCite });
   return generate(prompt, options);
 }
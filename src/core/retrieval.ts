@@ -8,14 +8,52 @@
  */
 
 import { createHash } from 'node:crypto';
-import { redactPII } from '../privacy/pii.js';
-import { getIndexStats, searchIndex } from '../storage/index.js';
-import { getDocumentCount, getIndexVersion, getLastEvent } from '../storage/metadata.js';
-import type { CursorData, IndexStatus, SearchQuery, SearchResponse, SearchResult } from '../types/index.js';
-import { loadConfig } from './config.js';
-import { CONFIDENCE, DEFAULTS, LIMITS, RERANK_FUSION } from './constants.js';
+import { loadDetectors, type PIIDetector, redactPII } from '../privacy/pii.js';
+import {
+  checkEmbeddingModel,
+  getIndexStats,
+  getVectorModel,
+  keywordSearchIndex,
+  type SearchIndexOptions,
+  searchIndex,
+  semanticSearchIndex,
+} from '../storage/index.js';
+import { getDocumentCount, getIndexVersion, getLastEvent, getSensitiveFiles } from '../storage/metadata.js';
+import type {
+  CursorData,
+  CursorErrorCode,
+  IndexStatus,
+  RetrievalMode,
+  SearchFilters,
+  SearchQuery,
+  SearchResponse,
+  SearchResult,
+} from '../types/index.js';
+import { formatLocation } from './chunker.js';
+import { findProjectRoot, loadConfig } from './config.js';
+import { CONFIDENCE, DEFAULTS, LIMITS, RERANK_FUSION, RETRIEVAL_MODES } from './constants.js';
 import { embed } from './embedder.js';
 import { rerank } from './reranker.js';
+import { readWatchState, summarizeWatchState } from './watcher.js';
+
+/** Reranked candidate lists keyed by `rerankCacheKey()`, oldest first */
+const rerankCache = new Map<string, SearchResult[]>();
+
+/**
+ * Error for a pagination cursor that cannot be used.
+ *
+ * - `invalid_cursor`: malformed, or issued for a different query shape
+ * - `stale_cursor`: the index changed since the cursor was issued
+ */
+export class CursorError extends Error {
+  readonly code: CursorErrorCode;
+
+  constructor(code: CursorErrorCode, message: string) {
+    super(message);
+    this.name = 'CursorError';
+    this.code = code;
+  }
+}
 
 /**
  * Encode cursor data
@@ -43,6 +81,168 @@ function hashQuery(query: string): string {
   return createHash('sha256').update(query).digest('hex').substring(0, 16);
 }
 
+/**
+ * Drop empty filter values so equivalent filters compare equal
+ */
+function normalizeFilters(filters: SearchFilters | undefined): SearchFilters | undefined {
+  const normalized: SearchFilters = {};
+  if (filters?.path_prefix) normalized.path_prefix = filters.path_prefix;
+  if (filters?.source_name) normalized.source_name = filters.source_name;
+  if (filters?.section) normalized.section = filters.section;
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Check that a cursor was issued for the same query shape.
+ *
+ * @param cursor - Decoded cursor
+ * @param expected - Cursor fields the current search would produce (except offset and index version)
+ */
+function cursorMatches(cursor: CursorData, expected: Omit<CursorData, 'offset' | 'index_version'>): boolean {
+  return (
+    Number.isInteger(cursor.offset) &&
+    cursor.offset >= 0 &&
+    cursor.query_hash === expected.query_hash &&
+    cursor.limit === expected.limit &&
+    cursor.mode === expected.mode &&
+    cursor.rerank_top_k === expected.rerank_top_k &&
+    JSON.stringify(normalizeFilters(cursor.filters) ?? null) === JSON.stringify(expected.filters ?? null)
+  );
+}
+
+/**
+ * Key for a reranked candidate list.
+ *
+ * Covers everything a cursor must agree on to page through the same list:
+ * query, retrieval mode, candidate pool size, filters and index version.
+ * Filters are normalized like the cursor's, so equivalent filters share a key.
+ */
+function rerankCacheKey(
+  query: string,
+  mode: RetrievalMode,
+  topK: number,
+  filters: SearchFilters | undefined,
+  indexVersion: string,
+): string {
+  const normalized = normalizeFilters(filters);
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        query,
+        mode,
+        topK,
+        normalized?.path_prefix ?? null,
+        normalized?.source_name ?? null,
+        normalized?.section ?? null,
+        indexVersion,
+      ]),
+    )
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Store a reranked candidate list, evicting the oldest entry when full
+ */
+function cacheReranked(key: string, candidates: SearchResult[]): void {
+  rerankCache.delete(key);
+  rerankCache.set(key, candidates);
+
+  while (rerankCache.size > LIMITS.RERANK_CACHE_SIZE) {
+    const oldest = rerankCache.keys().next().value;
+    if (oldest === undefined) break;
+    rerankCache.delete(oldest);
+  }
+}
+
+/**
+ * Clear cached reranked candidate lists
+ */
+export function clearRerankCache(): void {
+  rerankCache.clear();
+}
+
+/**
+ * Retrieve candidates from the index for a retrieval mode.
+ *
+ * Keyword mode runs BM25 only and never loads the embedding model; its
+ * scores are normalized to 0-1 like the other modes.
+ *
+ * @returns Results, total count and per-phase timings
+ */
+async function retrieve(
+  mode: RetrievalMode,
+  query: string,
+  options: SearchIndexOptions,
+): Promise<{
+  results: SearchResult[];
+  total: number;
+  embeddingTime?: number;
+  searchTime: number;
+  fusionTime?: number;
+}> {
+  if (mode === 'keyword') {
+    const searchStart = Date.now();
+    const found = await keywordSearchIndex(query, options);
+    return { ...found, results: normalizeKeywordScores(found.results), searchTime: Date.now() - searchStart };
+  }
+
+  const embeddingStart = Date.now();
+  const queryEmbedding = await embed(query);
+  const embeddingTime = Date.now() - embeddingStart;
+
+  const searchStart = Date.now();
+  const found =
+    mode === 'semantic'
+      ? await semanticSearchIndex(queryEmbedding, options)
+      : await searchIndex(query, queryEmbedding, options);
+
+  return { ...found, embeddingTime, searchTime: Date.now() - searchStart };
+}
+
+/**
+ * Map unbounded BM25 scores to 0-1 with `s / (1 + s)`.
+ *
+ * Unlike min-max over the candidates, a score does not depend on the
+ * other results, so it is stable across pages.
+ */
+function normalizeKeywordScores(results: SearchResult[]): SearchResult[] {
+  return results.map((r) => {
+    const score = Math.max(r.score, 0);
+    return { ...r, score: score / (1 + score) };
+  });
+}
+
+/**
+ * Rerank candidates with the cross-encoder and fuse with hybrid scores.
+ *
+ * @returns Candidates sorted by fused score
+ */
+async function rerankCandidates(query: string, candidates: SearchResult[]): Promise<SearchResult[]> {
+  const rerankInput = candidates.map((r) => ({
+    id: r.chunk_id,
+    text: r.snippet,
+  }));
+
+  const reranked = await rerank(query, rerankInput);
+  const scoreMap = new Map(reranked.map((r) => [r.id, r.score]));
+
+  // Score fusion: combine hybrid and rerank scores instead of replacement
+  // Note: no MIN_RERANK_SCORE filtering - fusion already handles low rerank scores
+  // (high hybrid + low rerank = moderate fused score)
+  return candidates
+    .filter((r) => scoreMap.has(r.chunk_id))
+    .map((r) => {
+      const rerankScore = scoreMap.get(r.chunk_id) ?? 0;
+      const hybridScore = r.score;
+      return {
+        ...r,
+        score: hybridScore * RERANK_FUSION.HYBRID_WEIGHT + rerankScore * RERANK_FUSION.RERANK_WEIGHT,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
 /**
  * Calculate confidence score from results
  */
@@ -53,7 +253,7 @@ function calculateConfidence(results: SearchResult[], total: number): number {
   const avgScore = results.reduce((sum, r) => sum + r.score, 0) / results.length;
 
   // Normalize to 0-1 range
-  const normalizedScore = Math.min(avgScore, 1);
+  const normalizedScore = Math.min(Math.max(avgScore, 0), 1);
 
   // Adjust by result count
   const countFactor = Math.min(total / CONFIDENCE.COUNT_NORMALIZATION, 1);
@@ -62,13 +262,44 @@ function calculateConfidence(results: SearchResult[], total: number): number {
 }
 
 /**
- * Perform hybrid search across indexed documents.
+ * Redact PII from result snippets and heading paths, and attach citations.
+ *
+ * Headings are document text too, so they get the same detectors as snippets.
+ *
+ * @returns Redacted results and whether anything was redacted
+ */
+function redactResults(
+  results: SearchResult[],
+  detectors: PIIDetector[],
+): { results: SearchResult[]; redacted: boolean } {
+  let redacted = false;
+  const redactedResults = results.map((r) => {
+    const snippet = redactPII(r.snippet, detectors);
+    const headingPath = r.heading_path ? redactPII(r.heading_path, detectors) : null;
+    if (snippet.redacted || headingPath?.redacted) redacted = true;
+    return {
+      ...r,
+      snippet: snippet.text,
+      ...(headingPath ? { heading_path: headingPath.text } : {}),
+      citation: formatLocation(r.path, r),
+    };
+  });
+
+  return { results: redactedResults, redacted };
+}
+
+/**
+ * Search indexed documents.
  *
- * Combines semantic (vector) and keyword (BM25) search with configurable weights.
+ * Runs in the retrieval mode from the query or config: hybrid (semantic + BM25
+ * with configurable weights), semantic-only or keyword-only.
  * Supports optional cross-encoder reranking for improved relevance.
  *
  * @param query - Search query options
  * @returns Search response with ranked results and metadata
+ * @throws Error if the retrieval mode is unknown
+ * @throws EmbeddingModelError if the index was built with another embedding model (except in keyword mode)
+ * @throws CursorError if the cursor is malformed, issued for a different search, or stale
  *
  * @example
  * ```ts
@@ -80,103 +311,139 @@ function calculateConfidence(results: SearchResult[], total: number): number {
  * ```
  */
 export async function search(query: SearchQuery): Promise<SearchResponse> {
-  const startTime = Date.now();
   const config = await loadConfig();
 
   const limit = Math.min(query.limit ?? config.retrieval.default_limit, config.retrieval.max_limit);
 
-  // Decode cursor if provided
+  const mode = query.mode ?? config.retrieval.mode;
+  if (!RETRIEVAL_MODES.includes(mode)) {
+    throw new Error(`Invalid retrieval mode: ${mode}. Expected one of: ${RETRIEVAL_MODES.join(', ')}`);
+  }
+  if (mode !== 'keyword') {
+    await checkEmbeddingModel(config.embedding);
+  }
+
+  const rerankTopK = query.rerank ? Math.max(query.rerank_top_k ?? LIMITS.DEFAULT_RERANK_TOP_K, limit) : undefined;
+  const indexVersion = await getIndexVersion();
+
+  // Cursors are only valid for the same query shape and index version
+  const cursorShape = {
+    query_hash: hashQuery(query.query),
+    limit,
+    filters: normalizeFilters(query.filters),
+    rerank_top_k: rerankTopK,
+    mode,
+  };
   let offset = 0;
+  let snapshotVersion = indexVersion;
   if (query.cursor) {
     const cursorData = decodeCursor(query.cursor);
-    if (cursorData && cursorData.query_hash === hashQuery(query.query)) {
-      offset = cursorData.offset;
+    if (!cursorData || !cursorMatches(cursorData, cursorShape)) {
+      throw new CursorError(
+        'invalid_cursor',
+        'Cursor does not match this search (query, mode, filters, limit or rerank settings differ). Search again without a cursor.',
+      );
     }
-  }
 
-  // Generate query embedding
-  const queryEmbedding = await embed(query.query);
+    if (cursorData.index_version !== indexVersion) {
+      // A reranked list is a snapshot: keep paging through it while it is cached
+      const snapshotKey =
+        rerankTopK !== undefined
+          ? rerankCacheKey(query.query, mode, rerankTopK, cursorShape.filters, cursorData.index_version)
+          : undefined;
+      if (!snapshotKey || !rerankCache.has(snapshotKey)) {
+        throw new CursorError(
+          'stale_cursor',
+          'The index changed since this cursor was issued. Search again without a cursor.',
+        );
+      }
+      snapshotVersion = cursorData.index_version;
+    }
 
-  // Search - no candidate expansion for reranking (score fusion preserves hybrid signal)
-  const searchLimit = limit;
-  const { results: rawResults, total } = await searchIndex(query.query, queryEmbedding, {
-    limit: searchLimit,
-    offset,
+    offset = cursorData.offset;
+  }
+
+  const indexOptions = {
     semanticWeight: config.retrieval.semantic_weight,
     keywordWeight: config.retrieval.keyword_weight,
+    fusion: config.retrieval.fusion,
+    normalization: config.retrieval.normalization,
     filters: query.filters,
-  });
-
-  const searchTime = Date.now() - startTime;
+  };
 
-  // Rerank if requested
-  let results = rawResults;
+  let results: SearchResult[];
+  let total: number;
+  let embeddingTime: number | undefined;
+  let searchTime: number;
+  let fusionTime: number | undefined;
   let rerankingTime: number | undefined;
 
-  if (query.rerank && rawResults.length > 0) {
-    const rerankStart = Date.now();
-    try {
-      const rerankInput = rawResults.map((r) => ({
-        id: r.chunk_id,
-        text: r.snippet,
-      }));
-
-      const reranked = await rerank(query.query, rerankInput);
-      const scoreMap = new Map(reranked.map((r) => [r.id, r.score]));
-
-      // Score fusion: combine hybrid and rerank scores instead of replacement
-      // Note: no MIN_RERANK_SCORE filtering - fusion already handles low rerank scores
-      // (high hybrid + low rerank = moderate fused score)
-      results = rawResults
-        .filter((r) => scoreMap.has(r.chunk_id))
-        .map((r) => {
-          const rerankScore = scoreMap.get(r.chunk_id) ?? 0;
-          const hybridScore = r.score;
-          return {
-            ...r,
-            score: hybridScore * RERANK_FUSION.HYBRID_WEIGHT + rerankScore * RERANK_FUSION.RERANK_WEIGHT,
-          };
-        })
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit);
-
-      rerankingTime = Date.now() - rerankStart;
-    } catch (error) {
-      console.error('Reranking failed, using original results:', error);
-      results = rawResults.slice(0, limit);
+  if (rerankTopK !== undefined) {
+    // Rerank the top candidates once, then page through the reranked list
+    const cacheKey = rerankCacheKey(query.query, mode, rerankTopK, cursorShape.filters, snapshotVersion);
+    const cacheStart = Date.now();
+    let candidates = rerankCache.get(cacheKey);
+
+    if (candidates) {
+      searchTime = Date.now() - cacheStart;
+    } else {
+      const retrieved = await retrieve(mode, query.query, { ...indexOptions, limit: rerankTopK, offset: 0 });
+      embeddingTime = retrieved.embeddingTime;
+      searchTime = retrieved.searchTime;
+      fusionTime = retrieved.fusionTime;
+
+      candidates = retrieved.results;
+      if (candidates.length > 0) {
+        const rerankStart = Date.now();
+        try {
+          candidates = await rerankCandidates(query.query, candidates);
+          cacheReranked(cacheKey, candidates);
+          rerankingTime = Date.now() - rerankStart;
+        } catch (error) {
+          console.error('Reranking failed, using original results:', error);
+        }
+      }
     }
+
+    results = candidates.slice(offset, offset + limit);
+    total = candidates.length;
+  } else {
+    const retrieved = await retrieve(mode, query.query, { ...indexOptions, limit, offset });
+    embeddingTime = retrieved.embeddingTime;
+    searchTime = retrieved.searchTime;
+    fusionTime = retrieved.fusionTime;
+
+    results = retrieved.results;
+    total = retrieved.total;
   }
 
   // Generate next cursor if more results exist
   let nextCursor: string | null = null;
   if (offset + results.length < total && config.retrieval.pagination.enabled) {
     const cursorData: CursorData = {
-      query_hash: hashQuery(query.query),
+      ...cursorShape,
       offset: offset + limit,
-      index_version: await getIndexVersion(),
+      index_version: snapshotVersion,
     };
     nextCursor = encodeCursor(cursorData);
   }
 
-  // Redact PII from snippets
-  let piiRedacted = false;
-  const redactedResults = results.map((r) => {
-    const redaction = redactPII(r.snippet);
-    if (redaction.redacted) piiRedacted = true;
-    return { ...r, snippet: redaction.text };
-  });
+  const detectors = await loadDetectors(config.privacy, findProjectRoot());
+  const redaction = redactResults(results, detectors);
 
   return {
     schema_version: 1,
     project_id: config.project_id,
     query: query.query,
-    index_state: 'ready',
+    index_state: summarizeWatchState(readWatchState()).index_state,
     confidence: calculateConfidence(results, total),
-    results: redactedResults,
+    results: redaction.results,
     next_cursor: nextCursor,
-    pii_redacted: piiRedacted,
+    pii_redacted: redaction.redacted,
     timing_ms: {
+      embedding: embeddingTime,
       search: searchTime,
+      fusion: fusionTime,
       reranking: rerankingTime,
     },
   };
@@ -185,6 +452,10 @@ export async function search(query: SearchQuery): Promise<SearchResponse> {
 /**
  * Get current index status and statistics.
  *
+ * While `dseek watch` is running, the index state, queue size and warnings
+ * come from the state it publishes. Sensitive files that were skipped or
+ * indexed without redaction are always reported as warnings.
+ *
  * @returns Index status including document count, chunk count, and last event
  *
  * @example
@@ -198,16 +469,27 @@ export async function getStatus(): Promise<IndexStatus> {
   const stats = await getIndexStats();
   const lastEvent = await getLastEvent();
   const documentCount = await getDocumentCount();
+  const watch = summarizeWatchState(readWatchState());
+  const sensitive = (await getSensitiveFiles()).flatMap((f) => {
+    if (f.policy === 'skip') return [`Skipped sensitive file: ${f.path}`];
+    if (f.policy === 'warn') return [`Indexed sensitive file without redaction: ${f.path}`];
+    return [];
+  });
+  const vectors = getVectorModel();
+  const model =
+    stats.chunks > 0 && (vectors.model !== config.embedding.model || vectors.dimensions !== config.embedding.dimensions)
+      ? [`Index embeddings do not match embedding.model; run \`dseek reindex --embeddings\``]
+      : [];
 
   return {
     schema_version: 1,
     project_id: config.project_id,
-    index_state: 'ready',
-    queued_files: 0,
+    index_state: watch.index_state,
+    queued_files: watch.queued_files,
     documents: documentCount,
     chunks: stats.chunks,
     last_event: lastEvent,
-    warnings: [],
+    warnings: [...watch.warnings, ...sensitive, ...model],
   };
 }
 
@@ -242,4 +524,14 @@ export async function findSimilar(
 }
 
 // Export pure functions for testing
-export { encodeCursor, decodeCursor, hashQuery, calculateConfidence };
+export {
+  encodeCursor,
+  decodeCursor,
+  hashQuery,
+  calculateConfidence,
+  rerankCacheKey,
+  cursorMatches,
+  normalizeFilters,
+  normalizeKeywordScores,
+  redactResults,
+};
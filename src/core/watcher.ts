@@ -3,33 +3,42 @@
  *
  * Watches source directories for changes and triggers re-indexing.
  * Supports debouncing, lock files, and graceful shutdown.
+ * Publishes its queue, current file and recent errors to a state file in
+ * the run directory so `getStatus()` and `search()` can report progress.
  *
  * @module watcher
  */
 
-import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'node:fs';
 import { join, relative } from 'node:path';
 import chokidar, { type FSWatcher } from 'chokidar';
-import { isSupported } from '../parsers/index.js';
 import { saveIndex } from '../storage/index.js';
 import { saveMetadata } from '../storage/metadata.js';
-import { findProjectRoot, getDseekDir, loadConfig, loadIgnorePatterns } from './config.js';
-import { DIRS, FILES, TIMING } from './constants.js';
-import { deleteDocument, indexFile } from './indexer.js';
+import type { IndexState, Source, WatchError, WatchState } from '../types/index.js';
+import { findProjectRoot, findSourceForPath, getDseekDir, loadConfig, loadIgnorePatterns } from './config.js';
+import { DIRS, FILES, LIMITS, TIMING } from './constants.js';
+import { deleteDocument, indexFile, isSourceFile } from './indexer.js';
 
 interface WatcherState {
   watcher: FSWatcher | null;
   projectRoot: string;
+  sources: Source[];
   ignorePatterns: string[];
   pendingChanges: Map<string, NodeJS.Timeout>;
+  /** Files being indexed, in start order */
+  processing: Set<string>;
+  errors: WatchError[];
   isShuttingDown: boolean;
 }
 
 const state: WatcherState = {
   watcher: null,
   projectRoot: '',
+  sources: [],
   ignorePatterns: [],
   pendingChanges: new Map(),
+  processing: new Set(),
+  errors: [],
   isShuttingDown: false,
 };
 
@@ -77,10 +86,12 @@ export function isWatcherRunning(): boolean {
 function cleanupLockFiles(): void {
   const lockPath = join(getRunDir(), FILES.WATCH_LOCK);
   const pidPath = join(getRunDir(), FILES.WATCH_PID);
+  const statePath = join(getRunDir(), FILES.WATCH_STATE);
 
   try {
     if (existsSync(lockPath)) unlinkSync(lockPath);
     if (existsSync(pidPath)) unlinkSync(pidPath);
+    if (existsSync(statePath)) unlinkSync(statePath);
   } catch {
     // Ignore cleanup errors
   }
@@ -100,6 +111,97 @@ function createLockFiles(): void {
   writeFileSync(join(runDir, FILES.WATCH_PID), process.pid.toString());
 }
 
+/**
+ * Write the current queue, file and errors to the watch state file.
+ *
+ * Written to a temp file and renamed, so readers never see a partial file.
+ */
+function publishState(): void {
+  const toRelative = (filePath: string) => relative(state.projectRoot, filePath);
+  const [current, ...processing] = state.processing;
+  const queued = new Set([...state.pendingChanges.keys(), ...processing]);
+  if (current) queued.delete(current);
+
+  const watchState: WatchState = {
+    pid: process.pid,
+    updated_at: new Date().toISOString(),
+    queued: [...queued].map(toRelative),
+    current_file: current ? toRelative(current) : null,
+    errors: state.errors,
+  };
+
+  const statePath = join(getRunDir(), FILES.WATCH_STATE);
+  try {
+    writeFileSync(`${statePath}.tmp`, JSON.stringify(watchState, null, 2));
+    renameSync(`${statePath}.tmp`, statePath);
+  } catch {
+    // Progress reporting must never stop the watcher
+  }
+}
+
+/**
+ * Record a failure for a file, replacing any earlier failure for it
+ */
+function recordError(relativePath: string, message: string): void {
+  state.errors = state.errors.filter((e) => e.path !== relativePath);
+  state.errors.push({ path: relativePath, message, at: new Date().toISOString() });
+  if (state.errors.length > LIMITS.MAX_WATCH_ERRORS) {
+    state.errors = state.errors.slice(-LIMITS.MAX_WATCH_ERRORS);
+  }
+}
+
+/**
+ * Read the state published by a running watcher.
+ *
+ * @returns Watch state, or null if no watcher is running or it has not published yet
+ */
+export function readWatchState(): WatchState | null {
+  if (!isWatcherRunning()) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(join(getRunDir(), FILES.WATCH_STATE), 'utf-8')) as WatchState;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Derive index state, queue size and warnings from watcher state.
+ *
+ * Errors take precedence over pending work: results may be missing
+ * content until the failing files are fixed.
+ *
+ * @param watchState - State from `readWatchState()`
+ * @returns Status fields for `IndexStatus`
+ *
+ * @example
+ * ```ts
+ * const { index_state, queued_files } = summarizeWatchState(readWatchState());
+ * ```
+ */
+export function summarizeWatchState(watchState: WatchState | null): {
+  index_state: IndexState;
+  queued_files: number;
+  warnings: string[];
+} {
+  if (!watchState) {
+    return { index_state: 'ready', queued_files: 0, warnings: [] };
+  }
+
+  const queuedFiles = watchState.queued.length + (watchState.current_file ? 1 : 0);
+  const warnings = watchState.errors.map((e) => `Failed to index ${e.path}: ${e.message}`);
+  let indexState: IndexState = 'ready';
+  if (watchState.errors.length > 0) {
+    indexState = 'error';
+  } else if (queuedFiles > 0) {
+    indexState = 'updating';
+  }
+
+  return { index_state: indexState, queued_files: queuedFiles, warnings };
+}
+
 /**
  * Check if path should be ignored
  */
@@ -128,13 +230,35 @@ function shouldIgnore(filePath: string): boolean {
   return false;
 }
 
+/**
+ * Check whether a changed file is one `dseek add` would index: it must
+ * belong to a source and match that source's include and exclude patterns.
+ *
+ * @param filePath - Absolute path of the changed file
+ * @param sources - Configured sources
+ * @param projectRoot - Project root directory
+ * @param ignorePatterns - Patterns from `.dseek/ignore`
+ * @returns True if the file should be indexed
+ */
+export function isWatchedFile(
+  filePath: string,
+  sources: Source[],
+  projectRoot: string,
+  ignorePatterns: string[] = [],
+): boolean {
+  const source = findSourceForPath(filePath, sources, projectRoot);
+  return source !== null && isSourceFile(filePath, source, projectRoot, ignorePatterns);
+}
+
 /**
  * Handle file change with debounce
  */
 function handleChange(eventType: 'add' | 'change' | 'unlink', filePath: string): void {
   if (state.isShuttingDown) return;
   if (shouldIgnore(filePath)) return;
-  if (eventType !== 'unlink' && !isSupported(filePath)) return;
+  if (eventType !== 'unlink' && !isWatchedFile(filePath, state.sources, state.projectRoot, state.ignorePatterns)) {
+    return;
+  }
 
   // Clear existing timeout for this file
   const existing = state.pendingChanges.get(filePath);
@@ -145,33 +269,50 @@ function handleChange(eventType: 'add' | 'change' | 'unlink', filePath: string):
   // Debounce the change
   const timeout = setTimeout(async () => {
     state.pendingChanges.delete(filePath);
+    state.processing.add(filePath);
+    publishState();
 
-    try {
-      const relativePath = relative(state.projectRoot, filePath);
+    const relativePath = relative(state.projectRoot, filePath);
+    let error: string | null = null;
 
+    try {
       if (eventType === 'unlink') {
         console.log(`[${new Date().toISOString()}] Removed: ${relativePath}`);
         await deleteDocument(filePath, state.projectRoot);
       } else {
         console.log(`[${new Date().toISOString()}] ${eventType === 'add' ? 'Added' : 'Updated'}: ${relativePath}`);
-        const result = await indexFile(filePath, state.projectRoot);
+        const source = findSourceForPath(filePath, state.sources, state.projectRoot) ?? undefined;
+        const result = await indexFile(filePath, state.projectRoot, source);
 
-        if (result.success && result.chunks && result.chunks > 0) {
-          console.log(`  Indexed ${result.chunks} chunks`);
+        if (result.sensitive === 'skip') {
+          console.log('  Skipped sensitive file');
+        } else if (result.success && result.chunks && result.chunks > 0) {
+          console.log(`  Indexed ${result.chunks} chunks (${result.cached ?? 0} from the embedding cache)`);
         } else if (!result.success) {
           console.error(`  Error: ${result.error}`);
+          error = result.error ?? 'Unknown error';
         }
       }
 
       // Save changes
       await saveIndex();
       await saveMetadata();
-    } catch (error) {
-      console.error(`Error processing ${filePath}:`, error);
+    } catch (err) {
+      console.error(`Error processing ${filePath}:`, err);
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (error) {
+      recordError(relativePath, error);
+    } else {
+      state.errors = state.errors.filter((e) => e.path !== relativePath);
     }
+    state.processing.delete(filePath);
+    publishState();
   }, TIMING.WATCH_DEBOUNCE_MS);
 
   state.pendingChanges.set(filePath, timeout);
+  publishState();
 }
 
 /**
@@ -200,6 +341,7 @@ export async function startWatcher(projectRoot?: string): Promise<void> {
 
   state.projectRoot = projectRoot ?? findProjectRoot();
   const config = await loadConfig(state.projectRoot);
+  state.sources = config.sources;
   state.ignorePatterns = await loadIgnorePatterns(state.projectRoot);
 
   // Get paths to watch from sources
@@ -211,6 +353,7 @@ export async function startWatcher(projectRoot?: string): Promise<void> {
 
   // Create lock files
   createLockFiles();
+  publishState();
 
   // Initialize watcher
   state.watcher = chokidar.watch(watchPaths, {
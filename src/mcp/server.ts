@@ -0,0 +1,59 @@
+/**
+ * MCP server - stdio adapter over the retrieval core
+ *
+ * Exposes search, status, document listing and chat as MCP tools
+ * so agents can query the index without shelling out to the CLI.
+ *
+ * @module mcp/server
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { closeDb } from '../storage/index.js';
+import { callTool, MCP_TOOLS } from './tools.js';
+
+/**
+ * Create an MCP server with DSEEK tools registered.
+ *
+ * @param version - Server version reported to clients
+ * @returns Configured (unconnected) MCP server
+ */
+export function createMcpServer(version: string): Server {
+  const server = new Server({ name: 'dseek', version }, { capabilities: { tools: {} } });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: MCP_TOOLS }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    callTool(request.params.name, request.params.arguments ?? {}),
+  );
+
+  return server;
+}
+
+/**
+ * Start the MCP server on stdio.
+ *
+ * Stdout carries the JSON-RPC stream, so `console.log` output from the
+ * retrieval core is redirected to stderr for the lifetime of the process.
+ *
+ * @param version - Server version reported to clients
+ *
+ * @example
+ * ```ts
+ * await startMcpServer('1.0.1');
+ * ```
+ */
+export async function startMcpServer(version: string): Promise<void> {
+  console.log = console.error;
+
+  const server = createMcpServer(version);
+  const transport = new StdioServerTransport();
+
+  transport.onclose = () => {
+    closeDb();
+  };
+
+  await server.connect(transport);
+  console.error('DSEEK MCP server running on stdio');
+}
@@ -0,0 +1,352 @@
+/**
+ * MCP tool definitions and handlers
+ *
+ * Describes the search, status, list and chat tools exposed over MCP and
+ * dispatches tool calls to the same retrieval core used by the CLI.
+ * Input schemas mirror `SearchQuery`; output schemas mirror `SearchResponse` and `IndexStatus`.
+ *
+ * @module mcp/tools
+ */
+
+import { answerQuestion, type ChatOptions } from '../core/chat.js';
+import { DEFAULTS, LIMITS, RETRIEVAL_MODES } from '../core/constants.js';
+import { getStatus, search } from '../core/retrieval.js';
+import { getAllDocuments } from '../storage/metadata.js';
+import type { RetrievalMode, SearchQuery } from '../types/index.js';
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+  outputSchema?: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/** JSON schema for `SearchFilters`-compatible tool arguments */
+const FILTER_PROPERTIES = {
+  path_prefix: { type: 'string', description: 'Only return results whose path starts with this prefix' },
+  source_name: { type: 'string', description: 'Only return results from this configured source' },
+  section: {
+    type: 'string',
+    description: 'Only return results under a matching heading, e.g. "Tokens" or "Auth > Tokens"',
+  },
+};
+
+/** JSON schema for a single `SearchResult` */
+const SEARCH_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    chunk_id: { type: 'string' },
+    path: { type: 'string' },
+    line_start: { type: 'integer' },
+    line_end: { type: 'integer' },
+    page_start: { type: ['integer', 'null'] },
+    page_end: { type: ['integer', 'null'] },
+    score: { type: 'number' },
+    snippet: { type: 'string' },
+    heading_path: { type: 'string' },
+    citation: { type: 'string' },
+  },
+  required: ['chunk_id', 'path', 'line_start', 'line_end', 'score', 'snippet'],
+};
+
+/** JSON schema for `IndexEvent` (nullable) */
+const INDEX_EVENT_SCHEMA = {
+  type: ['object', 'null'],
+  properties: {
+    type: { type: 'string', enum: ['add', 'modify', 'delete'] },
+    path: { type: 'string' },
+    at: { type: 'string' },
+  },
+};
+
+const INDEX_STATE_SCHEMA = { type: 'string', enum: ['ready', 'updating', 'error'] };
+
+/**
+ * Tools exposed by the MCP server.
+ */
+export const MCP_TOOLS: ToolDefinition[] = [
+  {
+    name: 'search',
+    description:
+      'Search indexed project documentation with hybrid (semantic + keyword) retrieval. ' +
+      'Returns ranked snippets with file paths and line ranges.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query' },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          description: `Maximum results (default ${LIMITS.DEFAULT_RESULTS}, capped by retrieval.max_limit)`,
+        },
+        cursor: { type: 'string', description: 'Pagination cursor from a previous next_cursor' },
+        ...FILTER_PROPERTIES,
+        mode: {
+          type: 'string',
+          enum: [...RETRIEVAL_MODES],
+          description: 'Retrieval mode (default: retrieval.mode from config)',
+        },
+        rerank: { type: 'boolean', description: 'Enable cross-encoder reranking (slower, more accurate)' },
+        rerank_top_k: {
+          type: 'integer',
+          minimum: 1,
+          description: `Number of candidates to rerank (default ${LIMITS.DEFAULT_RERANK_TOP_K})`,
+        },
+      },
+      required: ['query'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        schema_version: { type: 'integer' },
+        project_id: { type: 'string' },
+        query: { type: 'string' },
+        index_state: INDEX_STATE_SCHEMA,
+        confidence: { type: 'number' },
+        results: { type: 'array', items: SEARCH_RESULT_SCHEMA },
+        next_cursor: { type: ['string', 'null'] },
+        pii_redacted: { type: 'boolean' },
+        timing_ms: {
+          type: 'object',
+          properties: {
+            embedding: { type: 'number' },
+            search: { type: 'number' },
+            fusion: { type: 'number' },
+            reranking: { type: 'number' },
+          },
+        },
+      },
+      required: ['query', 'index_state', 'confidence', 'results', 'next_cursor'],
+    },
+  },
+  {
+    name: 'status',
+    description: 'Show index state, document and chunk counts, and the last index event.',
+    inputSchema: { type: 'object', properties: {} },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        schema_version: { type: 'integer' },
+        project_id: { type: 'string' },
+        index_state: INDEX_STATE_SCHEMA,
+        queued_files: { type: 'integer' },
+        documents: { type: 'integer' },
+        chunks: { type: 'integer' },
+        last_event: INDEX_EVENT_SCHEMA,
+        warnings: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['index_state', 'documents', 'chunks'],
+    },
+  },
+  {
+    name: 'list_documents',
+    description: 'List indexed documents with format, size and last update time.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path_prefix: FILTER_PROPERTIES.path_prefix,
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        documents: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              doc_id: { type: 'string' },
+              source_name: { type: 'string' },
+              format: { type: 'string' },
+              content_hash: { type: 'string' },
+              updated_at: { type: 'string' },
+              size_bytes: { type: 'integer' },
+              source_doc_id: { type: 'string' },
+            },
+            required: ['doc_id', 'format', 'updated_at', 'size_bytes'],
+          },
+        },
+      },
+      required: ['documents'],
+    },
+  },
+  {
+    name: 'chat',
+    description:
+      'Answer a question from the indexed documentation using a local LLM via Ollama. ' +
+      'Requires a running Ollama server with the configured model pulled.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Question to answer' },
+        top_k: {
+          type: 'integer',
+          minimum: 1,
+          description: `Number of context chunks (default ${DEFAULTS.CHAT_TOP_K})`,
+        },
+        model: { type: 'string', description: 'Ollama model to use' },
+        temperature: { type: 'number', description: `Generation temperature (default ${DEFAULTS.LLM_TEMPERATURE})` },
+        rerank: { type: 'boolean', description: 'Use cross-encoder reranking for better context' },
+        no_cite: { type: 'boolean', description: 'Disable source citations in the answer' },
+      },
+      required: ['query'],
+    },
+  },
+];
+
+/**
+ * Read an optional string argument
+ */
+function optionalString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Read an optional positive integer argument
+ */
+function optionalInt(args: Record<string, unknown>, key: string): number | undefined {
+  const value = args[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  return Math.max(1, Math.floor(value));
+}
+
+/**
+ * Read a required string argument.
+ *
+ * @throws Error if the argument is missing or empty
+ */
+function requiredString(args: Record<string, unknown>, key: string): string {
+  const value = optionalString(args, key);
+  if (!value) {
+    throw new Error(`Missing required argument: ${key}`);
+  }
+  return value;
+}
+
+/**
+ * Convert `search` tool arguments to a `SearchQuery`.
+ *
+ * @param args - Raw tool arguments
+ * @returns Search query for `search()`
+ * @throws Error if `query` is missing
+ */
+export function toSearchQuery(args: Record<string, unknown>): SearchQuery {
+  const rerank = args.rerank === true;
+
+  return {
+    query: requiredString(args, 'query'),
+    limit: optionalInt(args, 'limit'),
+    cursor: optionalString(args, 'cursor'),
+    filters: {
+      path_prefix: optionalString(args, 'path_prefix'),
+      source_name: optionalString(args, 'source_name'),
+      section: optionalString(args, 'section'),
+    },
+    rerank,
+    rerank_top_k: rerank ? (optionalInt(args, 'rerank_top_k') ?? LIMITS.DEFAULT_RERANK_TOP_K) : undefined,
+    mode: optionalString(args, 'mode') as RetrievalMode | undefined,
+  };
+}
+
+/**
+ * Convert `chat` tool arguments to chat options.
+ *
+ * `top_k` is read like `limit` in `toSearchQuery()`: at least 1, and capped
+ * at `retrieval.max_limit` by `search()`.
+ *
+ * @param args - Raw tool arguments
+ * @returns Options for `answerQuestion()`
+ */
+export function toChatOptions(args: Record<string, unknown>): ChatOptions {
+  return {
+    top_k: optionalInt(args, 'top_k'),
+    model: optionalString(args, 'model'),
+    temperature: typeof args.temperature === 'number' ? args.temperature : undefined,
+    rerank: args.rerank === true,
+    no_cite: args.no_cite === true,
+  };
+}
+
+/**
+ * Wrap structured data as a tool result
+ */
+function jsonResult(data: object): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(data) }],
+    structuredContent: data as Record<string, unknown>,
+  };
+}
+
+/**
+ * Wrap an error message as a tool result
+ */
+function errorResult(message: string): ToolResult {
+  return {
+    content: [{ type: 'text', text: `Error: ${message}` }],
+    isError: true,
+  };
+}
+
+/**
+ * Run the `chat` tool: retrieve context and generate an answer via Ollama
+ */
+async function runChat(args: Record<string, unknown>): Promise<ToolResult> {
+  const query = requiredString(args, 'query');
+
+  return jsonResult(await answerQuestion(query, toChatOptions(args)));
+}
+
+/**
+ * Dispatch an MCP tool call.
+ *
+ * Errors are returned as tool results with `isError` set rather than thrown,
+ * so the calling agent can see and react to them.
+ *
+ * @param name - Tool name
+ * @param args - Tool arguments
+ * @returns Tool result with text and structured content
+ *
+ * @example
+ * ```ts
+ * const result = await callTool('search', { query: 'auth flow', limit: 5 });
+ * ```
+ */
+export async function callTool(name: string, args: Record<string, unknown> = {}): Promise<ToolResult> {
+  try {
+    switch (name) {
+      case 'search':
+        return jsonResult(await search(toSearchQuery(args)));
+      case 'status':
+        return jsonResult(await getStatus());
+      case 'list_documents': {
+        const prefix = optionalString(args, 'path_prefix');
+        const documents = (await getAllDocuments())
+          .filter((d) => !prefix || d.doc_id.startsWith(prefix))
+          .sort((a, b) => a.doc_id.localeCompare(b.doc_id));
+        return jsonResult({ documents });
+      }
+      case 'chat':
+        return await runChat(args);
+      default:
+        return errorResult(`Unknown tool: ${name}`);
+    }
+  } catch (error) {
+    return errorResult(error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * AsciiDoc parser
+ *
+ * Converts section titles to markdown headings and listing blocks to code
+ * fences so `.adoc` files get structure-aware chunking. Lines are
+ * rewritten in place, so line numbers match the source file.
+ *
+ * @module parsers/asciidoc
+ */
+
+import type { ParsedDocument } from '../types/index.js';
+import { escapeStructure } from './markdown.js';
+
+/** Section title: `= Document`, `== Section`, ... */
+const SECTION_TITLE = /^(={1,6})\s+(\S.*)$/;
+
+/** Delimiters of blocks whose content is verbatim: listing, literal, passthrough, comment */
+const VERBATIM_DELIMITER = /^(-{4,}|\.{4,}|\+{4,}|\/{4,})\s*$/;
+
+/**
+ * Parse an AsciiDoc file.
+ *
+ * `=` titles become `#` headings of the same depth (markdown-style `#`
+ * titles are kept). Listing (`----`) and literal (`....`) block delimiters
+ * become code fences; content of verbatim blocks is never read as a title.
+ *
+ * @param content - File content as buffer
+ * @param _filePath - File path (unused)
+ * @returns Parsed document with markdown headings and line count
+ *
+ * @example
+ * ```ts
+ * const parsed = await parseAsciidoc(Buffer.from('== Install\n\nRun it.'), 'guide.adoc');
+ * // parsed.content === '## Install\n\nRun it.'
+ * ```
+ */
+export async function parseAsciidoc(content: Buffer, _filePath: string): Promise<ParsedDocument> {
+  const text = content.toString('utf-8');
+  const lines = text.split('\n');
+
+  return {
+    content: convertAsciidoc(lines).join('\n'),
+    metadata: {
+      lines: lines.length,
+    },
+  };
+}
+
+/**
+ * Rewrite titles and block delimiters, one output line per input line
+ */
+function convertAsciidoc(lines: string[]): string[] {
+  let openDelimiter: string | null = null;
+
+  return lines.map((line) => {
+    const delimiter = line.trimEnd();
+
+    if (openDelimiter) {
+      if (delimiter !== openDelimiter) return escapeStructure(line);
+      openDelimiter = null;
+      return toFence(delimiter);
+    }
+
+    if (VERBATIM_DELIMITER.test(delimiter)) {
+      openDelimiter = delimiter;
+      return toFence(delimiter);
+    }
+
+    const title = line.match(SECTION_TITLE);
+    if (title) {
+      return `${'#'.repeat(title[1].length)} ${title[2].trim()}`;
+    }
+
+    return line;
+  });
+}
+
+/**
+ * Code fence for listing and literal blocks; other verbatim delimiters become blank lines
+ */
+function toFence(delimiter: string): string {
+  return delimiter.startsWith('-') || delimiter.startsWith('.') ? '```' : '';
+}
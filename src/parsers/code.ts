@@ -0,0 +1,237 @@
+/**
+ * Source code parser
+ *
+ * Reads source files as plain text (so line numbers match the file) and
+ * finds top-level declarations for declaration-based chunking.
+ *
+ * @module parsers/code
+ */
+
+import type { ParsedDocument } from '../types/index.js';
+
+interface LanguageSpec {
+  /** Declarations that start a section at the top level */
+  declaration: RegExp;
+  /** Declarations inside a class-like body, used to split large classes */
+  member?: RegExp;
+}
+
+/** Comments, decorators and attributes that belong to the declaration below */
+const ATTACHED_LINE = /^\s*(\/\/|\/\*|\*|#|@)/;
+
+/** Headers whose body is split at member level when too large */
+const CLASS_LIKE = /\b(class|interface|impl|trait|object|module|struct|enum)\b/;
+
+const JS_DECLARATION =
+  /^(export\s+(default\s+)?)?(declare\s+)?(async\s+)?(abstract\s+)?(function\b|class\b|interface\b|type\s+\w+|enum\b|const\b|let\b|var\b|namespace\b)/;
+const JS_MEMBER =
+  /^(?:(?:public|private|protected|static|readonly|async|override|abstract|get|set)\s+)*(?!(?:if|for|while|switch|return|catch|await|new|throw|typeof|delete)\b)[#\w$]+\s*(?:<[^>]*>)?\s*\(/;
+const JVM_DECLARATION =
+  /^(?:@\w+\s+)*(?:(?:public|private|protected|internal|static|final|abstract|sealed|open|override|data|suspend|inline|async|virtual|partial|readonly|fileprivate|synchronized)\s+)*(class|interface|enum|record|struct|object|trait|fun|func|function|def|void|[\w<>[\]?,.]+\s+\w+\s*\()/;
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  typescript: { declaration: JS_DECLARATION, member: JS_MEMBER },
+  javascript: { declaration: JS_DECLARATION, member: JS_MEMBER },
+  python: { declaration: /^(async\s+def|def|class)\b/, member: /^(async\s+def|def)\b/ },
+  go: { declaration: /^(func|type|var|const)\b/ },
+  rust: {
+    declaration:
+      /^(pub(\([^)]*\))?\s+)?(async\s+|unsafe\s+|const\s+|extern\s+"[^"]*"\s+)*(fn|struct|enum|trait|impl|mod|type|const|static|union|macro_rules!)\b/,
+    member: /^(pub(\([^)]*\))?\s+)?(async\s+|unsafe\s+|const\s+)*fn\b/,
+  },
+  java: { declaration: JVM_DECLARATION, member: JVM_DECLARATION },
+  kotlin: { declaration: JVM_DECLARATION, member: JVM_DECLARATION },
+  csharp: { declaration: JVM_DECLARATION, member: JVM_DECLARATION },
+  scala: { declaration: JVM_DECLARATION, member: JVM_DECLARATION },
+  swift: { declaration: JVM_DECLARATION, member: JVM_DECLARATION },
+  php: { declaration: JVM_DECLARATION, member: JVM_DECLARATION },
+  ruby: { declaration: /^(class|module|def)\b/, member: /^def\b/ },
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.kts': 'kotlin',
+  '.cs': 'csharp',
+  '.scala': 'scala',
+  '.swift': 'swift',
+  '.php': 'php',
+  '.rb': 'ruby',
+};
+
+export interface CodeSection {
+  /** Declaration line (trimmed), or null for the file preamble */
+  heading: string | null;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+/**
+ * Get the programming language of a source file.
+ *
+ * @param filePath - Path to the file
+ * @returns Language name (e.g. `typescript`) or null if not a supported source file
+ */
+export function getLanguage(filePath: string): string | null {
+  const ext = filePath.toLowerCase().match(/\.[^.]+$/)?.[0];
+  return ext ? (EXTENSION_LANGUAGES[ext] ?? null) : null;
+}
+
+/**
+ * Get extensions of supported source files.
+ *
+ * @returns Extensions (e.g. `[".ts", ".py"]`)
+ */
+export function getCodeExtensions(): string[] {
+  return Object.keys(EXTENSION_LANGUAGES);
+}
+
+/**
+ * Parse a source code file.
+ *
+ * Returns the text unchanged; declaration extraction is handled by the chunker.
+ *
+ * @param content - File content as buffer
+ * @param filePath - File path (for language detection)
+ * @returns Parsed document with content, line count and language
+ */
+export async function parseCode(content: Buffer, filePath: string): Promise<ParsedDocument> {
+  const text = content.toString('utf-8');
+
+  return {
+    content: text,
+    metadata: {
+      lines: text.split('\n').length,
+      language: getLanguage(filePath) ?? undefined,
+    },
+  };
+}
+
+/**
+ * Find declaration start lines (0-based) at one indentation level,
+ * moved up to include attached comments and decorators.
+ */
+function findDeclarationStarts(
+  lines: string[],
+  from: number,
+  to: number,
+  indent: string,
+  declaration: RegExp,
+): number[] {
+  const starts: number[] = [];
+
+  for (let i = from; i < to; i++) {
+    const line = lines[i];
+    if (!line.startsWith(indent) || /^\s/.test(line.slice(indent.length))) continue;
+    if (!declaration.test(line.slice(indent.length))) continue;
+
+    let start = i;
+    while (start > from && ATTACHED_LINE.test(lines[start - 1]) && !starts.includes(start - 1)) {
+      start--;
+    }
+    if (starts.length === 0 || start > starts[starts.length - 1]) {
+      starts.push(start);
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Build sections from start lines (0-based, exclusive `to`), trimming trailing blank lines
+ */
+function toSections(lines: string[], from: number, to: number, starts: number[], spec: LanguageSpec): CodeSection[] {
+  const sections: CodeSection[] = [];
+  const bounds = starts[0] === from ? starts : [from, ...starts];
+
+  for (let k = 0; k < bounds.length; k++) {
+    const start = bounds[k];
+    let end = (bounds[k + 1] ?? to) - 1;
+    while (end > start && lines[end].trim() === '') end--;
+
+    const body = lines.slice(start, end + 1);
+    const declLine = body.find((l) => !ATTACHED_LINE.test(l) && spec.declaration.test(l.trimStart()));
+    const isPreamble = k === 0 && starts[0] !== from;
+
+    sections.push({
+      heading: isPreamble ? null : (declLine ?? body[0]).trim(),
+      startLine: start + 1,
+      endLine: end + 1,
+      content: body.join('\n'),
+    });
+  }
+
+  return sections.filter((s) => s.content.trim() !== '');
+}
+
+/**
+ * Extract declaration sections from source code.
+ *
+ * Splits on top-level declarations (functions, classes, types, ...) with
+ * the doc comments, decorators and attributes directly above each one
+ * attached (Python docstrings are inside the declaration already).
+ * Class-like sections longer than `maxLength` are split again at member
+ * level. Content before the first declaration forms a preamble section.
+ * Line numbers match the source file.
+ *
+ * @param content - Source code
+ * @param language - Language from `getLanguage()`
+ * @param maxLength - Length above which class bodies are split by member
+ * @returns Sections in file order
+ *
+ * @example
+ * ```ts
+ * const sections = extractDeclarations(source, 'typescript', 1800);
+ * // [{ heading: 'export function parse(input: string) {', startLine: 12, endLine: 40, ... }]
+ * ```
+ */
+export function extractDeclarations(content: string, language: string, maxLength: number): CodeSection[] {
+  const spec = LANGUAGES[language];
+  const lines = content.split('\n');
+
+  if (!spec) {
+    return [{ heading: null, startLine: 1, endLine: lines.length, content }];
+  }
+
+  const topLevel = toSections(
+    lines,
+    0,
+    lines.length,
+    findDeclarationStarts(lines, 0, lines.length, '', spec.declaration),
+    spec,
+  );
+  const member = spec.member;
+  if (!member) return topLevel;
+
+  return topLevel.flatMap((section) => {
+    if (section.content.length <= maxLength || !section.heading || !CLASS_LIKE.test(section.heading)) {
+      return [section];
+    }
+
+    // Members are indented one level deeper than the header
+    const from = section.startLine - 1;
+    const to = section.endLine;
+    const bodyLine = lines.slice(from + 1, to).find((l) => l.trim() !== '' && /^\s/.test(l));
+    const indent = bodyLine?.match(/^\s+/)?.[0];
+    if (!indent) return [section];
+
+    const starts = findDeclarationStarts(lines, from + 1, to, indent, member);
+    if (starts.length === 0) return [section];
+
+    return toSections(lines, from, to, starts, { declaration: member }).map((s, i) =>
+      i === 0 ? { ...s, heading: section.heading } : s,
+    );
+  });
+}
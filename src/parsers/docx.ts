@@ -1,13 +1,15 @@
 /**
  * DOCX parser using mammoth
  *
- * Extracts text from Word documents, converting to markdown.
+ * Extracts text from Word documents, converting to markdown via HTML so
+ * tables survive as markdown tables.
  *
  * @module parsers/docx
  */
 
 import mammoth from 'mammoth';
 import type { ParsedDocument } from '../types/index.js';
+import { htmlToText } from './html.js';
 
 /**
  * Parse a DOCX file and extract text as markdown.
@@ -19,8 +21,8 @@ import type { ParsedDocument } from '../types/index.js';
  */
 export async function parseDocx(content: Buffer, _filePath: string): Promise<ParsedDocument> {
   try {
-    // Convert to markdown for better structure preservation
-    const result = await mammoth.convertToMarkdown({ buffer: content });
+    // Convert through HTML: mammoth's markdown output flattens tables
+    const result = await mammoth.convertToHtml({ buffer: content });
 
     if (result.messages.length > 0) {
       // Log warnings but don't fail
@@ -31,7 +33,7 @@ export async function parseDocx(content: Buffer, _filePath: string): Promise<Par
       }
     }
 
-    const text = result.value.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n');
+    const text = htmlToText(result.value);
 
     const lines = text.split('\n').length;
 
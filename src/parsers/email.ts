@@ -0,0 +1,174 @@
+/**
+ * Email parser using postal-mime
+ *
+ * Renders `.eml` messages and `.mbox` archives as markdown: the subject as
+ * a heading, sender and date as header lines, then the body without
+ * quoted replies. Email addresses are always redacted.
+ *
+ * @module parsers/email
+ */
+
+import PostalMime, { type Address, type Email } from 'postal-mime';
+import { EMAIL_DETECTOR, redactPII } from '../privacy/pii.js';
+import type { ParsedDocument, ParsedPart } from '../types/index.js';
+import { htmlToText } from './html.js';
+import { escapeStructure } from './markdown.js';
+
+/** Separator line starting each message of an mbox */
+const MBOX_SEPARATOR = /^From /;
+
+/** Attribution line introducing a quoted reply: `On Tue, 1 Oct 2024, Jane wrote:` */
+const ATTRIBUTION = /\bwrote:\s*$/;
+
+/** Outlook-style reply separator; everything after it is the quoted message */
+const ORIGINAL_MESSAGE = /^\s*-{2,}\s*Original Message\s*-{2,}\s*$/i;
+
+/**
+ * Parse an email message (`.eml`).
+ *
+ * @param content - File content as buffer
+ * @param _filePath - File path (unused)
+ * @returns Parsed document with the rendered message and line count
+ * @throws Error if the message cannot be parsed
+ *
+ * @example
+ * ```ts
+ * const parsed = await parseEml(buffer, 'decision.eml');
+ * // parsed.content === '# Re: Release plan\n\nFrom: Jane Doe <[EMAIL]>\nDate: 2024-10-01T10:00:00.000Z\n\nAgreed.'
+ * ```
+ */
+export async function parseEml(content: Buffer, _filePath: string): Promise<ParsedDocument> {
+  const text = await renderMessage(content);
+
+  return {
+    content: text,
+    metadata: {
+      lines: text.split('\n').length,
+    },
+  };
+}
+
+/**
+ * Parse an mbox archive into one part per message.
+ *
+ * Parts are numbered from 1 in file order. The document content is all
+ * messages, for tools that read a file as a whole. An empty file is an
+ * empty mailbox with no parts. Messages that cannot be parsed are skipped
+ * with a warning, keeping the numbers of the others.
+ *
+ * @param content - File content as buffer
+ * @param filePath - File path (for warnings)
+ * @returns Parsed document with one part per message
+ * @throws Error if a non-empty file holds no messages, or none can be parsed
+ */
+export async function parseMbox(content: Buffer, filePath: string): Promise<ParsedDocument> {
+  const messages = splitMbox(content);
+  if (messages.length === 0) {
+    if (!content.toString('latin1').trim()) {
+      return { content: '', metadata: { lines: 0 }, parts: [] };
+    }
+    throw new Error('Failed to parse mbox: no messages found');
+  }
+
+  const parts: ParsedPart[] = [];
+  for (const [i, message] of messages.entries()) {
+    let text: string;
+    try {
+      text = await renderMessage(message);
+    } catch (error) {
+      console.warn(`Skipping message ${i + 1} of ${filePath}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+    parts.push({ id: String(i + 1), content: text, metadata: { lines: text.split('\n').length } });
+  }
+  if (parts.length === 0) {
+    throw new Error('Failed to parse mbox: no message could be parsed');
+  }
+
+  const text = parts.map((p) => p.content).join('\n\n');
+
+  return {
+    content: text,
+    metadata: {
+      lines: text.split('\n').length,
+    },
+    parts,
+  };
+}
+
+/**
+ * Split an mbox at `From ` separator lines, undoing `>From ` escaping
+ */
+function splitMbox(content: Buffer): Buffer[] {
+  // latin1 keeps bytes as they are, so each message can be decoded with its own charset
+  const lines = content.toString('latin1').split('\n');
+  const messages: string[][] = [];
+
+  for (const [i, line] of lines.entries()) {
+    if (MBOX_SEPARATOR.test(line) && (i === 0 || !lines[i - 1].trim())) {
+      messages.push([]);
+    } else if (messages.length > 0) {
+      messages[messages.length - 1].push(line.replace(/^>(>*From )/, '$1'));
+    }
+  }
+
+  return messages.map((message) => Buffer.from(message.join('\n'), 'latin1'));
+}
+
+/**
+ * Render a message as markdown with its email addresses redacted
+ */
+async function renderMessage(raw: Buffer): Promise<string> {
+  let email: Email;
+  try {
+    email = await PostalMime.parse(raw);
+  } catch (error) {
+    throw new Error(`Failed to parse email: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const body = email.text ?? (email.html ? htmlToText(email.html) : '');
+  const lines = [`# ${email.subject?.trim() || '(no subject)'}`, ''];
+  if (email.from) lines.push(`From: ${formatAddress(email.from)}`);
+  if (email.date) lines.push(`Date: ${email.date}`);
+  lines.push('', ...stripQuotedReplies(body).split('\n').map(escapeStructure));
+
+  return redactPII(lines.join('\n').trim(), [EMAIL_DETECTOR]).text;
+}
+
+/**
+ * Format a sender as `Name <address>`
+ */
+function formatAddress(address: Address): string {
+  if (address.group) {
+    return `${address.name}: ${address.group.map(formatAddress).join(', ')};`;
+  }
+  return address.name ? `${address.name} <${address.address}>` : address.address;
+}
+
+/**
+ * Remove quoted lines (`> ...`) with their attribution lines, and
+ * everything after an `Original Message` separator
+ */
+function stripQuotedReplies(body: string): string {
+  const kept: string[] = [];
+
+  for (const line of body.replace(/\r\n/g, '\n').split('\n')) {
+    if (ORIGINAL_MESSAGE.test(line)) break;
+    if (!line.startsWith('>')) {
+      kept.push(line);
+      continue;
+    }
+
+    while (kept.length > 0 && !kept[kept.length - 1].trim()) kept.pop();
+    const attribution = kept.length > 0 && ATTRIBUTION.test(kept[kept.length - 1]) ? kept.pop() : undefined;
+    // Long attributions wrap: `On Tue, 1 Oct 2024 at 10:00, Jane Doe` / `<jane@example.com> wrote:`
+    if (attribution && !attribution.startsWith('On ') && kept[kept.length - 1]?.startsWith('On ')) {
+      kept.pop();
+    }
+  }
+
+  return kept
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,94 @@
+/**
+ * EPUB parser using jszip and cheerio
+ *
+ * Reads the chapters of an e-book in reading order and converts their
+ * XHTML to text with markdown headings.
+ *
+ * @module parsers/epub
+ */
+
+import { posix } from 'node:path';
+import * as cheerio from 'cheerio';
+import JSZip from 'jszip';
+import type { ParsedDocument } from '../types/index.js';
+import { htmlToText } from './html.js';
+
+/** Media types of spine items that hold chapter text */
+const CHAPTER_TYPES = ['application/xhtml+xml', 'text/html'];
+
+/**
+ * Parse an EPUB file and extract its chapters as markdown-ish text.
+ *
+ * Chapters follow the spine order of the package document (OPF);
+ * chapter headings become `#` headings.
+ *
+ * @param content - File content as buffer
+ * @param _filePath - File path (unused)
+ * @returns Parsed document with chapter text and line count
+ * @throws Error if the file is not a readable EPUB
+ */
+export async function parseEpub(content: Buffer, _filePath: string): Promise<ParsedDocument> {
+  try {
+    const zip = await JSZip.loadAsync(content);
+    const chapters: string[] = [];
+
+    for (const path of await getChapterPaths(zip)) {
+      const file = zip.file(path);
+      if (!file) continue;
+
+      const text = htmlToText(await file.async('string'));
+      if (text) chapters.push(text);
+    }
+
+    const text = chapters.join('\n\n');
+    const lines = text.split('\n').length;
+
+    return {
+      content: text,
+      metadata: {
+        lines,
+      },
+    };
+  } catch (error) {
+    throw new Error(`Failed to parse EPUB: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Resolve the archive paths of chapters in reading order
+ */
+async function getChapterPaths(zip: JSZip): Promise<string[]> {
+  const container = await zip.file('META-INF/container.xml')?.async('string');
+  if (!container) {
+    throw new Error('missing META-INF/container.xml');
+  }
+
+  const opfPath = cheerio.load(container, { xml: true })('rootfile').attr('full-path');
+  const opf = opfPath ? await zip.file(opfPath)?.async('string') : undefined;
+  if (!opfPath || !opf) {
+    throw new Error('missing package document');
+  }
+
+  const $ = cheerio.load(opf, { xml: true });
+  const baseDir = posix.dirname(opfPath);
+  const manifest = new Map<string, { href: string; type: string }>();
+
+  $('manifest > item').each((_i, el) => {
+    const item = $(el);
+    const id = item.attr('id');
+    const href = item.attr('href');
+    if (id && href) {
+      manifest.set(id, { href, type: item.attr('media-type') ?? '' });
+    }
+  });
+
+  const paths: string[] = [];
+  $('spine > itemref').each((_i, el) => {
+    const item = manifest.get($(el).attr('idref') ?? '');
+    if (item && CHAPTER_TYPES.includes(item.type)) {
+      paths.push(posix.join(baseDir, decodeURIComponent(item.href.split('#')[0])));
+    }
+  });
+
+  return paths;
+}
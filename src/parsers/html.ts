@@ -7,21 +7,41 @@
  */
 
 import * as cheerio from 'cheerio';
-import type { AnyNode } from 'domhandler';
+import type { AnyNode, Element } from 'domhandler';
 import type { ParsedDocument } from '../types/index.js';
+import { formatMarkdownTable } from './markdown.js';
 
 /**
  * Parse an HTML file and extract text content.
  *
  * Removes scripts, styles, and hidden elements.
- * Converts headings to markdown format.
+ * Converts headings and tables to markdown format.
  *
  * @param content - File content as buffer
  * @param _filePath - File path (unused)
  * @returns Parsed document with text and line count
  */
 export async function parseHtml(content: Buffer, _filePath: string): Promise<ParsedDocument> {
-  const html = content.toString('utf-8');
+  const text = htmlToText(content.toString('utf-8'));
+  const lines = text.split('\n').length;
+
+  return {
+    content: text,
+    metadata: {
+      lines,
+    },
+  };
+}
+
+/**
+ * Convert HTML markup to text with markdown headings, tables and list markers.
+ *
+ * Shared with parsers of HTML-based formats (EPUB chapters).
+ *
+ * @param html - HTML or XHTML markup
+ * @returns Text with blocks separated by blank lines
+ */
+export function htmlToText(html: string): string {
   const $ = cheerio.load(html);
 
   // Remove script and style elements
@@ -34,15 +54,7 @@ export async function parseHtml(content: Buffer, _filePath: string): Promise<Par
   const body = $('body').length ? $('body') : $.root();
 
   // Get text content with basic structure preservation
-  const text = extractTextWithStructure($, body);
-  const lines = text.split('\n').length;
-
-  return {
-    content: text,
-    metadata: {
-      lines,
-    },
-  };
+  return extractTextWithStructure($, body);
 }
 
 /**
@@ -52,12 +64,24 @@ function extractTextWithStructure($: cheerio.CheerioAPI, element: cheerio.Cheeri
   const blocks: string[] = [];
 
   // Process block elements
-  element.find('h1, h2, h3, h4, h5, h6, p, li, td, th, blockquote, pre, div').each((_i, el) => {
+  element.find('h1, h2, h3, h4, h5, h6, p, li, table, blockquote, pre, div').each((_i, el) => {
     const $el = $(el);
     const tagName = el.tagName?.toLowerCase();
 
     // Skip if already processed as child of another block
-    if ($el.parents('h1, h2, h3, h4, h5, h6, p, li, td, th, blockquote, pre').length > 0) {
+    if ($el.parents('h1, h2, h3, h4, h5, h6, p, li, table, blockquote, pre').length > 0) {
+      return;
+    }
+
+    // Wrapper divs are covered by the blocks inside them
+    if (tagName === 'div' && $el.find('h1, h2, h3, h4, h5, h6, p, li, table, blockquote, pre, div').length > 0) {
+      return;
+    }
+
+    // Keep the cells of each row together
+    if (tagName === 'table') {
+      const table = extractTable($, el);
+      if (table) blocks.push(table);
       return;
     }
 
@@ -91,6 +115,25 @@ function extractTextWithStructure($: cheerio.CheerioAPI, element: cheerio.Cheeri
   return blocks.join('\n\n');
 }
 
+/**
+ * Render a table as a markdown table; the first row is the header
+ */
+function extractTable($: cheerio.CheerioAPI, table: Element): string | null {
+  const rows = $(table)
+    .find('tr')
+    .filter((_i, tr) => $(tr).closest('table').is(table))
+    .toArray()
+    .map((tr) =>
+      $(tr)
+        .children('th, td')
+        .toArray()
+        .map((cell) => $(cell).text().replace(/\s+/g, ' ').trim()),
+    )
+    .filter((row) => row.some(Boolean));
+
+  return rows.length > 0 ? formatMarkdownTable(rows) : null;
+}
+
 /**
  * Extract headings from HTML document.
  *
@@ -2,38 +2,75 @@
  * Parser factory for document processing
  *
  * Routes documents to appropriate parsers based on file extension.
- * Supports markdown, text, HTML, PDF, and DOCX formats.
+ * Supports markdown, reStructuredText, AsciiDoc, text, HTML, PDF, DOCX,
+ * EPUB, ODT, RTF, email (EML, mbox), Jupyter notebooks, source code and
+ * structured data (JSON, YAML, TOML) formats.
  *
  * @module parsers
  */
 
 import { LIMITS } from '../core/constants.js';
-import type { DocumentFormat, ParsedDocument } from '../types/index.js';
+import type { DocumentFormat, ParsedDocument, ParseOptions } from '../types/index.js';
+import { parseAsciidoc } from './asciidoc.js';
+import { getCodeExtensions, parseCode } from './code.js';
 import { parseDocx } from './docx.js';
+import { parseEml, parseMbox } from './email.js';
+import { parseEpub } from './epub.js';
 import { parseHtml } from './html.js';
 import { parseMarkdown } from './markdown.js';
+import { parseNotebook } from './notebook.js';
+import { parseOdt } from './odt.js';
 import { parsePdf } from './pdf.js';
+import { parseRst } from './rst.js';
+import { parseRtf } from './rtf.js';
+import { parseJson, parseToml, parseYaml } from './structured.js';
 import { parseText } from './text.js';
 
-export type Parser = (content: Buffer, filePath: string) => Promise<ParsedDocument>;
+export type Parser = (content: Buffer, filePath: string, options?: ParseOptions) => Promise<ParsedDocument>;
 
 const PARSERS: Record<DocumentFormat, Parser> = {
   md: parseMarkdown,
+  rst: parseRst,
+  adoc: parseAsciidoc,
   txt: parseText,
   html: parseHtml,
   pdf: parsePdf,
   docx: parseDocx,
+  epub: parseEpub,
+  odt: parseOdt,
+  rtf: parseRtf,
+  eml: parseEml,
+  mbox: parseMbox,
+  ipynb: parseNotebook,
+  code: parseCode,
+  json: parseJson,
+  yaml: parseYaml,
+  toml: parseToml,
 };
 
 const EXTENSION_MAP: Record<string, DocumentFormat> = {
   '.md': 'md',
   '.markdown': 'md',
+  '.rst': 'rst',
+  '.adoc': 'adoc',
+  '.asciidoc': 'adoc',
   '.txt': 'txt',
   '.text': 'txt',
   '.html': 'html',
   '.htm': 'html',
   '.pdf': 'pdf',
   '.docx': 'docx',
+  '.epub': 'epub',
+  '.odt': 'odt',
+  '.rtf': 'rtf',
+  '.eml': 'eml',
+  '.mbox': 'mbox',
+  '.ipynb': 'ipynb',
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+  ...Object.fromEntries(getCodeExtensions().map((ext) => [ext, 'code' as const])),
 };
 
 /**
@@ -45,7 +82,7 @@ const EXTENSION_MAP: Record<string, DocumentFormat> = {
  * @example
  * ```ts
  * getFormat("docs/api.md") // "md"
- * getFormat("data.json")   // null
+ * getFormat("data.csv")    // null
  * ```
  */
 export function getFormat(filePath: string): DocumentFormat | null {
@@ -67,7 +104,8 @@ export function isSupported(filePath: string): boolean {
 /**
  * Get parser function for a document format.
  *
- * @param format - Document format (md, txt, html, pdf, docx)
+ * @param format - Document format (md, rst, adoc, txt, html, pdf, docx, epub, odt, rtf, eml, mbox, ipynb,
+ *   code, json, yaml, toml)
  * @returns Parser function for the format
  */
 export function getParser(format: DocumentFormat): Parser {
@@ -79,6 +117,7 @@ export function getParser(format: DocumentFormat): Parser {
  *
  * @param content - File content as buffer
  * @param filePath - Path to the file (for format detection)
+ * @param options - Parser options (e.g. notebook outputs)
  * @returns Parsed document with text and metadata
  * @throws Error if format unsupported or file too large
  *
@@ -89,7 +128,11 @@ export function getParser(format: DocumentFormat): Parser {
  * console.log(parsed.content);
  * ```
  */
-export async function parseDocument(content: Buffer, filePath: string): Promise<ParsedDocument> {
+export async function parseDocument(
+  content: Buffer,
+  filePath: string,
+  options?: ParseOptions,
+): Promise<ParsedDocument> {
   const format = getFormat(filePath);
 
   if (!format) {
@@ -101,7 +144,7 @@ export async function parseDocument(content: Buffer, filePath: string): Promise<
   }
 
   const parser = getParser(format);
-  return parser(content, filePath);
+  return parser(content, filePath, options);
 }
 
 /**
@@ -122,8 +165,17 @@ export function getSupportedGlobs(): string[] {
   return Object.keys(EXTENSION_MAP).map((ext) => `**/*${ext}`);
 }
 
+export { parseAsciidoc } from './asciidoc.js';
+export { getLanguage, parseCode } from './code.js';
 export { parseDocx } from './docx.js';
-export { parseHtml } from './html.js';
+export { parseEml, parseMbox } from './email.js';
+export { parseEpub } from './epub.js';
+export { htmlToText, parseHtml } from './html.js';
 export { parseMarkdown } from './markdown.js';
+export { parseNotebook } from './notebook.js';
+export { parseOdt } from './odt.js';
 export { parsePdf } from './pdf.js';
+export { parseRst } from './rst.js';
+export { parseRtf } from './rtf.js';
+export { parseJson, parseToml, parseYaml } from './structured.js';
 export { parseText } from './text.js';
@@ -76,6 +76,19 @@ export function isCodeBlockDelimiter(line: string): boolean {
   return line.trim().startsWith('```');
 }
 
+/**
+ * Escape a line so `extractSections()` reads it as text, not as a heading
+ * or code block delimiter.
+ *
+ * Used by parsers that convert other markup to markdown headings.
+ *
+ * @param line - Line of converted text
+ * @returns Line with a leading `#` or ``` backslash-escaped
+ */
+export function escapeStructure(line: string): string {
+  return /^(#{1,6}\s|\s*```)/.test(line) ? line.replace(/^(\s*)/, '$1\\') : line;
+}
+
 /**
  * Extract sections from markdown based on headings.
  *
@@ -163,3 +176,54 @@ export function extractSections(content: string): Array<{
 
   return sections;
 }
+
+/** Markdown table row: `| a | b |` */
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+
+/** Separator below a table's header row: `| --- | :-: |` */
+const TABLE_SEPARATOR = /^\s*\|(\s*:?-+:?\s*\|)+\s*$/;
+
+/**
+ * Render rows of cells as a markdown table.
+ *
+ * The first row is the header. Short rows are padded with empty cells,
+ * and `|` in cell text is escaped.
+ *
+ * @param rows - Table rows, each an array of cell texts
+ * @returns Markdown table, one line per row plus the separator line
+ *
+ * @example
+ * ```ts
+ * formatMarkdownTable([['Code', 'Meaning'], ['401', 'Unauthorized']]);
+ * // '| Code | Meaning |\n| --- | --- |\n| 401 | Unauthorized |'
+ * ```
+ */
+export function formatMarkdownTable(rows: string[][]): string {
+  const width = Math.max(...rows.map((row) => row.length));
+  const formatRow = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (row[i] ?? '').replace(/\|/g, '\\|')).join(' | ')} |`;
+
+  return [formatRow(rows[0]), `|${' --- |'.repeat(width)}`, ...rows.slice(1).map(formatRow)].join('\n');
+}
+
+/**
+ * Find markdown tables: a header row, a separator row, then body rows.
+ *
+ * @param lines - Content lines
+ * @returns Line index ranges (0-based, inclusive) of each table; the
+ *   header is the first two lines of the range
+ */
+export function findTables(lines: string[]): Array<{ start: number; end: number }> {
+  const tables: Array<{ start: number; end: number }> = [];
+
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (!TABLE_ROW.test(lines[i]) || !TABLE_SEPARATOR.test(lines[i + 1])) continue;
+
+    let end = i + 1;
+    while (end + 1 < lines.length && TABLE_ROW.test(lines[end + 1])) end++;
+    tables.push({ start: i, end });
+    i = end;
+  }
+
+  return tables;
+}
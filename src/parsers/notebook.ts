@@ -0,0 +1,137 @@
+/**
+ * Jupyter notebook parser
+ *
+ * Renders notebook cells as markdown: markdown cells as-is, code cells as
+ * fenced blocks (optionally followed by their text outputs). Records the
+ * line each cell starts on, so chunks can cite cell numbers.
+ *
+ * @module parsers/notebook
+ */
+
+import { LIMITS } from '../core/constants.js';
+import type { ParsedDocument, ParseOptions } from '../types/index.js';
+
+/** Subset of the nbformat 4 cell structure */
+interface NotebookCell {
+  cell_type: 'markdown' | 'code' | 'raw';
+  source: string | string[];
+  outputs?: NotebookOutput[];
+}
+
+interface NotebookOutput {
+  output_type: 'stream' | 'execute_result' | 'display_data' | 'error';
+  text?: string | string[];
+  data?: Record<string, string | string[]>;
+  ename?: string;
+  evalue?: string;
+}
+
+interface Notebook {
+  cells: NotebookCell[];
+  metadata?: {
+    kernelspec?: { language?: string };
+    language_info?: { name?: string };
+  };
+}
+
+/**
+ * Join a multi-line notebook string (stored as a string or a list of lines)
+ */
+function joinSource(source: string | string[] | undefined): string {
+  return (Array.isArray(source) ? source.join('') : (source ?? '')).replace(/\r\n/g, '\n').replace(/\n+$/, '');
+}
+
+/**
+ * Text of a code cell output: streams, `text/plain` results and errors
+ */
+function outputText(output: NotebookOutput): string {
+  switch (output.output_type) {
+    case 'stream':
+      return joinSource(output.text);
+    case 'execute_result':
+    case 'display_data':
+      return joinSource(output.data?.['text/plain']);
+    case 'error':
+      return `${output.ename ?? 'Error'}: ${output.evalue ?? ''}`.trim();
+    default:
+      return '';
+  }
+}
+
+/**
+ * Render one cell as markdown lines
+ */
+function renderCell(cell: NotebookCell, language: string, includeOutputs: boolean): string[] {
+  const source = joinSource(cell.source);
+
+  if (cell.cell_type !== 'code') {
+    return source ? source.split('\n') : [];
+  }
+
+  const lines = source ? [`\`\`\`${language}`, ...source.split('\n'), '```'] : [];
+  if (includeOutputs) {
+    let text = (cell.outputs ?? []).map(outputText).filter(Boolean).join('\n');
+    if (text.length > LIMITS.MAX_NOTEBOOK_OUTPUT_LENGTH) {
+      text = `${text.slice(0, LIMITS.MAX_NOTEBOOK_OUTPUT_LENGTH)}...`;
+    }
+    if (text) lines.push('', 'Output:', '```', ...text.split('\n'), '```');
+  }
+  return lines;
+}
+
+/**
+ * Parse a Jupyter notebook (nbformat 4).
+ *
+ * Cells are separated by blank lines; `page_breaks` holds the line each
+ * cell starts on (index 0 = cell 1), so page numbers of chunks are cell
+ * numbers. Empty cells keep their number but add no lines.
+ *
+ * @param content - File content as buffer
+ * @param _filePath - File path (unused)
+ * @param options - `notebookOutputs` to include text outputs of code cells
+ * @returns Parsed document with rendered cells, line count and cell breaks
+ * @throws Error if the file is not a notebook
+ *
+ * @example
+ * ```ts
+ * const parsed = await parseNotebook(buffer, 'analysis.ipynb', { notebookOutputs: true });
+ * // parsed.metadata.page_breaks => [1, 4, 9] (cells 1-3)
+ * ```
+ */
+export async function parseNotebook(
+  content: Buffer,
+  _filePath: string,
+  options: ParseOptions = {},
+): Promise<ParsedDocument> {
+  let notebook: Notebook;
+  try {
+    notebook = JSON.parse(content.toString('utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid notebook JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!Array.isArray(notebook?.cells)) {
+    throw new Error('Invalid notebook: no cells (only nbformat 4 is supported)');
+  }
+
+  const language = notebook.metadata?.kernelspec?.language ?? notebook.metadata?.language_info?.name ?? '';
+  const lines: string[] = [];
+  const cellBreaks: number[] = [];
+
+  for (const cell of notebook.cells) {
+    const cellLines = renderCell(cell, language, options.notebookOutputs ?? false);
+    // A cell starts after the blank line separating it from the previous one
+    cellBreaks.push(lines.length > 0 ? lines.length + 2 : 1);
+    if (cellLines.length === 0) continue;
+    if (lines.length > 0) lines.push('');
+    lines.push(...cellLines);
+  }
+
+  return {
+    content: lines.join('\n'),
+    metadata: {
+      lines: lines.length,
+      pages: notebook.cells.length,
+      page_breaks: cellBreaks,
+    },
+  };
+}
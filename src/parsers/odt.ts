@@ -0,0 +1,133 @@
+/**
+ * ODT parser using jszip and cheerio
+ *
+ * Extracts text from OpenDocument text files, converting headings and
+ * list items to markdown.
+ *
+ * @module parsers/odt
+ */
+
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import JSZip from 'jszip';
+import type { ParsedDocument } from '../types/index.js';
+
+/** Built-in heading paragraph styles (`Heading 1` is stored as `Heading_20_1`) */
+const HEADING_STYLE = /^Heading_20_(\d)$/;
+
+/**
+ * Parse an ODT file and extract text as markdown.
+ *
+ * `text:h` headings keep their outline level; paragraphs using a
+ * `Heading N` style (directly or through an automatic style) are headings
+ * too. Footnotes and annotations are left out of the running text.
+ *
+ * @param content - File content as buffer
+ * @param _filePath - File path (unused)
+ * @returns Parsed document with markdown content and line count
+ * @throws Error if ODT parsing fails
+ */
+export async function parseOdt(content: Buffer, _filePath: string): Promise<ParsedDocument> {
+  try {
+    const zip = await JSZip.loadAsync(content);
+    const xml = await zip.file('content.xml')?.async('string');
+    if (!xml) {
+      throw new Error('missing content.xml');
+    }
+
+    const $ = cheerio.load(xml, { xml: true });
+    const headingStyles = getHeadingStyles($);
+    const blocks: string[] = [];
+
+    $('text\\:h, text\\:p').each((_i, el) => {
+      const $el = $(el);
+
+      // Notes and annotations are not part of the running text
+      if ($el.parents('text\\:note, office\\:annotation').length > 0) return;
+
+      const text = inlineText(el.children)
+        .replace(/[ \t]+/g, ' ')
+        .trim();
+      if (!text) return;
+
+      const level =
+        el.tagName === 'text:h'
+          ? Number.parseInt($el.attr('text:outline-level') ?? '1', 10)
+          : headingStyles.get($el.attr('text:style-name') ?? '');
+
+      if (level) {
+        blocks.push(`${'#'.repeat(Math.min(Math.max(level, 1), 6))} ${text}`);
+      } else if ($el.parent().is('text\\:list-item') && $el.prev().length === 0) {
+        blocks.push(`- ${text}`);
+      } else {
+        blocks.push(text);
+      }
+    });
+
+    const text = blocks.join('\n\n');
+    const lines = text.split('\n').length;
+
+    return {
+      content: text,
+      metadata: {
+        lines,
+      },
+    };
+  } catch (error) {
+    throw new Error(`Failed to parse ODT: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Map automatic paragraph styles derived from `Heading N` styles to their level
+ */
+function getHeadingStyles($: cheerio.CheerioAPI): Map<string, number> {
+  const styles = new Map<string, number>();
+
+  $('style\\:style').each((_i, el) => {
+    const $el = $(el);
+    const name = $el.attr('style:name');
+    const heading = ($el.attr('style:parent-style-name') ?? '').match(HEADING_STYLE);
+    if (name && heading) {
+      styles.set(name, Number.parseInt(heading[1], 10));
+    }
+  });
+
+  for (let level = 1; level <= 6; level++) {
+    styles.set(`Heading_20_${level}`, level);
+  }
+
+  return styles;
+}
+
+/**
+ * Collect the text of a paragraph; spaces, tabs and line breaks become spaces
+ */
+function inlineText(nodes: AnyNode[]): string {
+  let text = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      text += node.data;
+      continue;
+    }
+    if (node.type !== 'tag') continue;
+
+    switch (node.tagName) {
+      case 'text:s':
+      case 'text:tab':
+      case 'text:line-break':
+        text += ' ';
+        break;
+      case 'text:note':
+      case 'office:annotation':
+      case 'draw:frame':
+        // Not running text; paragraphs of text boxes are blocks of their own
+        break;
+      default:
+        text += inlineText(node.children);
+    }
+  }
+
+  return text;
+}
@@ -0,0 +1,409 @@
+/**
+ * OpenAPI and AsyncAPI spec parser
+ *
+ * Renders an API spec as markdown with one section per operation
+ * (method and path, summary, parameters, request body, responses),
+ * message and schema, so each endpoint becomes its own chunk. Used by the
+ * JSON and YAML parsers when the root has an `openapi`, `swagger` or
+ * `asyncapi` key.
+ *
+ * @module parsers/openapi
+ */
+
+import { type Document, isMap, isScalar, isSeq, type LineCounter, type Node, type YAMLMap } from 'yaml';
+
+const SPEC_KEYS = ['openapi', 'swagger', 'asyncapi'];
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/** AsyncAPI 2 channel operations */
+const CHANNEL_OPERATIONS = ['publish', 'subscribe'];
+
+export interface RenderedSpec {
+  content: string;
+  /** Source line of each content line (index 0 = line 1) */
+  lineMap: number[];
+}
+
+/**
+ * Check whether a parsed root node is an OpenAPI, Swagger or AsyncAPI spec.
+ *
+ * @param root - Root node of a YAML/JSON document
+ * @returns True if the root is a map with a spec version key
+ */
+export function isApiSpec(root: unknown): root is YAMLMap {
+  return isMap(root) && SPEC_KEYS.some((key) => root.has(key));
+}
+
+/**
+ * Render an API spec as markdown sections.
+ *
+ * Sections: spec info, one `## METHOD /path` per operation (webhooks and
+ * AsyncAPI channel operations included), then one per message and schema.
+ * Each section ends with a blank line mapped to the last line of its
+ * source node, so chunk line ranges cover the whole operation.
+ *
+ * @param doc - Parsed document (`isApiSpec(doc.contents)` must be true)
+ * @param text - Source text
+ * @param lineCounter - Line counter used when parsing
+ * @returns Markdown content and line map
+ *
+ * @example
+ * ```ts
+ * const { content } = renderApiSpec(doc, text, lineCounter);
+ * // "# Pet Store\n...\n## GET /pets/{petId}\n\nInfo for a specific pet\n..."
+ * ```
+ */
+export function renderApiSpec(doc: Document, text: string, lineCounter: LineCounter): RenderedSpec {
+  const root = doc.contents as YAMLMap;
+  const lines: string[] = [];
+  const lineMap: number[] = [];
+
+  const startOf = (node: unknown): number => lineCounter.linePos(rangeOf(node)?.[0] ?? 0).line;
+  const endOf = (node: unknown): number => {
+    const range = rangeOf(node);
+    if (!range) return 1;
+    let end = range[1];
+    while (end > range[0] && /\s/.test(text[end - 1])) end--;
+    return lineCounter.linePos(Math.max(end - 1, 0)).line;
+  };
+  const push = (value: string, line: number) => {
+    for (const part of value.split('\n')) {
+      // Headings inside descriptions would split the section
+      lines.push(part.replace(/^(#{1,6}\s)/, '\\$1'));
+      lineMap.push(line);
+    }
+  };
+  const heading = (title: string, line: number) => {
+    lines.push(title, '');
+    lineMap.push(line, line);
+  };
+  const end = (node: unknown) => push('', endOf(node));
+
+  // Spec info
+  const info = child(root, 'info');
+  const specKey = SPEC_KEYS.find((key) => root.has(key)) as string;
+  heading(`# ${scalar(child(info, 'title')) ?? 'API'}`, startOf(info ?? child(root, specKey)));
+  const version = scalar(child(info, 'version'));
+  push(
+    `${specKey === 'swagger' ? 'Swagger' : specKey === 'asyncapi' ? 'AsyncAPI' : 'OpenAPI'} ${scalar(child(root, specKey))}`,
+    startOf(child(root, specKey)),
+  );
+  if (version) push(`Version: ${version}`, startOf(child(info, 'version')));
+  pushText(push, child(info, 'description'), startOf);
+  const servers = child(root, 'servers');
+  if (isSeq(servers) || isMap(servers)) {
+    push('Servers:', startOf(servers));
+    for (const [name, server] of members(servers)) {
+      const url = scalar(child(server, 'url')) ?? scalar(child(server, 'host')) ?? name;
+      const description = scalar(child(server, 'description'));
+      push(`- ${url}${description ? `: ${description}` : ''}`, startOf(server));
+    }
+  }
+  push('', Math.max(endOf(info), servers ? endOf(servers) : 1));
+
+  // HTTP operations
+  const pathGroups: Array<[string, unknown]> = [
+    ['', child(root, 'paths')],
+    ['webhook ', child(root, 'webhooks')],
+  ];
+  for (const [prefix, group] of pathGroups) {
+    for (const [path, item] of members(group)) {
+      const shared = child(item, 'parameters');
+      for (const [method, operation] of members(item)) {
+        if (!HTTP_METHODS.includes(method)) continue;
+        heading(`## ${method.toUpperCase()} ${prefix}${path}`, startOf(keyNode(item, method)));
+        renderOperation(push, root, operation, shared, startOf);
+        end(operation);
+      }
+    }
+  }
+
+  // AsyncAPI 2 channels
+  const channels = child(root, 'channels');
+  for (const [name, channel] of members(channels)) {
+    for (const [action, operation] of members(channel)) {
+      if (!CHANNEL_OPERATIONS.includes(action)) continue;
+      heading(`## ${action.toUpperCase()} ${name}`, startOf(keyNode(channel, action)));
+      renderOperation(push, root, operation, child(channel, 'parameters'), startOf);
+      end(operation);
+    }
+  }
+
+  // AsyncAPI 3 operations
+  for (const [name, operation] of members(child(root, 'operations'))) {
+    const action = scalar(child(operation, 'action')) ?? 'operation';
+    heading(`## ${action.toUpperCase()} ${name}`, startOf(keyNode(child(root, 'operations'), name)));
+    const channel = resolve(root, child(operation, 'channel'));
+    const address = scalar(child(channel, 'address'));
+    if (address) push(`Channel: ${address}`, startOf(child(operation, 'channel')));
+    renderOperation(push, root, operation, child(channel, 'parameters'), startOf);
+    end(operation);
+  }
+
+  // Messages and schemas
+  const components = child(root, 'components');
+  const definitions: Array<[string, unknown]> = [
+    ['Message', child(components, 'messages')],
+    ['Schema', child(components, 'schemas')],
+    ['Schema', child(root, 'definitions')],
+  ];
+  for (const [kind, group] of definitions) {
+    for (const [name, definition] of members(group)) {
+      heading(`## ${kind}: ${name}`, startOf(keyNode(group, name)));
+      if (kind === 'Message') {
+        renderMessage(push, root, definition, startOf);
+      } else {
+        renderSchema(push, root, definition, startOf);
+      }
+      end(definition);
+    }
+  }
+
+  return { content: lines.join('\n'), lineMap };
+}
+
+type Push = (value: string, line: number) => void;
+type StartOf = (node: unknown) => number;
+
+/**
+ * Render an operation: summary, description, parameters, request body, messages and responses
+ */
+function renderOperation(push: Push, root: YAMLMap, operation: unknown, shared: unknown, startOf: StartOf): void {
+  for (const key of ['summary', 'description']) {
+    pushText(push, child(operation, key), startOf);
+  }
+
+  const operationId = scalar(child(operation, 'operationId'));
+  if (operationId) push(`Operation ID: ${operationId}`, startOf(child(operation, 'operationId')));
+
+  const tags = child(operation, 'tags');
+  if (isSeq(tags)) {
+    push(`Tags: ${tags.items.map((tag) => scalar(tag) ?? scalar(child(tag, 'name'))).join(', ')}`, startOf(tags));
+  }
+
+  if (scalar(child(operation, 'deprecated')) === 'true') {
+    push('Deprecated', startOf(child(operation, 'deprecated')));
+  }
+
+  // Parameters shared by the path or channel are cited at the operation
+  const parameters = [
+    ...members(shared).map(([name, parameter]) => ({ name, parameter, line: startOf(operation) })),
+    ...members(child(operation, 'parameters')).map(([name, parameter]) => ({
+      name,
+      parameter,
+      line: startOf(parameter),
+    })),
+  ];
+  if (parameters.length > 0) {
+    push('Parameters:', parameters[0].line);
+    for (const { name, parameter, line } of parameters) {
+      push(`- ${describeParameter(root, name, parameter)}`, line);
+    }
+  }
+
+  const requestBody = child(operation, 'requestBody');
+  const body = resolve(root, requestBody);
+  if (body) {
+    const description = scalar(child(body, 'description'));
+    const types = describeContent(root, child(body, 'content'));
+    push(`Request body:${description ? ` ${description}` : ''}${types ? ` (${types})` : ''}`, startOf(requestBody));
+  }
+
+  const message = child(operation, 'message') ?? child(operation, 'messages');
+  if (message) {
+    const oneOf = child(message, 'oneOf');
+    const messages = isSeq(message) ? message.items : isSeq(oneOf) ? oneOf.items : [message];
+    push(`Message: ${messages.map((m) => messageName(root, m)).join(', ')}`, startOf(message));
+  }
+
+  const responses = child(operation, 'responses');
+  if (isMap(responses)) {
+    push('Responses:', startOf(responses));
+    for (const [status, response] of members(responses)) {
+      const resolved = resolve(root, response);
+      const description = scalar(child(resolved, 'description'));
+      const types = describeContent(root, child(resolved, 'content')) || schemaLabel(root, child(resolved, 'schema'));
+      push(`- ${status}${description ? `: ${description}` : ''}${types ? ` (${types})` : ''}`, startOf(response));
+    }
+  }
+}
+
+/**
+ * Render an AsyncAPI message: title, summary, description and payload
+ */
+function renderMessage(push: Push, root: YAMLMap, message: unknown, startOf: StartOf): void {
+  const resolved = resolve(root, message);
+  for (const key of ['title', 'summary', 'description']) {
+    pushText(push, child(resolved, key), startOf);
+  }
+  const payload = child(resolved, 'payload');
+  if (payload) {
+    push(`Payload: ${schemaLabel(root, payload) || 'object'}`, startOf(payload));
+    renderProperties(push, root, resolve(root, payload), startOf);
+  }
+}
+
+/**
+ * Render a schema: description, type and properties
+ */
+function renderSchema(push: Push, root: YAMLMap, schema: unknown, startOf: StartOf): void {
+  pushText(push, child(schema, 'description'), startOf);
+  const label = schemaLabel(root, schema);
+  if (label) push(`Type: ${label}`, startOf(schema));
+
+  const enumValues = child(schema, 'enum');
+  if (isSeq(enumValues)) {
+    push(`Values: ${enumValues.items.map((v) => scalar(v)).join(', ')}`, startOf(enumValues));
+  }
+
+  renderProperties(push, root, schema, startOf);
+}
+
+/**
+ * Render `- name (type, required): description` lines for object properties
+ */
+function renderProperties(push: Push, root: YAMLMap, schema: unknown, startOf: StartOf): void {
+  const properties = child(schema, 'properties');
+  if (!isMap(properties)) return;
+
+  const required = child(schema, 'required');
+  const requiredNames = isSeq(required) ? required.items.map((item) => scalar(item)) : [];
+
+  push('Properties:', startOf(properties));
+  for (const [name, property] of members(properties)) {
+    const details = [schemaLabel(root, property), requiredNames.includes(name) ? 'required' : ''].filter(Boolean);
+    const description = scalar(child(resolve(root, property), 'description'));
+    push(
+      `- ${name}${details.length > 0 ? ` (${details.join(', ')})` : ''}${description ? `: ${description}` : ''}`,
+      startOf(property),
+    );
+  }
+}
+
+/**
+ * Describe a parameter as `name (in, type, required): description`
+ */
+function describeParameter(root: YAMLMap, key: string, parameter: unknown): string {
+  const resolved = resolve(root, parameter);
+  // Sequence items are keyed by index; AsyncAPI channel parameters by name
+  const name = scalar(child(resolved, 'name')) ?? (/^\d+$/.test(key) ? schemaLabel(root, parameter) : key);
+  const details = [
+    scalar(child(resolved, 'in')),
+    schemaLabel(root, child(resolved, 'schema')) || scalar(child(resolved, 'type')),
+    scalar(child(resolved, 'required')) === 'true' ? 'required' : undefined,
+  ].filter(Boolean);
+  const description = scalar(child(resolved, 'description'));
+
+  return `${name || 'parameter'}${details.length > 0 ? ` (${details.join(', ')})` : ''}${description ? `: ${description}` : ''}`;
+}
+
+/**
+ * Describe request/response content as `application/json: Pet`
+ */
+function describeContent(root: YAMLMap, content: unknown): string {
+  return members(content)
+    .map(([type, media]) => {
+      const label = schemaLabel(root, child(media, 'schema'));
+      return label ? `${type}: ${label}` : type;
+    })
+    .join(', ');
+}
+
+/**
+ * Short schema description: `$ref` target name, `array of X`, or the type
+ */
+function schemaLabel(root: YAMLMap, schema: unknown): string {
+  const ref = scalar(child(schema, '$ref'));
+  if (ref) return ref.split('/').pop() ?? ref;
+
+  const type = scalar(child(schema, 'type'));
+  if (type === 'array') {
+    const items = schemaLabel(root, child(schema, 'items'));
+    return items ? `array of ${items}` : 'array';
+  }
+
+  for (const combinator of ['oneOf', 'anyOf', 'allOf']) {
+    const options = child(schema, combinator);
+    if (isSeq(options)) {
+      return `${combinator} ${options.items.map((option) => schemaLabel(root, option) || 'object').join(', ')}`;
+    }
+  }
+
+  return type ?? '';
+}
+
+/**
+ * Name of a message: `$ref` target, `name` or `title`
+ */
+function messageName(root: YAMLMap, message: unknown): string {
+  const ref = scalar(child(message, '$ref'));
+  if (ref) return ref.split('/').pop() ?? ref;
+  const resolved = resolve(root, message);
+  return scalar(child(resolved, 'name')) ?? scalar(child(resolved, 'title')) ?? 'message';
+}
+
+/**
+ * Push a text value (e.g. a description) if present
+ */
+function pushText(push: Push, node: unknown, startOf: StartOf): void {
+  const value = scalar(node);
+  if (value?.trim()) push(value.trim(), startOf(node));
+}
+
+/**
+ * Follow a local `$ref` (`#/components/...`); other values are returned as-is
+ */
+function resolve(root: YAMLMap, node: unknown, depth = 0): unknown {
+  const ref = scalar(child(node, '$ref'));
+  if (!ref?.startsWith('#/') || depth > 10) return node;
+
+  let target: unknown = root;
+  for (const part of ref.slice(2).split('/')) {
+    target = child(target, part.replace(/~1/g, '/').replace(/~0/g, '~'));
+    if (target === undefined) return node;
+  }
+  return resolve(root, target, depth + 1);
+}
+
+/**
+ * Value node of a map key
+ */
+function child(node: unknown, key: string): Node | undefined {
+  return isMap(node) ? (node.get(key, true) as Node | undefined) : undefined;
+}
+
+/**
+ * Key node of a map key (for the line the key is on)
+ */
+function keyNode(node: unknown, key: string): Node | undefined {
+  if (!isMap(node)) return undefined;
+  return node.items.find((pair) => isScalar(pair.key) && String(pair.key.value) === key)?.key as Node | undefined;
+}
+
+/**
+ * Entries of a map (`[key, value]`) or sequence (`[index, item]`)
+ */
+function members(node: unknown): Array<[string, unknown]> {
+  if (isMap(node)) {
+    return node.items.map((pair) => [isScalar(pair.key) ? String(pair.key.value) : String(pair.key), pair.value]);
+  }
+  if (isSeq(node)) {
+    return node.items.map((item, i) => [String(i), item]);
+  }
+  return [];
+}
+
+/**
+ * String value of a scalar node
+ */
+function scalar(node: unknown): string | undefined {
+  return isScalar(node) && node.value !== null ? String(node.value) : undefined;
+}
+
+/**
+ * Source offsets of a node, if it has any
+ */
+function rangeOf(node: unknown): [number, number, number] | undefined {
+  return (node as Node | undefined)?.range ?? undefined;
+}
@@ -2,35 +2,202 @@
  * PDF parser using pdf-parse
  *
  * Extracts text content and metadata from PDF files.
+ * Records page boundaries so chunks can cite page numbers, and renders
+ * text laid out in aligned columns as markdown tables.
  *
  * @module parsers/pdf
  */
 
 import pdf from 'pdf-parse';
 import type { ParsedDocument } from '../types/index.js';
+import { formatMarkdownTable } from './markdown.js';
+
+/** Horizontal gap between text items, in em, that separates table cells */
+const CELL_GAP_EM = 1;
+
+/** Text item of a page; `transform[4]`/`transform[5]` are its x/y position */
+interface TextItem {
+  str: string;
+  transform: number[];
+  width?: number;
+}
+
+/** Text of one table cell candidate and its horizontal extent */
+interface Cell {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Render text items of a page, starting a new line whenever the baseline changes.
+ *
+ * Mirrors the default pdf-parse page renderer, except that runs of two or
+ * more lines whose cells (text separated by wide gaps) line up in columns
+ * are rendered as a markdown table.
+ *
+ * @param items - Text items in content order
+ * @returns Page text
+ *
+ * @example
+ * ```ts
+ * // "Code    Meaning" / "401     Unauthorized" laid out in two columns
+ * renderPageText(items) // "| Code | Meaning |\n| --- | --- |\n| 401 | Unauthorized |"
+ * ```
+ */
+export function renderPageText(items: TextItem[]): string {
+  const lines: TextItem[][] = [];
+  let lastY: number | undefined;
+
+  for (const item of items) {
+    const y = item.transform[5];
+    if (lastY !== y) lines.push([]);
+    lines[lines.length - 1].push(item);
+    lastY = y;
+  }
+
+  const cells = lines.map(splitCells);
+  const output: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    let end = i + 1;
+    while (end < lines.length && cells[i].length >= 2 && columnsAlign(cells[end - 1], cells[end])) end++;
+
+    if (end - i >= 2) {
+      output.push(formatMarkdownTable(cells.slice(i, end).map((row) => row.map((cell) => cell.text))));
+    } else {
+      output.push(lines[i].map((item) => item.str).join(''));
+    }
+    i = end;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Split a line into cells wherever the gap between items exceeds `CELL_GAP_EM`
+ */
+function splitCells(line: TextItem[]): Cell[] {
+  const cells: Cell[] = [];
+
+  for (const item of line) {
+    const start = item.transform[4];
+    const end = start + (item.width ?? 0);
+    const last = cells[cells.length - 1];
+    const fontSize = Math.abs(item.transform[3]) || Math.abs(item.transform[0]);
+
+    if (last && (!item.str.trim() || start - last.end <= fontSize * CELL_GAP_EM)) {
+      last.text += item.str;
+      last.end = Math.max(last.end, end);
+    } else if (item.str.trim() || last) {
+      cells.push({ text: item.str, start, end });
+    }
+  }
+
+  return cells.map((cell) => ({ ...cell, text: cell.text.trim() })).filter((cell) => cell.text);
+}
+
+/**
+ * Whether two lines have the same number of cells, each overlapping the
+ * column of the cell above it
+ */
+function columnsAlign(above: Cell[], below: Cell[]): boolean {
+  return (
+    above.length === below.length && below.every((cell, i) => cell.start <= above[i].end && cell.end >= above[i].start)
+  );
+}
+
+/**
+ * Normalize line endings and collapse runs of blank lines
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Extract normalized text for each page in a range.
+ *
+ * @param content - File content as buffer
+ * @param startPage - First page to extract (1-based)
+ * @param endPage - Last page to extract (default: last page)
+ * @returns Page texts (index 0 = `startPage`) and total page count
+ */
+async function extractPages(
+  content: Buffer,
+  startPage = 1,
+  endPage?: number,
+): Promise<{ pages: string[]; numpages: number }> {
+  const pageTexts = new Map<number, string>();
+
+  const data = await pdf(content, {
+    max: endPage ?? 0,
+    pagerender: async (pageData) => {
+      if (pageData.pageNumber < startPage) {
+        return '';
+      }
+      const textContent = await pageData.getTextContent();
+      const text = normalizeText(renderPageText(textContent.items)).trim();
+      pageTexts.set(pageData.pageNumber, text);
+      return text;
+    },
+  });
+
+  const lastPage = Math.min(endPage ?? data.numpages, data.numpages);
+  const pages: string[] = [];
+  for (let page = startPage; page <= lastPage; page++) {
+    pages.push(pageTexts.get(page) ?? '');
+  }
+
+  return { pages, numpages: data.numpages };
+}
+
+/**
+ * Join page texts with blank lines and record the line each page starts on.
+ *
+ * @param pages - Page texts in order
+ * @returns Joined text and 1-based starting line per page
+ *
+ * @example
+ * ```ts
+ * joinPages(["a\nb", "c"]) // { text: "a\nb\n\nc", pageBreaks: [1, 4] }
+ * ```
+ */
+export function joinPages(pages: string[]): { text: string; pageBreaks: number[] } {
+  const pageBreaks: number[] = [];
+  let line = 1;
+
+  for (const page of pages) {
+    pageBreaks.push(line);
+    // Page lines plus the blank separator line
+    line += page.split('\n').length + 1;
+  }
+
+  return { text: pages.join('\n\n'), pageBreaks };
+}
 
 /**
  * Parse a PDF file and extract text content.
  *
  * @param content - File content as buffer
  * @param _filePath - File path (unused)
- * @returns Parsed document with text and page count
+ * @returns Parsed document with text, page count and page boundaries
  * @throws Error if PDF parsing fails
  */
 export async function parsePdf(content: Buffer, _filePath: string): Promise<ParsedDocument> {
   try {
-    const data = await pdf(content);
-
-    // Get text and normalize whitespace
-    const text = data.text
-      .replace(/\r\n/g, '\n')
-      .replace(/\r/g, '\n')
-      .replace(/\n{3,}/g, '\n\n');
+    const { pages, numpages } = await extractPages(content);
+    const { text, pageBreaks } = joinPages(pages);
 
     return {
       content: text,
       metadata: {
-        pages: data.numpages,
+        lines: text.split('\n').length,
+        pages: numpages,
+        page_breaks: pageBreaks,
       },
     };
   } catch (error) {
@@ -44,24 +211,11 @@ export async function parsePdf(content: Buffer, _filePath: string): Promise<Pars
  * @param content - File content as buffer
  * @param startPage - First page to extract (1-based)
  * @param endPage - Last page to extract
- * @returns Extracted text from page range
+ * @returns Extracted text from page range, pages separated by blank lines
  */
 export async function parsePdfPages(content: Buffer, startPage: number, endPage: number): Promise<string> {
-  const options = {
-    max: endPage,
-    pagerender: (pageData: {
-      pageNumber: number;
-      getTextContent: () => Promise<{ items: Array<{ str: string }> }>;
-    }) => {
-      if (pageData.pageNumber < startPage) {
-        return '';
-      }
-      return pageData.getTextContent().then((textContent) => textContent.items.map((item) => item.str).join(' '));
-    },
-  };
-
-  const data = await pdf(content, options);
-  return data.text;
+  const { pages } = await extractPages(content, startPage, endPage);
+  return pages.join('\n\n');
 }
 
 /**
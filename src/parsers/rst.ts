@@ -0,0 +1,73 @@
+/**
+ * reStructuredText parser
+ *
+ * Converts section titles to markdown headings so `.rst` files get
+ * structure-aware chunking. Lines are rewritten in place, so line numbers
+ * match the source file.
+ *
+ * @module parsers/rst
+ */
+
+import type { ParsedDocument } from '../types/index.js';
+import { escapeStructure } from './markdown.js';
+
+/** A line of one repeated punctuation character (title over/underline) */
+const ADORNMENT = /^([!-/:-@[-`{-~])\1+\s*$/;
+
+/**
+ * Parse a reStructuredText file.
+ *
+ * Title levels follow the order in which adornment styles first appear,
+ * as in docutils: the first style is `#`, the second `##` and so on.
+ * Adornment lines become blank lines.
+ *
+ * @param content - File content as buffer
+ * @param _filePath - File path (unused)
+ * @returns Parsed document with markdown headings and line count
+ *
+ * @example
+ * ```ts
+ * const parsed = await parseRst(Buffer.from('Install\n=======\n\nRun it.'), 'guide.rst');
+ * // parsed.content === '# Install\n\n\nRun it.'
+ * ```
+ */
+export async function parseRst(content: Buffer, _filePath: string): Promise<ParsedDocument> {
+  const text = content.toString('utf-8');
+  const lines = text.split('\n');
+
+  return {
+    content: convertRst(lines).join('\n'),
+    metadata: {
+      lines: lines.length,
+    },
+  };
+}
+
+/**
+ * Rewrite section titles as markdown headings, one output line per input line
+ */
+function convertRst(lines: string[]): string[] {
+  const output = lines.map(escapeStructure);
+  const styles: string[] = [];
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    const title = lines[i];
+    const underline = lines[i + 1].trimEnd();
+    if (!title.trim() || /^\s/.test(title) || ADORNMENT.test(title) || !ADORNMENT.test(underline)) continue;
+
+    // An overline must match the underline
+    const overline = i > 0 ? lines[i - 1].trimEnd() : '';
+    const hasOverline = overline === underline;
+    const style = `${hasOverline ? 'over' : 'under'}:${underline[0]}`;
+
+    if (!styles.includes(style)) styles.push(style);
+    const level = Math.min(styles.indexOf(style) + 1, 6);
+
+    output[i] = `${'#'.repeat(level)} ${title.trim()}`;
+    output[i + 1] = '';
+    if (hasOverline) output[i - 1] = '';
+    i++;
+  }
+
+  return output;
+}
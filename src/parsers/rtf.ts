@@ -0,0 +1,256 @@
+/**
+ * RTF parser
+ *
+ * Extracts text from Rich Text Format files: drops control words and
+ * non-text destinations (font tables, pictures, ...), decodes escaped
+ * characters and converts outline-level paragraphs to markdown headings.
+ *
+ * @module parsers/rtf
+ */
+
+import type { ParsedDocument } from '../types/index.js';
+
+/** Destinations whose content is not document text */
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl',
+  'colortbl',
+  'stylesheet',
+  'listtable',
+  'listoverridetable',
+  'revtbl',
+  'rsidtbl',
+  'info',
+  'pict',
+  'object',
+  'header',
+  'headerl',
+  'headerr',
+  'headerf',
+  'footer',
+  'footerl',
+  'footerr',
+  'footerf',
+  'fldinst',
+  'filetbl',
+  'themedata',
+  'colorschememapping',
+  'latentstyles',
+  'datastore',
+  'xmlnstbl',
+  'generator',
+]);
+
+/** Control word or symbol: `\word-12 `, `\'e9`, `\~` */
+const CONTROL = /\\(?:([a-z]{1,32})(-?\d{1,10})? ?|'([0-9a-f]{2})|([^a-z]))/giy;
+
+/** Group state, saved on `{` and restored on `}` */
+interface GroupState {
+  skip: boolean;
+  /** Fallback characters following `\uN` */
+  uc: number;
+}
+
+/**
+ * Parse an RTF file and extract text as markdown.
+ *
+ * Paragraphs with an outline level (`\outlinelevelN`, set by heading
+ * styles) become `#` headings. `\'hh` escapes are decoded with the
+ * document code page, `\uN` escapes as Unicode.
+ *
+ * @param content - File content as buffer
+ * @param _filePath - File path (unused)
+ * @returns Parsed document with markdown content and line count
+ * @throws Error if the file is not RTF
+ */
+export async function parseRtf(content: Buffer, _filePath: string): Promise<ParsedDocument> {
+  const source = content.toString('latin1');
+  if (!source.trimStart().startsWith('{\\rtf')) {
+    throw new Error('Failed to parse RTF: missing {\\rtf header');
+  }
+
+  const text = convertRtf(source).replace(/\n{3,}/g, '\n\n');
+  const lines = text.split('\n').length;
+
+  return {
+    content: text,
+    metadata: {
+      lines,
+    },
+  };
+}
+
+/**
+ * Walk the RTF token stream and collect paragraphs
+ */
+function convertRtf(source: string): string {
+  const paragraphs: string[] = [];
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, uc: 1 };
+  let decoder = new TextDecoder('windows-1252');
+  let paragraph = '';
+  let bytes: number[] = [];
+  let outlineLevel: number | null = null;
+  let fallbackChars = 0;
+
+  const flushBytes = () => {
+    if (bytes.length > 0) {
+      paragraph += decoder.decode(new Uint8Array(bytes));
+      bytes = [];
+    }
+  };
+  const append = (text: string) => {
+    flushBytes();
+    if (!state.skip) paragraph += text;
+  };
+  const endParagraph = () => {
+    flushBytes();
+    const text = paragraph.replace(/[ \t]+/g, ' ').trim();
+    if (text) {
+      paragraphs.push(outlineLevel !== null ? `${'#'.repeat(Math.min(outlineLevel + 1, 6))} ${text}` : text);
+    }
+    paragraph = '';
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      i++;
+      // `{\*\dest ...}` marks a destination that readers may ignore
+      if (source.startsWith('\\*', i)) state.skip = true;
+      continue;
+    }
+    if (char === '}') {
+      flushBytes();
+      state = stack.pop() ?? state;
+      i++;
+      continue;
+    }
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+    if (char !== '\\') {
+      if (fallbackChars > 0) {
+        fallbackChars--;
+      } else {
+        append(char);
+      }
+      i++;
+      continue;
+    }
+
+    CONTROL.lastIndex = i;
+    const match = CONTROL.exec(source);
+    if (!match) {
+      i++;
+      continue;
+    }
+    i = CONTROL.lastIndex;
+
+    const [, word, param, hex, symbol] = match;
+
+    if (hex) {
+      if (fallbackChars > 0) {
+        fallbackChars--;
+      } else if (!state.skip) {
+        bytes.push(Number.parseInt(hex, 16));
+      }
+      continue;
+    }
+
+    if (symbol) {
+      // Escaped characters; line breaks inside control symbols are paragraph breaks
+      if (symbol === '\\' || symbol === '{' || symbol === '}') append(symbol);
+      else if (symbol === '~') append(' ');
+      else if (symbol === '_') append('-');
+      else if (symbol === '\r' || symbol === '\n') endParagraph();
+      continue;
+    }
+
+    const value = param !== undefined ? Number.parseInt(param, 10) : undefined;
+    fallbackChars = 0;
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      continue;
+    }
+
+    switch (word) {
+      case 'ansicpg':
+        decoder = createDecoder(value);
+        break;
+      case 'u':
+        if (value !== undefined) {
+          append(String.fromCharCode(value < 0 ? value + 65536 : value));
+          fallbackChars = state.uc;
+        }
+        break;
+      case 'uc':
+        state.uc = value ?? 1;
+        break;
+      case 'bin':
+        i += value ?? 0;
+        break;
+      case 'par':
+      case 'sect':
+      case 'page':
+      case 'row':
+        if (!state.skip) endParagraph();
+        break;
+      case 'pard':
+        outlineLevel = null;
+        break;
+      case 'outlinelevel':
+        // Level 9 is body text
+        outlineLevel = value !== undefined && value < 9 ? value : null;
+        break;
+      case 'line':
+      case 'tab':
+      case 'cell':
+      case 'emspace':
+      case 'enspace':
+        append(' ');
+        break;
+      case 'emdash':
+        append('—');
+        break;
+      case 'endash':
+        append('–');
+        break;
+      case 'bullet':
+        append('•');
+        break;
+      case 'lquote':
+        append('‘');
+        break;
+      case 'rquote':
+        append('’');
+        break;
+      case 'ldblquote':
+        append('“');
+        break;
+      case 'rdblquote':
+        append('”');
+        break;
+    }
+  }
+
+  endParagraph();
+  return paragraphs.join('\n\n');
+}
+
+/**
+ * Decoder for an ANSI code page, falling back to Windows-1252
+ */
+function createDecoder(codePage: number | undefined): TextDecoder {
+  try {
+    return new TextDecoder(`windows-${codePage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
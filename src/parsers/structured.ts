@@ -0,0 +1,276 @@
+/**
+ * Structured data parser for JSON, YAML and TOML
+ *
+ * Renders data files as markdown: files too large for one chunk get one
+ * heading per top-level key (nested keys get deeper headings when a value
+ * is still too large) followed by the key's source lines in a fenced
+ * block, so the markdown-structure chunker splits them by key. A line map points every rendered line back
+ * to its source line. OpenAPI and AsyncAPI specs are rendered per
+ * operation and schema instead.
+ *
+ * @module parsers/structured
+ */
+
+import { type Document, isMap, isScalar, isSeq, LineCounter, type Node, parseAllDocuments } from 'yaml';
+import { LIMITS } from '../core/constants.js';
+import type { ParsedDocument } from '../types/index.js';
+import { isApiSpec, renderApiSpec } from './openapi.js';
+
+type FenceLanguage = 'json' | 'yaml' | 'toml';
+
+/** A keyed value and the source lines it owns */
+interface Entry {
+  label: string;
+  /** Line of the key (or of the item for sequences) */
+  keyLine: number;
+  node: Node | null;
+}
+
+/** TOML `[table]` and `[[array.of.tables]]` headers */
+const TOML_HEADER = /^\s*(\[\[?[^[\],=]+\]\]?)\s*(#.*)?$/;
+const TOML_COMMENT = /^\s*#/;
+
+/**
+ * Rendered markdown lines with the source line of each one
+ */
+class MappedLines {
+  readonly lines: string[] = [];
+  readonly lineMap: number[] = [];
+
+  push(text: string, sourceLine: number): void {
+    this.lines.push(text);
+    this.lineMap.push(sourceLine);
+  }
+
+  /**
+   * Add source lines `from`..`to` (1-based, inclusive) as a fenced block,
+   * leaving out leading and trailing blank lines
+   */
+  fence(source: string[], from: number, to: number, language: FenceLanguage): void {
+    let start = from;
+    let end = to;
+    while (start <= end && source[start - 1]?.trim() === '') start++;
+    while (end >= start && source[end - 1]?.trim() === '') end--;
+    if (start > end) return;
+
+    this.push(`\`\`\`${language}`, start);
+    for (let line = start; line <= end; line++) {
+      this.push(source[line - 1], line);
+    }
+    this.push('```', end);
+    this.push('', end);
+  }
+
+  toDocument(lines: number): ParsedDocument {
+    return { content: this.lines.join('\n'), metadata: { lines, line_map: this.lineMap } };
+  }
+}
+
+/**
+ * Parse a JSON file.
+ *
+ * @param content - File content as buffer
+ * @param _filePath - File path (unused)
+ * @returns Parsed document rendered by key, or the raw text if it is not valid JSON
+ */
+export async function parseJson(content: Buffer, _filePath: string): Promise<ParsedDocument> {
+  return parseYamlSource(content.toString('utf-8'), 'json');
+}
+
+/**
+ * Parse a YAML file (all documents of a multi-document stream).
+ *
+ * @param content - File content as buffer
+ * @param _filePath - File path (unused)
+ * @returns Parsed document rendered by key, or the raw text if it is not valid YAML
+ */
+export async function parseYaml(content: Buffer, _filePath: string): Promise<ParsedDocument> {
+  return parseYamlSource(content.toString('utf-8'), 'yaml');
+}
+
+/**
+ * Parse a TOML file.
+ *
+ * In files too large for one chunk, each `[table]` or `[[array]]` header
+ * starts a section, with the comments directly above it attached; keys
+ * before the first header form a preamble.
+ *
+ * @param content - File content as buffer
+ * @param _filePath - File path (unused)
+ * @returns Parsed document rendered by table
+ */
+export async function parseToml(content: Buffer, _filePath: string): Promise<ParsedDocument> {
+  const text = content.toString('utf-8');
+  const source = text.split('\n');
+  const out = new MappedLines();
+
+  if (text.length <= LIMITS.DEFAULT_CHUNK_SIZE * 2) {
+    out.fence(source, 1, source.length, 'toml');
+    return out.toDocument(source.length);
+  }
+
+  // Header line numbers, ignoring lines inside multi-line strings and arrays
+  const headers: Array<{ line: number; label: string }> = [];
+  let inString: string | null = null;
+  let arrayDepth = 0;
+  for (let i = 0; i < source.length; i++) {
+    const line = source[i];
+    const match = inString || arrayDepth > 0 ? null : line.match(TOML_HEADER);
+    if (match) {
+      headers.push({ line: i + 1, label: match[1].replace(/\s+/g, '') });
+    } else if (!inString) {
+      const value = line.replace(/"(\\.|[^"\\])*"|'[^']*'|#.*$/g, '');
+      arrayDepth = Math.max(0, arrayDepth + (value.match(/\[/g)?.length ?? 0) - (value.match(/\]/g)?.length ?? 0));
+    }
+    for (const quote of line.match(/"""|'''/g) ?? []) {
+      if (!inString) inString = quote;
+      else if (inString === quote) inString = null;
+    }
+  }
+
+  // Move each section start up to include attached comments
+  const starts = headers.map((h) => {
+    let start = h.line;
+    while (start > 1 && TOML_COMMENT.test(source[start - 2])) start--;
+    return start;
+  });
+
+  out.fence(source, 1, (starts[0] ?? source.length + 1) - 1, 'toml');
+  headers.forEach((header, i) => {
+    out.push(`# ${header.label}`, header.line);
+    out.push('', header.line);
+    out.fence(source, starts[i], (starts[i + 1] ?? source.length + 1) - 1, 'toml');
+  });
+
+  return out.toDocument(source.length);
+}
+
+/**
+ * Parse YAML or JSON text (JSON is parsed as YAML for node positions)
+ */
+function parseYamlSource(text: string, language: 'json' | 'yaml'): ParsedDocument {
+  const source = text.split('\n');
+  const lineCounter = new LineCounter();
+  const docs = parseAllDocuments(text, { lineCounter, uniqueKeys: false });
+
+  if (docs.length === 0 || docs.some((doc) => doc.errors.length > 0)) {
+    return { content: text, metadata: { lines: source.length } };
+  }
+
+  if (docs.length === 1 && isApiSpec(docs[0].contents)) {
+    const spec = renderApiSpec(docs[0], text, lineCounter);
+    return { content: spec.content, metadata: { lines: source.length, line_map: spec.lineMap } };
+  }
+
+  const out = new MappedLines();
+  let from = 1;
+  docs.forEach((doc: Document, i) => {
+    const to = i === docs.length - 1 ? source.length : endLine(text, lineCounter, doc.range?.[1], doc.range?.[0]);
+    const entries = entriesOf(doc.contents, null, lineCounter);
+    const size = source.slice(from - 1, to).join('\n').length;
+
+    if (entries.length > 0 && size > LIMITS.DEFAULT_CHUNK_SIZE * 2) {
+      renderEntries(out, source, entries, 1, from, to, language, text, lineCounter);
+    } else {
+      out.fence(source, from, to, language);
+    }
+    from = to + 1;
+  });
+
+  return out.toDocument(source.length);
+}
+
+/**
+ * Render entries of a collection whose lines span `from`..`to`.
+ *
+ * Each entry owns the lines from the end of the previous one, so comments
+ * above a key belong to it; the last entry owns the rest of the range.
+ * Small neighbouring entries share a section up to the chunk size; entries
+ * too large for one chunk are rendered by their own keys one level deeper.
+ */
+function renderEntries(
+  out: MappedLines,
+  source: string[],
+  entries: Entry[],
+  level: number,
+  from: number,
+  to: number,
+  language: FenceLanguage,
+  text: string,
+  lineCounter: LineCounter,
+): void {
+  let group: { labels: string[]; keyLine: number; start: number; end: number; size: number } | null = null;
+  let previousEnd = from - 1;
+
+  const flush = () => {
+    if (!group) return;
+    out.push(`${'#'.repeat(level)} ${group.labels.join(', ')}`, group.keyLine);
+    out.push('', group.keyLine);
+    out.fence(source, group.start, group.end, language);
+    group = null;
+  };
+
+  entries.forEach((entry, i) => {
+    const start = Math.min(previousEnd + 1, entry.keyLine);
+    const end =
+      i === entries.length - 1
+        ? to
+        : Math.max(entry.keyLine, endLine(text, lineCounter, entry.node?.range?.[1], entry.node?.range?.[0]));
+    const size = source.slice(start - 1, end).join('\n').length;
+    previousEnd = Math.max(previousEnd, end);
+
+    const children = entriesOf(entry.node, entry.label, lineCounter);
+    if (children.length > 0 && level < 6 && size > LIMITS.DEFAULT_CHUNK_SIZE * 2) {
+      flush();
+      renderEntries(out, source, children, level + 1, start, end, language, text, lineCounter);
+    } else if (group && group.size + size <= LIMITS.DEFAULT_CHUNK_SIZE) {
+      group = { ...group, labels: [...group.labels, entry.label], end, size: group.size + size };
+    } else {
+      flush();
+      group = { labels: [entry.label], keyLine: entry.keyLine, start, end, size };
+    }
+  });
+  flush();
+}
+
+/**
+ * Keys of a map (`parent.key`) or items of a sequence (`parent[0]`)
+ */
+function entriesOf(node: unknown, parent: string | null, lineCounter: LineCounter): Entry[] {
+  if (isMap(node)) {
+    return node.items.map((pair) => {
+      const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+      const keyNode = pair.key as Node | null;
+      const value = pair.value as Node | null;
+      const offset = keyNode?.range?.[0] ?? value?.range?.[0] ?? 0;
+      return {
+        label: parent !== null ? `${parent}.${key}` : key,
+        keyLine: lineCounter.linePos(offset).line,
+        node: value,
+      };
+    });
+  }
+
+  if (isSeq(node)) {
+    return node.items.map((item, i) => {
+      const value = item as Node | null;
+      return {
+        label: `${parent ?? ''}[${i}]`,
+        keyLine: lineCounter.linePos(value?.range?.[0] ?? 0).line,
+        node: value,
+      };
+    });
+  }
+
+  return [];
+}
+
+/**
+ * Line of the last non-whitespace character before `offset`
+ */
+function endLine(text: string, lineCounter: LineCounter, offset: number | undefined, start = 0): number {
+  if (offset === undefined) return 1;
+  let end = offset;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return lineCounter.linePos(Math.max(end - 1, 0)).line;
+}
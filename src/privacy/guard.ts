@@ -0,0 +1,157 @@
+/**
+ * Privacy guard - data boundary checks for outbound calls
+ *
+ * Classifies endpoints as local or remote and enforces `privacy` config
+ * before any document content leaves the machine:
+ * - remote sends require `local_only: false` and `allow_remote: true`
+ * - with `require_boundary_key`, the `boundary_key_env` variable must be set
+ * - with `redact_before_remote`, contexts are PII-redacted first
+ *
+ * @module guard
+ */
+
+import type { PrivacyConfig } from '../types/index.js';
+import { createDetectors, type PIIDetector, redactPII } from './pii.js';
+
+export type EndpointKind = 'local' | 'remote';
+
+/**
+ * Raised when a call would cross the configured data boundary
+ */
+export class PrivacyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrivacyError';
+  }
+}
+
+/**
+ * Check whether a host name is a loopback address.
+ *
+ * @param host - Hostname or IP address (IPv6 may be bracketed)
+ * @returns True for `localhost`, `*.localhost`, `127.0.0.0/8` and `::1`
+ */
+export function isLoopbackHost(host: string): boolean {
+  const normalized = host.toLowerCase().replace(/^\[|\]$/g, '');
+  return (
+    normalized === 'localhost' ||
+    normalized.endsWith('.localhost') ||
+    normalized === '::1' ||
+    /^127(\.\d{1,3}){3}$/.test(normalized)
+  );
+}
+
+/**
+ * Classify an endpoint as local or remote.
+ *
+ * Accepts full URLs and bare `host:port` values (as used in `OLLAMA_HOST`).
+ * The unspecified address (`0.0.0.0`, `::`) connects to this machine and
+ * counts as local. Anything that cannot be parsed counts as remote.
+ *
+ * @param endpoint - URL or `host:port`
+ * @returns `local` for loopback hosts, otherwise `remote`
+ *
+ * @example
+ * ```ts
+ * classifyEndpoint('http://localhost:11434') // 'local'
+ * classifyEndpoint('gpu-box.internal:11434') // 'remote'
+ * ```
+ */
+export function classifyEndpoint(endpoint: string): EndpointKind {
+  const value = endpoint.trim();
+  let host: string;
+  try {
+    host = new URL(value.includes('://') ? value : `http://${value}`).hostname;
+  } catch {
+    return 'remote';
+  }
+
+  const normalized = host.replace(/^\[|\]$/g, '');
+  if (normalized === '0.0.0.0' || normalized === '::') {
+    return 'local';
+  }
+  return isLoopbackHost(normalized) ? 'local' : 'remote';
+}
+
+/**
+ * Refuse to contact a remote endpoint unless the privacy config allows it.
+ *
+ * @param endpoint - URL or `host:port` about to receive data
+ * @param privacy - Privacy configuration
+ * @returns Endpoint classification
+ * @throws PrivacyError if the endpoint is remote and remote calls are not allowed
+ *
+ * @example
+ * ```ts
+ * const kind = assertEndpointAllowed(ollamaUrl, config.privacy);
+ * ```
+ */
+export function assertEndpointAllowed(endpoint: string, privacy: PrivacyConfig): EndpointKind {
+  if (classifyEndpoint(endpoint) === 'local') {
+    return 'local';
+  }
+
+  if (privacy.local_only) {
+    throw new PrivacyError(
+      `Refusing to send data to remote endpoint ${endpoint}: privacy.local_only is enabled. ` +
+        'Set privacy.local_only to false and privacy.allow_remote to true in .dseek/config.json to allow it.',
+    );
+  }
+
+  if (!privacy.allow_remote) {
+    throw new PrivacyError(
+      `Refusing to send data to remote endpoint ${endpoint}: privacy.allow_remote is disabled. ` +
+        'Set privacy.allow_remote to true in .dseek/config.json to allow it.',
+    );
+  }
+
+  if (privacy.require_boundary_key && !process.env[privacy.boundary_key_env]) {
+    throw new PrivacyError(
+      `Refusing to send data to remote endpoint ${endpoint}: ${privacy.boundary_key_env} is not set. ` +
+        'Set it in the environment to confirm remote calls for this session.',
+    );
+  }
+
+  return 'remote';
+}
+
+/**
+ * Redact PII from context snippets and their heading paths.
+ *
+ * @param contexts - Contexts to send
+ * @param detectors - Detectors to run (default: built-in regex rules)
+ * @returns Copies with redacted snippets
+ */
+export function redactContexts<T extends { snippet: string; heading_path?: string }>(
+  contexts: T[],
+  detectors?: PIIDetector[],
+): T[] {
+  return contexts.map((c) => ({
+    ...c,
+    snippet: redactPII(c.snippet, detectors).text,
+    ...(c.heading_path ? { heading_path: redactPII(c.heading_path, detectors).text } : {}),
+  }));
+}
+
+/**
+ * Prepare contexts for an endpoint: check the boundary and redact if remote.
+ *
+ * @param endpoint - URL or `host:port` about to receive the contexts
+ * @param contexts - Retrieved contexts
+ * @param privacy - Privacy configuration
+ * @param detectors - Detectors to redact with (default: from `privacy`)
+ * @returns Contexts safe to send (redacted with the configured detectors for remote endpoints
+ *   when `redact_before_remote` is set)
+ * @throws PrivacyError if the endpoint is remote and remote calls are not allowed
+ */
+export function guardContexts<T extends { snippet: string; heading_path?: string }>(
+  endpoint: string,
+  contexts: T[],
+  privacy: PrivacyConfig,
+  detectors?: PIIDetector[],
+): T[] {
+  const kind = assertEndpointAllowed(endpoint, privacy);
+  return kind === 'remote' && privacy.redact_before_remote
+    ? redactContexts(contexts, detectors ?? createDetectors(privacy))
+    : contexts;
+}
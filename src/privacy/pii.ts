@@ -4,14 +4,42 @@
  * Detects and redacts personally identifiable information from text.
  * Supports emails, phones, credit cards, SSNs, API keys, and more.
  *
+ * Detection is pluggable: `privacy.pii_detectors` selects detectors from a
+ * registry (`regex_rules`, `credit_card`, `iban`, `custom_rules`), and each
+ * match carries the replacement token of the detector that found it.
+ * Rules and allowlists in `.dseek/pii-rules.json` apply on top of the config.
+ *
  * @module pii
  */
 
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { FILES, PII_DETECTORS } from '../core/constants.js';
+import type { PIIDetectorName, PIIRule, PIIRulesFile, PrivacyConfig } from '../types/index.js';
+
 export interface PIIMatch {
   type: string;
   value: string;
   start: number;
   end: number;
+  /** Token that replaces the value when redacting */
+  replacement: string;
+}
+
+/** Source of PII matches, selected by name in `privacy.pii_detectors` */
+export interface PIIDetector {
+  name: PIIDetectorName;
+  detect(text: string): PIIMatch[];
+}
+
+/** Compiled detection pattern */
+export interface PIIPattern {
+  type: string;
+  pattern: RegExp;
+  replacement: string;
+  /** Matched values to skip */
+  allowlist?: Set<string>;
 }
 
 export interface RedactionResult {
@@ -21,7 +49,7 @@ export interface RedactionResult {
 }
 
 // PII detection patterns
-const PII_PATTERNS: Array<{ type: string; pattern: RegExp; replacement: string }> = [
+const PII_PATTERNS: PIIPattern[] = [
   // Email addresses
   {
     type: 'email',
@@ -85,31 +113,289 @@ const PII_PATTERNS: Array<{ type: string; pattern: RegExp; replacement: string }
 ];
 
 /**
- * Detect PII patterns in text.
- *
- * @param text - Text to scan for PII
- * @returns Array of matches with type, value, and position
- *
- * @example
- * ```ts
- * const matches = detectPII("Contact: john@example.com");
- * // [{ type: "email", value: "john@example.com", start: 9, end: 25 }]
- * ```
+ * Collect non-empty matches of regex patterns
  */
-export function detectPII(text: string): PIIMatch[] {
+function matchPatterns(text: string, patterns: PIIPattern[]): PIIMatch[] {
   const matches: PIIMatch[] = [];
 
-  for (const { type, pattern } of PII_PATTERNS) {
+  for (const { type, pattern, replacement, allowlist } of patterns) {
     for (const match of text.matchAll(pattern)) {
+      if (match[0].length === 0 || allowlist?.has(match[0])) continue;
       matches.push({
         type,
         value: match[0],
         start: match.index!,
         end: match.index! + match[0].length,
+        replacement,
       });
     }
   }
 
+  return matches;
+}
+
+/**
+ * Check a card number with the Luhn checksum.
+ *
+ * @param digits - Card number without separators
+ */
+function isValidLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Check an IBAN with the ISO 13616 mod-97 checksum.
+ *
+ * @param iban - IBAN without spaces
+ */
+function isValidIban(iban: string): boolean {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+  // Move country code and check digits to the end, letters become 10-35
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : (char.charCodeAt(0) - 55).toString();
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/** Card-like digit runs: 13-19 digits, optionally grouped by spaces or dashes */
+const CARD_CANDIDATE = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+/** IBAN-like strings, optionally in groups of four */
+const IBAN_CANDIDATE = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g;
+
+/**
+ * Build a detector from regex patterns
+ */
+function regexDetector(name: PIIDetectorName, patterns: PIIPattern[]): PIIDetector {
+  return { name, detect: (text) => matchPatterns(text, patterns) };
+}
+
+/** Credit card numbers that pass the Luhn check */
+const creditCardDetector: PIIDetector = {
+  name: 'credit_card',
+  detect: (text) =>
+    matchPatterns(text, [{ type: 'credit_card', pattern: CARD_CANDIDATE, replacement: '[CREDIT_CARD]' }]).filter((m) =>
+      isValidLuhn(m.value.replace(/[ -]/g, '')),
+    ),
+};
+
+/** IBANs that pass the mod-97 check */
+const ibanDetector: PIIDetector = {
+  name: 'iban',
+  detect: (text) =>
+    matchPatterns(text, [{ type: 'iban', pattern: IBAN_CANDIDATE, replacement: '[IBAN]' }])
+      .map((m) => {
+        // A grouped IBAN may run into a following word; drop trailing groups until it validates
+        let value = m.value;
+        while (!isValidIban(value.replace(/ /g, '')) && value.includes(' ')) {
+          value = value.slice(0, value.lastIndexOf(' '));
+        }
+        return { ...m, value, end: m.start + value.length };
+      })
+      .filter((m) => isValidIban(m.value.replace(/ /g, ''))),
+};
+
+/**
+ * Compile a user-defined PII rule.
+ *
+ * @param rule - Rule from `privacy.pii_rules`
+ * @returns Pattern with the global flag set and a replacement token
+ * @throws Error if the pattern is not a valid regular expression
+ *
+ * @example
+ * ```ts
+ * compilePIIRule({ type: 'employee_id', pattern: 'EMP-\\d{6}' }).replacement // '[EMPLOYEE_ID]'
+ * ```
+ */
+export function compilePIIRule(rule: PIIRule): PIIPattern {
+  const flags = `${(rule.flags ?? '').replace(/g/g, '')}g`;
+  try {
+    return {
+      type: rule.type,
+      pattern: new RegExp(rule.pattern, flags),
+      replacement: rule.replacement ?? `[${rule.type.toUpperCase()}]`,
+      allowlist: rule.allowlist ? new Set(rule.allowlist) : undefined,
+    };
+  } catch (error) {
+    throw new Error(`Invalid PII rule "${rule.type}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/** Detector registry, keyed by `privacy.pii_detectors` name */
+const DETECTOR_FACTORIES: Record<PIIDetectorName, (privacy: PrivacyConfig) => PIIDetector> = {
+  // The Luhn detector supersedes the unchecked credit card pattern
+  regex_rules: (privacy) =>
+    regexDetector(
+      'regex_rules',
+      privacy.pii_detectors.includes('credit_card')
+        ? PII_PATTERNS.filter((p) => p.type !== 'credit_card')
+        : PII_PATTERNS,
+    ),
+  credit_card: () => creditCardDetector,
+  iban: () => ibanDetector,
+  custom_rules: (privacy) => regexDetector('custom_rules', (privacy.pii_rules ?? []).map(compilePIIRule)),
+};
+
+/** Detectors used when none are given (`regex_rules` only) */
+const DEFAULT_DETECTORS: PIIDetector[] = [regexDetector('regex_rules', PII_PATTERNS)];
+
+/** Email addresses only; always redacted from indexed mail (`.eml`, `.mbox`) */
+export const EMAIL_DETECTOR: PIIDetector = regexDetector(
+  'regex_rules',
+  PII_PATTERNS.filter((p) => p.type === 'email'),
+);
+
+/**
+ * Create the detectors enabled by the privacy config.
+ *
+ * Project rules are always applied, whether or not `custom_rules` is
+ * enabled. Their allowlist applies to every detector: no match inside an
+ * allowlisted value is redacted.
+ *
+ * @param privacy - Privacy configuration
+ * @param projectRules - Rules from `.dseek/pii-rules.json`
+ * @returns Detectors in `pii_detectors` order, then project rules
+ * @throws Error for unknown detector names or invalid custom rules
+ *
+ * @example
+ * ```ts
+ * const detectors = createDetectors(config.privacy);
+ * const { text } = redactPII(snippet, detectors);
+ * ```
+ */
+export function createDetectors(privacy: PrivacyConfig, projectRules?: PIIRulesFile): PIIDetector[] {
+  const detectors = [...new Set(privacy.pii_detectors)].map((name) => {
+    if (!(PII_DETECTORS as readonly string[]).includes(name)) {
+      throw new Error(`Unknown PII detector: ${name}. Available detectors: ${PII_DETECTORS.join(', ')}`);
+    }
+    return DETECTOR_FACTORIES[name as PIIDetectorName](privacy);
+  });
+
+  if (projectRules && projectRules.rules.length > 0) {
+    detectors.push(regexDetector('custom_rules', projectRules.rules.map(compilePIIRule)));
+  }
+
+  if (!projectRules || projectRules.allowlist.length === 0) {
+    return detectors;
+  }
+
+  const allowlist = projectRules.allowlist;
+  return detectors.map((detector) => ({
+    name: detector.name,
+    detect: (text) => {
+      const spans = findAllowedSpans(text, allowlist);
+      return detector.detect(text).filter((m) => !spans.some((s) => m.start >= s.start && m.end <= s.end));
+    },
+  }));
+}
+
+/**
+ * Find every occurrence of allowlisted values in text
+ */
+function findAllowedSpans(text: string, allowlist: string[]): Array<{ start: number; end: number }> {
+  const spans: Array<{ start: number; end: number }> = [];
+
+  for (const value of allowlist) {
+    if (!value) continue;
+    for (let start = text.indexOf(value); start !== -1; start = text.indexOf(value, start + 1)) {
+      spans.push({ start, end: start + value.length });
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Load project PII rules from `.dseek/pii-rules.json`.
+ *
+ * @param projectRoot - Project root directory
+ * @returns Rules and allowlist (empty if the file does not exist)
+ * @throws Error if the file is not valid JSON or a rule lacks `type` or `pattern`
+ *
+ * @example
+ * ```ts
+ * const { rules, allowlist } = await loadPIIRules(findProjectRoot());
+ * ```
+ */
+export async function loadPIIRules(projectRoot: string): Promise<PIIRulesFile> {
+  const rulesPath = join(projectRoot, FILES.PII_RULES);
+
+  if (!existsSync(rulesPath)) {
+    return { rules: [], allowlist: [] };
+  }
+
+  let parsed: Partial<PIIRulesFile>;
+  try {
+    parsed = JSON.parse(await readFile(rulesPath, 'utf-8')) as Partial<PIIRulesFile>;
+  } catch (error) {
+    throw new Error(`Invalid ${FILES.PII_RULES}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const rules = parsed.rules ?? [];
+  for (const rule of rules) {
+    if (typeof rule.type !== 'string' || typeof rule.pattern !== 'string') {
+      throw new Error(`Invalid ${FILES.PII_RULES}: every rule needs a "type" and a "pattern"`);
+    }
+  }
+
+  return { rules, allowlist: parsed.allowlist ?? [] };
+}
+
+/**
+ * Create the detectors for a project: privacy config plus `.dseek/pii-rules.json`.
+ *
+ * @param privacy - Privacy configuration
+ * @param projectRoot - Project root directory
+ * @returns Detectors to pass to `redactPII()` and `detectPII()`
+ * @throws Error if the config or the rules file is invalid
+ */
+export async function loadDetectors(privacy: PrivacyConfig, projectRoot: string): Promise<PIIDetector[]> {
+  return createDetectors(privacy, await loadPIIRules(projectRoot));
+}
+
+/**
+ * Detect PII in text.
+ *
+ * Matches found by several detectors at the same position are reported once.
+ *
+ * @param text - Text to scan for PII
+ * @param detectors - Detectors to run (default: built-in regex rules)
+ * @returns Array of matches with type, value, position and replacement
+ *
+ * @example
+ * ```ts
+ * const matches = detectPII("Contact: john@example.com");
+ * // [{ type: "email", value: "john@example.com", start: 9, end: 25, replacement: "[EMAIL]" }]
+ * ```
+ */
+export function detectPII(text: string, detectors: PIIDetector[] = DEFAULT_DETECTORS): PIIMatch[] {
+  const seen = new Set<string>();
+  const matches: PIIMatch[] = [];
+
+  for (const detector of detectors) {
+    for (const match of detector.detect(text)) {
+      const key = `${match.type}:${match.start}:${match.end}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      matches.push(match);
+    }
+  }
+
   // Sort by position
   return matches.sort((a, b) => a.start - b.start);
 }
@@ -118,18 +404,48 @@ export function detectPII(text: string): PIIMatch[] {
  * Check if text contains any PII.
  *
  * @param text - Text to check
+ * @param detectors - Detectors to run (default: built-in regex rules)
  * @returns True if PII detected
  */
-export function containsPII(text: string): boolean {
-  return detectPII(text).length > 0;
+export function containsPII(text: string, detectors?: PIIDetector[]): boolean {
+  return detectPII(text, detectors).length > 0;
+}
+
+/**
+ * Pick non-overlapping matches to redact.
+ *
+ * The earliest match wins; at the same start the longer one, and for
+ * identical spans the one detected last (custom rules and the more
+ * specific built-in patterns come after the broad ones).
+ */
+function selectNonOverlapping(matches: PIIMatch[]): PIIMatch[] {
+  const ordered = matches
+    .map((match, index) => ({ match, index }))
+    .sort((a, b) => a.match.start - b.match.start || b.match.end - a.match.end || b.index - a.index);
+
+  const selected: PIIMatch[] = [];
+  let end = 0;
+  for (const { match } of ordered) {
+    if (match.start < end) continue;
+    selected.push(match);
+    end = match.end;
+  }
+  return selected;
 }
 
 /**
  * Redact PII from text with placeholders.
  *
- * Replaces detected PII with type-specific placeholders like [EMAIL], [PHONE].
+ * Replaces detected PII with the replacement token of its detector,
+ * like [EMAIL], [PHONE] or [IBAN]. Where matches overlap, only one
+ * is replaced and reported.
+ *
+ * With `preserveLines`, each replacement keeps the line breaks of the value
+ * it replaces (e.g. a multi-line private key), so line numbers stay valid.
  *
  * @param text - Text to redact
+ * @param detectors - Detectors to run (default: built-in regex rules)
+ * @param options - Redaction options
  * @returns Result with redacted text, matches, and redaction flag
  *
  * @example
@@ -138,8 +454,12 @@ export function containsPII(text: string): boolean {
  * // { text: "Email: [EMAIL]", matches: [...], redacted: true }
  * ```
  */
-export function redactPII(text: string): RedactionResult {
-  const matches = detectPII(text);
+export function redactPII(
+  text: string,
+  detectors?: PIIDetector[],
+  options: { preserveLines?: boolean } = {},
+): RedactionResult {
+  const matches = selectNonOverlapping(detectPII(text, detectors));
 
   if (matches.length === 0) {
     return { text, matches: [], redacted: false };
@@ -150,7 +470,9 @@ export function redactPII(text: string): RedactionResult {
 
   // Process matches in order, adjusting for length changes
   for (const match of matches) {
-    const replacement = PII_PATTERNS.find((p) => p.type === match.type)?.replacement ?? '[REDACTED]';
+    const replacement = options.preserveLines
+      ? match.replacement + '\n'.repeat(match.value.split('\n').length - 1)
+      : match.replacement;
     const adjustedStart = match.start + offset;
     const adjustedEnd = match.end + offset;
 
@@ -169,11 +491,14 @@ export function redactPII(text: string): RedactionResult {
 /**
  * Get PII detection statistics.
  *
+ * Counts the matches `redactPII()` would replace.
+ *
  * @param text - Text to analyze
+ * @param detectors - Detectors to run (default: built-in regex rules)
  * @returns Object with counts per PII type
  */
-export function getPIIStats(text: string): Record<string, number> {
-  const matches = detectPII(text);
+export function getPIIStats(text: string, detectors?: PIIDetector[]): Record<string, number> {
+  const matches = selectNonOverlapping(detectPII(text, detectors));
   const stats: Record<string, number> = {};
 
   for (const match of matches) {
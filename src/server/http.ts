@@ -0,0 +1,418 @@
+/**
+ * HTTP server - local JSON API over the retrieval core
+ *
+ * Serves search, status, document listing, audits and chat from one
+ * long-lived process, so editor plugins and web UIs do not pay the
+ * embedding model load on every query.
+ *
+ * Endpoints:
+ * - `GET /search?query=...` or `POST /search` with a `SearchQuery` body
+ * - `GET /status`
+ * - `GET /list?path_prefix=...`
+ * - `GET /audit?type=duplicates|conflicts|pii&threshold=...&limit=...`
+ * - `POST /chat` with `{ query, top_k, model, temperature, rerank, no_cite }`
+ *
+ * Requests must name a loopback host (or the bind address) in `Host`, may
+ * only carry an allow-listed `Origin`, and POST bodies must be
+ * `application/json`. This keeps web pages from reaching the API through
+ * cross-site requests or DNS rebinding. Allow-listed origins get CORS
+ * headers, and `OPTIONS` preflights are answered with 204.
+ *
+ * @module server/http
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { findConflicts, findDuplicates, findPII } from '../core/audit.js';
+import { answerQuestion } from '../core/chat.js';
+import { findProjectRoot, loadConfig } from '../core/config.js';
+import { DEFAULTS, NETWORK, RETRIEVAL_MODES } from '../core/constants.js';
+import { getEmbedder } from '../core/embedder.js';
+import { getReranker } from '../core/reranker.js';
+import { CursorError, getStatus, search } from '../core/retrieval.js';
+import { toChatOptions, toSearchQuery } from '../mcp/tools.js';
+import { isLoopbackHost } from '../privacy/guard.js';
+import { loadDetectors } from '../privacy/pii.js';
+import { closeDb } from '../storage/index.js';
+import { getAllDocuments } from '../storage/metadata.js';
+import type { RetrievalMode } from '../types/index.js';
+
+export { isLoopbackHost };
+
+export interface HttpServerOptions {
+  /** Bind address (default: 127.0.0.1) */
+  host?: string;
+  /** Port to listen on (0 picks a free port) */
+  port?: number;
+  /** Also load the reranker model at startup */
+  warmReranker?: boolean;
+  /** Browser origins allowed to call the API, e.g. `http://localhost:3000` */
+  allowedOrigins?: string[];
+}
+
+/** Accepted `Host` and `Origin` header values */
+interface RequestPolicy {
+  /** Host names accepted besides loopback names (the bind address) */
+  hosts: string[];
+  /** Allow-listed `Origin` values; requests without `Origin` are not browser requests */
+  origins: string[];
+}
+
+/** Response produced by a route */
+interface RouteResult {
+  status: number;
+  body: unknown;
+}
+
+type RouteHandler = (params: Record<string, unknown>) => Promise<RouteResult>;
+
+/** Route result with the response headers to send besides `Content-Type` */
+interface RouteResponse {
+  result: RouteResult;
+  headers: Record<string, string>;
+}
+
+/** Query parameters parsed as numbers */
+const NUMBER_PARAMS = new Set(['limit', 'rerank_top_k', 'top_k', 'temperature', 'threshold']);
+
+/** Query parameters parsed as booleans */
+const BOOLEAN_PARAMS = new Set(['rerank', 'no_cite']);
+
+const AUDIT_TYPES = ['duplicates', 'conflicts', 'pii'];
+
+/**
+ * Convert URL query parameters to typed route parameters
+ */
+function parseQueryParams(searchParams: URLSearchParams): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+
+  for (const [key, value] of searchParams) {
+    if (NUMBER_PARAMS.has(key)) {
+      const num = Number(value);
+      if (value !== '' && Number.isFinite(num)) params[key] = num;
+    } else if (BOOLEAN_PARAMS.has(key)) {
+      params[key] = value === '' || value === 'true' || value === '1';
+    } else {
+      params[key] = value;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Read and parse a JSON request body.
+ *
+ * @returns Parsed object, or an error message for invalid or oversized bodies
+ */
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown> | string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > NETWORK.MAX_REQUEST_BODY_BYTES) {
+      return `Request body exceeds ${NETWORK.MAX_REQUEST_BODY_BYTES} bytes`;
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  if (size === 0) return {};
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return 'Request body must be a JSON object';
+    }
+    return body as Record<string, unknown>;
+  } catch {
+    return 'Request body is not valid JSON';
+  }
+}
+
+/**
+ * Host name of a `Host` header, without port or IPv6 brackets
+ */
+function parseHostHeader(header: string | undefined): string | null {
+  if (!header) return null;
+  try {
+    return new URL(`http://${header}`).hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reject requests for other host names (DNS rebinding) and from
+ * origins that are not allow-listed (cross-site requests)
+ *
+ * @returns Error result, or null if the request may proceed
+ */
+function checkRequestSource(req: IncomingMessage, policy: RequestPolicy): RouteResult | null {
+  const host = parseHostHeader(req.headers.host);
+  if (!host || !(isLoopbackHost(host) || policy.hosts.includes(host))) {
+    return errorResult(421, `Host not allowed: ${req.headers.host ?? '(missing)'}`);
+  }
+
+  const origin = req.headers.origin;
+  if (origin !== undefined && !policy.origins.includes(origin)) {
+    return errorResult(403, `Origin not allowed: ${origin}`);
+  }
+
+  return null;
+}
+
+/**
+ * CORS headers for a request that passed `checkRequestSource()`: the
+ * allow-listed origin is echoed back
+ */
+function corsHeaders(req: IncomingMessage): Record<string, string> {
+  const origin = req.headers.origin;
+  return origin === undefined ? { Vary: 'Origin' } : { Vary: 'Origin', 'Access-Control-Allow-Origin': origin };
+}
+
+/**
+ * Check that a request body is declared as JSON
+ */
+function isJsonRequest(req: IncomingMessage): boolean {
+  const type = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+  return type === 'application/json';
+}
+
+/**
+ * Build an error result
+ */
+function errorResult(status: number, message: string): RouteResult {
+  return { status, body: { error: message } };
+}
+
+/**
+ * Run a search from route parameters
+ */
+async function handleSearch(params: Record<string, unknown>): Promise<RouteResult> {
+  if (typeof params.query !== 'string' || params.query.trim().length === 0) {
+    return errorResult(400, 'Missing required parameter: query');
+  }
+  if (params.mode !== undefined && !RETRIEVAL_MODES.includes(params.mode as RetrievalMode)) {
+    return errorResult(
+      400,
+      `Invalid retrieval mode: ${String(params.mode)}. Expected one of: ${RETRIEVAL_MODES.join(', ')}`,
+    );
+  }
+  return { status: 200, body: await search(toSearchQuery(params)) };
+}
+
+/**
+ * List indexed documents, optionally filtered by path prefix
+ */
+async function handleList(params: Record<string, unknown>): Promise<RouteResult> {
+  const prefix = typeof params.path_prefix === 'string' ? params.path_prefix : '';
+  const documents = (await getAllDocuments())
+    .filter((d) => !prefix || d.doc_id.startsWith(prefix))
+    .sort((a, b) => a.doc_id.localeCompare(b.doc_id));
+
+  return { status: 200, body: { documents } };
+}
+
+/**
+ * Run an index audit
+ */
+async function handleAudit(params: Record<string, unknown>): Promise<RouteResult> {
+  const type = params.type;
+  if (typeof type !== 'string' || !AUDIT_TYPES.includes(type)) {
+    return errorResult(400, `Unknown audit type: ${String(type)}. Available types: ${AUDIT_TYPES.join(', ')}`);
+  }
+
+  const config = await loadConfig();
+  const detectors = await loadDetectors(config.privacy, findProjectRoot());
+  if (type === 'pii') {
+    return { status: 200, body: { type, results: findPII(detectors) } };
+  }
+
+  const options = {
+    threshold: typeof params.threshold === 'number' ? params.threshold : DEFAULTS.SIMILARITY_THRESHOLD,
+    limit: typeof params.limit === 'number' ? params.limit : DEFAULTS.AUDIT_LIMIT,
+    detectors,
+  };
+  const results = type === 'duplicates' ? findDuplicates(options) : findConflicts(options);
+
+  return { status: 200, body: { type, results } };
+}
+
+/**
+ * Answer a question via the local LLM
+ */
+async function handleChat(params: Record<string, unknown>): Promise<RouteResult> {
+  if (typeof params.query !== 'string' || params.query.trim().length === 0) {
+    return errorResult(400, 'Missing required parameter: query');
+  }
+
+  return { status: 200, body: await answerQuestion(params.query, toChatOptions(params)) };
+}
+
+/** Routes by path, then HTTP method */
+const ROUTES: Record<string, Partial<Record<'GET' | 'POST', RouteHandler>>> = {
+  '/search': { GET: handleSearch, POST: handleSearch },
+  '/status': { GET: async () => ({ status: 200, body: await getStatus() }) },
+  '/list': { GET: handleList },
+  '/audit': { GET: handleAudit },
+  '/chat': { POST: handleChat },
+};
+
+/**
+ * Route a request and produce a result.
+ *
+ * Requests for another host get 421, from a foreign origin 403, and POST
+ * bodies that are not `application/json` 415. `OPTIONS` requests (CORS
+ * preflights) get 204 with the methods and headers the path accepts.
+ * Cursor errors become 400 (`invalid_cursor`) or 409 (`stale_cursor`) responses
+ * with a `code`; other errors thrown by handlers become 500 responses.
+ */
+async function route(req: IncomingMessage, policy: RequestPolicy): Promise<RouteResponse> {
+  const rejected = checkRequestSource(req, policy);
+  if (rejected) {
+    return { result: rejected, headers: { Vary: 'Origin' } };
+  }
+
+  const headers = corsHeaders(req);
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const handlers = ROUTES[url.pathname];
+
+  if (!handlers) {
+    return { result: errorResult(404, `Not found: ${url.pathname}`), headers };
+  }
+
+  const allow = Object.keys(handlers).join(', ');
+  if (req.method === 'OPTIONS') {
+    return {
+      result: { status: 204, body: null },
+      headers: {
+        ...headers,
+        Allow: allow,
+        'Access-Control-Allow-Methods': allow,
+        'Access-Control-Allow-Headers': 'Content-Type',
+      },
+    };
+  }
+
+  const method = req.method as 'GET' | 'POST';
+  const handler = handlers[method];
+  if (!handler) {
+    return {
+      result: errorResult(405, `Method ${req.method} not allowed (use ${allow})`),
+      headers: { ...headers, Allow: allow },
+    };
+  }
+
+  let params = parseQueryParams(url.searchParams);
+  if (method === 'POST') {
+    if (!isJsonRequest(req)) {
+      return { result: errorResult(415, 'Content-Type must be application/json'), headers };
+    }
+    const body = await readJsonBody(req);
+    if (typeof body === 'string') {
+      return { result: errorResult(400, body), headers };
+    }
+    params = { ...params, ...body };
+  }
+
+  try {
+    return { result: await handler(params), headers };
+  } catch (error) {
+    if (error instanceof CursorError) {
+      return {
+        result: { status: error.code === 'stale_cursor' ? 409 : 400, body: { error: error.message, code: error.code } },
+        headers,
+      };
+    }
+    return { result: errorResult(500, error instanceof Error ? error.message : String(error)), headers };
+  }
+}
+
+/**
+ * Write a JSON response (no body for 204)
+ */
+function sendJson(res: ServerResponse, result: RouteResult, headers: Record<string, string> = {}): void {
+  res.statusCode = result.status;
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value);
+  }
+  if (result.status === 204) {
+    res.end();
+    return;
+  }
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(result.body));
+}
+
+/**
+ * Create the HTTP API server (not listening).
+ *
+ * @param options - Bind host (accepted in `Host` besides loopback names) and allowed origins
+ * @returns Node HTTP server with DSEEK routes
+ */
+export function createHttpServer(options: Pick<HttpServerOptions, 'host' | 'allowedOrigins'> = {}): Server {
+  const policy: RequestPolicy = {
+    hosts: options.host ? [options.host.toLowerCase().replace(/^\[|\]$/g, '')] : [],
+    origins: (options.allowedOrigins ?? []).map((origin) => origin.replace(/\/+$/, '')),
+  };
+
+  return createServer((req, res) => {
+    route(req, policy).then(
+      ({ result, headers }) => sendJson(res, result, headers),
+      (error) => sendJson(res, errorResult(500, error instanceof Error ? error.message : String(error))),
+    );
+  });
+}
+
+/**
+ * Start the HTTP API server.
+ *
+ * Binds to localhost unless another host is given; binding to a non-loopback
+ * address requires `privacy.allow_remote`. Only requests naming a loopback
+ * host or `host` in their `Host` header are served. Models are loaded before listening
+ * so the first request does not pay the load time.
+ *
+ * @param options - Host, port and warmup options
+ * @returns Listening server
+ * @throws Error if a non-local host is requested without `privacy.allow_remote`
+ *
+ * @example
+ * ```ts
+ * const server = await startHttpServer({ port: 7411 });
+ * ```
+ */
+export async function startHttpServer(options: HttpServerOptions = {}): Promise<Server> {
+  const host = options.host ?? NETWORK.DEFAULT_SERVE_HOST;
+  const port = options.port ?? NETWORK.DEFAULT_SERVE_PORT;
+  const config = await loadConfig();
+
+  if (!isLoopbackHost(host) && !config.privacy.allow_remote) {
+    throw new Error(
+      `Refusing to bind to non-local address ${host}. Set privacy.allow_remote to true in .dseek/config.json to allow it.`,
+    );
+  }
+
+  // Keep models warm for the lifetime of the server
+  if (config.retrieval.mode !== 'keyword') {
+    await getEmbedder();
+  }
+  if (options.warmReranker) {
+    await getReranker();
+  }
+
+  const server = createHttpServer({ host, allowedOrigins: options.allowedOrigins });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  server.on('close', () => {
+    closeDb();
+  });
+
+  return server;
+}
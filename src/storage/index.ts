@@ -11,8 +11,44 @@ import { existsSync } from 'node:fs';
 import { mkdir } from 'node:fs/promises';
 import type Database from 'better-sqlite3';
 import { LIMITS, RETRIEVAL_WEIGHTS, SEARCH, SQLITE } from '../core/constants.js';
-import type { Chunk, SearchFilters, SearchResult } from '../types/index.js';
-import { closeDb, getDb, getDbPath, getIndexDir, resetDb } from './sqlite.js';
+import { fuseWeighted } from '../core/fusion.js';
+import type {
+  Chunk,
+  EmbeddingConfig,
+  FusionMethod,
+  ScoreNormalization,
+  SearchFilters,
+  SearchResult,
+} from '../types/index.js';
+import {
+  closeDb,
+  getDb,
+  getDbPath,
+  getIndexDir,
+  getVectorModel,
+  resetDb,
+  resetVectorTable,
+  setVectorModel,
+} from './sqlite.js';
+
+/**
+ * Raised when the index vectors were built with another embedding model than configured
+ */
+export class EmbeddingModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingModelError';
+  }
+}
+
+/**
+ * Chunk text to (re-)embed
+ */
+export interface ChunkText {
+  id: number;
+  text: string;
+  heading_path?: string;
+}
 
 /**
  * Get index directory path
@@ -79,8 +115,8 @@ export async function insertChunk(chunk: Chunk): Promise<void> {
   const db = getDb();
 
   const insertChunkStmt = db.prepare(`
-    INSERT INTO chunks (chunk_id, doc_id, text, snippet, line_start, line_end, page_start, page_end)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO chunks (chunk_id, doc_id, text, snippet, line_start, line_end, page_start, page_end, heading_path)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertVecStmt = db.prepare(`
@@ -96,6 +132,7 @@ export async function insertChunk(chunk: Chunk): Promise<void> {
     chunk.line_end,
     chunk.page_start ?? null,
     chunk.page_end ?? null,
+    chunk.heading_path ?? null,
   );
 
   if (chunk.embedding && chunk.embedding.length > 0) {
@@ -117,8 +154,8 @@ export async function insertChunks(chunks: Chunk[]): Promise<void> {
   const db = getDb();
 
   const insertChunkStmt = db.prepare(`
-    INSERT INTO chunks (chunk_id, doc_id, text, snippet, line_start, line_end, page_start, page_end)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO chunks (chunk_id, doc_id, text, snippet, line_start, line_end, page_start, page_end, heading_path)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertVecStmt = db.prepare(`
@@ -136,6 +173,7 @@ export async function insertChunks(chunks: Chunk[]): Promise<void> {
         chunk.line_end,
         chunk.page_start ?? null,
         chunk.page_end ?? null,
+        chunk.heading_path ?? null,
       );
 
       if (chunk.embedding && chunk.embedding.length > 0) {
@@ -179,13 +217,240 @@ export async function removeDocument(docId: string): Promise<number> {
   return transaction();
 }
 
+/** Options shared by the index search functions */
+export interface SearchIndexOptions {
+  limit?: number;
+  offset?: number;
+  semanticWeight?: number;
+  keywordWeight?: number;
+  /** Hybrid fusion method (default: rrf) */
+  fusion?: FusionMethod;
+  /** Score normalization for weighted fusion (default: min-max) */
+  normalization?: ScoreNormalization;
+  filters?: SearchFilters;
+}
+
+/** Row shape returned by the search queries */
+interface SearchRow {
+  chunk_id: string;
+  doc_id: string;
+  snippet: string;
+  line_start: number;
+  line_end: number;
+  page_start: number | null;
+  page_end: number | null;
+  heading_path: string | null;
+  score: number;
+}
+
+/**
+ * Map a search row to a search result
+ */
+function toSearchResult(r: SearchRow): SearchResult {
+  return {
+    chunk_id: r.chunk_id,
+    path: r.doc_id,
+    line_start: r.line_start,
+    line_end: r.line_end,
+    page_start: r.page_start,
+    page_end: r.page_end,
+    score: r.score,
+    snippet: r.snippet,
+    ...(r.heading_path ? { heading_path: r.heading_path } : {}),
+  };
+}
+
+/**
+ * Run a vector-only similarity query with filters.
+ *
+ * Scores are cosine similarities; results below `SEARCH.MIN_SIMILARITY` are dropped.
+ */
+function runVectorQuery(
+  db: Database.Database,
+  embedding: number[],
+  options: {
+    limit: number;
+    offset: number;
+    fetchLimit: number;
+    pathPrefix: string | null;
+    sourceName: string | null;
+    section: string | null;
+  },
+): SearchResult[] {
+  const vecOnlyQuery = db.prepare(`
+    SELECT
+      c.chunk_id, c.doc_id, c.snippet, c.line_start, c.line_end,
+      c.page_start, c.page_end, c.heading_path,
+      (1.0 - v.distance) as score
+    FROM chunks_vec v
+    JOIN chunks c ON c.id = v.chunk_rowid
+    LEFT JOIN documents d ON c.doc_id = d.doc_id
+    WHERE v.embedding MATCH ?
+      AND v.k = ?
+      AND (? IS NULL OR c.doc_id LIKE ? || '%')
+      AND (? IS NULL OR d.source_name = ?)
+      AND (? IS NULL OR c.heading_path LIKE ? ESCAPE '\\')
+    ORDER BY v.distance
+    LIMIT ? OFFSET ?
+  `);
+
+  const { limit, offset, fetchLimit, pathPrefix, sourceName, section } = options;
+  const embeddingBuffer = new Float32Array(embedding);
+  const vecResults = vecOnlyQuery.all(
+    embeddingBuffer,
+    fetchLimit,
+    pathPrefix,
+    pathPrefix,
+    sourceName,
+    sourceName,
+    section,
+    section,
+    limit,
+    offset,
+  ) as SearchRow[];
+
+  return vecResults.filter((r) => r.score >= SEARCH.MIN_SIMILARITY).map(toSearchResult);
+}
+
+/**
+ * Count the candidates `runVectorQuery()` pages through: the `fetchLimit`
+ * nearest chunks that pass the filters and `SEARCH.MIN_SIMILARITY`.
+ */
+function countVectorMatches(
+  db: Database.Database,
+  embedding: number[],
+  options: { fetchLimit: number; pathPrefix: string | null; sourceName: string | null; section: string | null },
+): number {
+  const countQuery = db.prepare(`
+    SELECT COUNT(*) as count
+    FROM chunks_vec v
+    JOIN chunks c ON c.id = v.chunk_rowid
+    LEFT JOIN documents d ON c.doc_id = d.doc_id
+    WHERE v.embedding MATCH ?
+      AND v.k = ?
+      AND (? IS NULL OR c.doc_id LIKE ? || '%')
+      AND (? IS NULL OR d.source_name = ?)
+      AND (? IS NULL OR c.heading_path LIKE ? ESCAPE '\\')
+      AND (1.0 - v.distance) >= ?
+  `);
+
+  const { fetchLimit, pathPrefix, sourceName, section } = options;
+  const countResult = countQuery.get(
+    new Float32Array(embedding),
+    fetchLimit,
+    pathPrefix,
+    pathPrefix,
+    sourceName,
+    sourceName,
+    section,
+    section,
+    SEARCH.MIN_SIMILARITY,
+  ) as { count: number };
+
+  return countResult.count;
+}
+
+/**
+ * Run hybrid search with weighted fusion of normalized BM25 and vector scores.
+ *
+ * Filters are applied to both candidate lists before fusion so pages stay consistent.
+ *
+ * @throws Error if the FTS query is invalid
+ */
+function runWeightedQuery(
+  db: Database.Database,
+  ftsQuery: string,
+  embedding: number[],
+  options: {
+    limit: number;
+    offset: number;
+    fetchLimit: number;
+    pathPrefix: string | null;
+    sourceName: string | null;
+    section: string | null;
+    semanticWeight: number;
+    keywordWeight: number;
+    normalization: ScoreNormalization;
+  },
+): { results: SearchResult[]; total: number; fusionTime: number } {
+  const { limit, offset, fetchLimit, pathPrefix, sourceName, section } = options;
+
+  const keywordQuery = db.prepare(`
+    SELECT
+      c.id, c.chunk_id, c.doc_id, c.snippet, c.line_start, c.line_end,
+      c.page_start, c.page_end, c.heading_path,
+      -bm25(chunks_fts) as score
+    FROM chunks_fts
+    JOIN chunks c ON c.id = chunks_fts.rowid
+    LEFT JOIN documents d ON c.doc_id = d.doc_id
+    WHERE chunks_fts MATCH ?
+      AND (? IS NULL OR c.doc_id LIKE ? || '%')
+      AND (? IS NULL OR d.source_name = ?)
+      AND (? IS NULL OR c.heading_path LIKE ? ESCAPE '\\')
+    ORDER BY bm25(chunks_fts)
+    LIMIT ?
+  `);
+
+  const vectorQuery = db.prepare(`
+    SELECT
+      c.id, c.chunk_id, c.doc_id, c.snippet, c.line_start, c.line_end,
+      c.page_start, c.page_end, c.heading_path,
+      (1.0 - v.distance) as score
+    FROM chunks_vec v
+    JOIN chunks c ON c.id = v.chunk_rowid
+    LEFT JOIN documents d ON c.doc_id = d.doc_id
+    WHERE v.embedding MATCH ?
+      AND v.k = ?
+      AND (? IS NULL OR c.doc_id LIKE ? || '%')
+      AND (? IS NULL OR d.source_name = ?)
+      AND (? IS NULL OR c.heading_path LIKE ? ESCAPE '\\')
+    ORDER BY v.distance
+  `);
+
+  const keywordRows = keywordQuery.all(
+    ftsQuery,
+    pathPrefix,
+    pathPrefix,
+    sourceName,
+    sourceName,
+    section,
+    section,
+    fetchLimit,
+  ) as Array<SearchRow & { id: number }>;
+  const vectorRows = vectorQuery.all(
+    new Float32Array(embedding),
+    fetchLimit,
+    pathPrefix,
+    pathPrefix,
+    sourceName,
+    sourceName,
+    section,
+    section,
+  ) as Array<SearchRow & { id: number }>;
+
+  const fusionStart = Date.now();
+  const fused = fuseWeighted(keywordRows, vectorRows, options);
+  const fusionTime = Date.now() - fusionStart;
+
+  const rows = new Map([...vectorRows, ...keywordRows].map((r) => [r.id, r]));
+  const results = fused.slice(offset, offset + limit).flatMap((f) => {
+    const row = rows.get(f.id);
+    return row ? [toSearchResult({ ...row, score: f.score })] : [];
+  });
+
+  return { results, total: fused.length, fusionTime };
+}
+
 /**
- * Search the index using hybrid BM25 + vector mode with RRF fusion.
+ * Search the index using hybrid BM25 + vector mode.
+ *
+ * Fuses keyword and semantic rankings with RRF (default) or, with
+ * `fusion: 'weighted'`, with weighted per-query normalized scores.
  *
  * @param query - Search query text
  * @param embedding - Query embedding vector (768 dimensions)
- * @param options - Search options (limit, offset, weights)
- * @returns Search results with scores and total count
+ * @param options - Search options (limit, offset, weights, fusion)
+ * @returns Search results with scores, total count and fusion time (weighted fusion only)
  *
  * @example
  * ```ts
@@ -198,14 +463,8 @@ export async function removeDocument(docId: string): Promise<number> {
 export async function searchIndex(
   query: string,
   embedding: number[],
-  options: {
-    limit?: number;
-    offset?: number;
-    semanticWeight?: number;
-    keywordWeight?: number;
-    filters?: SearchFilters;
-  } = {},
-): Promise<{ results: SearchResult[]; total: number }> {
+  options: SearchIndexOptions = {},
+): Promise<{ results: SearchResult[]; total: number; fusionTime?: number }> {
   const db = getDb();
 
   const {
@@ -213,12 +472,15 @@ export async function searchIndex(
     offset = 0,
     semanticWeight = RETRIEVAL_WEIGHTS.SEMANTIC,
     keywordWeight = RETRIEVAL_WEIGHTS.KEYWORD,
+    fusion = 'rrf',
+    normalization = 'min-max',
     filters,
   } = options;
 
   // Prepare filter values
   const pathPrefix = filters?.path_prefix || null;
   const sourceName = filters?.source_name || null;
+  const section = toSectionPattern(filters?.section);
 
   const k = SQLITE.RRF_K;
   // Fetch consistent number of candidates for RRF merging to ensure stable pagination
@@ -255,7 +517,7 @@ export async function searchIndex(
     )
     SELECT
       c.chunk_id, c.doc_id, c.snippet, c.line_start, c.line_end,
-      c.page_start, c.page_end,
+      c.page_start, c.page_end, c.heading_path,
       (
         COALESCE(1.0 / (? + combined.fts_rank), 0.0) * ? +
         COALESCE(1.0 / (? + combined.vec_rank), 0.0) * ?
@@ -265,6 +527,7 @@ export async function searchIndex(
     LEFT JOIN documents d ON c.doc_id = d.doc_id
     WHERE (? IS NULL OR c.doc_id LIKE ? || '%')
       AND (? IS NULL OR d.source_name = ?)
+      AND (? IS NULL OR c.heading_path LIKE ? ESCAPE '\\')
     ORDER BY score DESC
     LIMIT ? OFFSET ?
   `);
@@ -276,63 +539,36 @@ export async function searchIndex(
 
   let results: SearchResult[] = [];
   let total = 0;
+  let fusionTime: number | undefined;
 
   // Handle empty query (vector-only search)
   if (!query.trim()) {
-    // Vector-only search with filters
-    const vecOnlyQuery = db.prepare(`
-      SELECT
-        c.chunk_id, c.doc_id, c.snippet, c.line_start, c.line_end,
-        c.page_start, c.page_end,
-        (1.0 - v.distance) as score
-      FROM chunks_vec v
-      JOIN chunks c ON c.id = v.chunk_rowid
-      LEFT JOIN documents d ON c.doc_id = d.doc_id
-      WHERE v.embedding MATCH ?
-        AND v.k = ?
-        AND (? IS NULL OR c.doc_id LIKE ? || '%')
-        AND (? IS NULL OR d.source_name = ?)
-      ORDER BY v.distance
-      LIMIT ? OFFSET ?
-    `);
-
-    const embeddingBuffer = new Float32Array(embedding);
-    const vecResults = vecOnlyQuery.all(
-      embeddingBuffer,
-      fetchLimit,
-      pathPrefix,
-      pathPrefix,
-      sourceName,
-      sourceName,
-      limit,
-      offset,
-    ) as Array<{
-      chunk_id: string;
-      doc_id: string;
-      snippet: string;
-      line_start: number;
-      line_end: number;
-      page_start: number | null;
-      page_end: number | null;
-      score: number;
-    }>;
-
-    results = vecResults
-      .filter((r) => r.score >= SEARCH.MIN_SIMILARITY)
-      .map((r) => ({
-        chunk_id: r.chunk_id,
-        path: r.doc_id,
-        line_start: r.line_start,
-        line_end: r.line_end,
-        page_start: r.page_start,
-        page_end: r.page_end,
-        score: r.score,
-        snippet: r.snippet,
-      }));
+    results = runVectorQuery(db, embedding, { limit, offset, fetchLimit, pathPrefix, sourceName, section });
 
     // Get approximate total
     const countResult = db.prepare('SELECT COUNT(*) as count FROM chunks').get() as { count: number };
     total = countResult.count;
+  } else if (fusion === 'weighted') {
+    // Hybrid search with weighted score fusion
+    try {
+      ({ results, total, fusionTime } = runWeightedQuery(db, escapeFtsQuery(query), embedding, {
+        limit,
+        offset,
+        fetchLimit,
+        pathPrefix,
+        sourceName,
+        section,
+        semanticWeight,
+        keywordWeight,
+        normalization,
+      }));
+    } catch (error) {
+      // Fallback to vector-only if FTS query fails (e.g., invalid syntax)
+      console.warn('FTS query failed, falling back to vector-only search:', error);
+
+      results = runVectorQuery(db, embedding, { limit, offset, fetchLimit, pathPrefix, sourceName, section });
+      total = results.length;
+    }
   } else {
     // Hybrid search with RRF
     try {
@@ -354,29 +590,13 @@ export async function searchIndex(
         pathPrefix,
         sourceName,
         sourceName,
+        section,
+        section,
         limit,
         offset,
-      ) as Array<{
-        chunk_id: string;
-        doc_id: string;
-        snippet: string;
-        line_start: number;
-        line_end: number;
-        page_start: number | null;
-        page_end: number | null;
-        score: number;
-      }>;
-
-      results = hybridResults.map((r) => ({
-        chunk_id: r.chunk_id,
-        path: r.doc_id,
-        line_start: r.line_start,
-        line_end: r.line_end,
-        page_start: r.page_start,
-        page_end: r.page_end,
-        score: r.score,
-        snippet: r.snippet,
-      }));
+      ) as SearchRow[];
+
+      results = hybridResults.map(toSearchResult);
 
       // Get FTS match count as approximation
       const countResult = countFtsQuery.get(ftsQuery) as { count: number };
@@ -385,56 +605,7 @@ export async function searchIndex(
       // Fallback to vector-only if FTS query fails (e.g., invalid syntax)
       console.warn('FTS query failed, falling back to vector-only search:', error);
 
-      const vecOnlyQuery = db.prepare(`
-        SELECT
-          c.chunk_id, c.doc_id, c.snippet, c.line_start, c.line_end,
-          c.page_start, c.page_end,
-          (1.0 - v.distance) as score
-        FROM chunks_vec v
-        JOIN chunks c ON c.id = v.chunk_rowid
-        LEFT JOIN documents d ON c.doc_id = d.doc_id
-        WHERE v.embedding MATCH ?
-          AND v.k = ?
-          AND (? IS NULL OR c.doc_id LIKE ? || '%')
-          AND (? IS NULL OR d.source_name = ?)
-        ORDER BY v.distance
-        LIMIT ? OFFSET ?
-      `);
-
-      const embeddingBuffer = new Float32Array(embedding);
-      const vecResults = vecOnlyQuery.all(
-        embeddingBuffer,
-        fetchLimit,
-        pathPrefix,
-        pathPrefix,
-        sourceName,
-        sourceName,
-        limit,
-        offset,
-      ) as Array<{
-        chunk_id: string;
-        doc_id: string;
-        snippet: string;
-        line_start: number;
-        line_end: number;
-        page_start: number | null;
-        page_end: number | null;
-        score: number;
-      }>;
-
-      results = vecResults
-        .filter((r) => r.score >= SEARCH.MIN_SIMILARITY)
-        .map((r) => ({
-          chunk_id: r.chunk_id,
-          path: r.doc_id,
-          line_start: r.line_start,
-          line_end: r.line_end,
-          page_start: r.page_start,
-          page_end: r.page_end,
-          score: r.score,
-          snippet: r.snippet,
-        }));
-
+      results = runVectorQuery(db, embedding, { limit, offset, fetchLimit, pathPrefix, sourceName, section });
       total = results.length;
     }
   }
@@ -442,9 +613,136 @@ export async function searchIndex(
   return {
     results,
     total,
+    fusionTime,
   };
 }
 
+/**
+ * Search the index using vector similarity only.
+ *
+ * @param embedding - Query embedding vector (768 dimensions)
+ * @param options - Search options (limit, offset, filters)
+ * @returns Results scored by cosine similarity and the number of filtered matches among the nearest candidates
+ *
+ * @example
+ * ```ts
+ * const { results } = await semanticSearchIndex(queryEmbedding, { limit: 10 });
+ * ```
+ */
+export async function semanticSearchIndex(
+  embedding: number[],
+  options: SearchIndexOptions = {},
+): Promise<{ results: SearchResult[]; total: number }> {
+  const db = getDb();
+
+  const { limit = LIMITS.DEFAULT_RESULTS, offset = 0, filters } = options;
+  const fetchLimit = Math.max(limit + offset, 50) * 2;
+
+  const vectorOptions = {
+    fetchLimit,
+    pathPrefix: filters?.path_prefix || null,
+    sourceName: filters?.source_name || null,
+    section: toSectionPattern(filters?.section),
+  };
+  const results = runVectorQuery(db, embedding, { ...vectorOptions, limit, offset });
+
+  return { results, total: countVectorMatches(db, embedding, vectorOptions) };
+}
+
+/**
+ * Search the index using FTS5 BM25 only.
+ *
+ * Needs no query embedding, so no model is loaded.
+ * Scores are negated `bm25()` values: higher is better, not bounded to 0-1.
+ *
+ * @param query - Search query text
+ * @param options - Search options (limit, offset, filters)
+ * @returns Results ranked by BM25 and exact filtered match count
+ *
+ * @example
+ * ```ts
+ * const { results, total } = await keywordSearchIndex("refresh token", { limit: 10 });
+ * ```
+ */
+export async function keywordSearchIndex(
+  query: string,
+  options: SearchIndexOptions = {},
+): Promise<{ results: SearchResult[]; total: number }> {
+  if (!query.trim()) {
+    return { results: [], total: 0 };
+  }
+
+  const db = getDb();
+
+  const { limit = LIMITS.DEFAULT_RESULTS, offset = 0, filters } = options;
+  const pathPrefix = filters?.path_prefix || null;
+  const sourceName = filters?.source_name || null;
+  const section = toSectionPattern(filters?.section);
+  const ftsQuery = escapeFtsQuery(query);
+
+  const keywordQuery = db.prepare(`
+    SELECT
+      c.chunk_id, c.doc_id, c.snippet, c.line_start, c.line_end,
+      c.page_start, c.page_end, c.heading_path,
+      -bm25(chunks_fts) as score
+    FROM chunks_fts
+    JOIN chunks c ON c.id = chunks_fts.rowid
+    LEFT JOIN documents d ON c.doc_id = d.doc_id
+    WHERE chunks_fts MATCH ?
+      AND (? IS NULL OR c.doc_id LIKE ? || '%')
+      AND (? IS NULL OR d.source_name = ?)
+      AND (? IS NULL OR c.heading_path LIKE ? ESCAPE '\\')
+    ORDER BY bm25(chunks_fts)
+    LIMIT ? OFFSET ?
+  `);
+
+  const countQuery = db.prepare(`
+    SELECT COUNT(*) as count
+    FROM chunks_fts
+    JOIN chunks c ON c.id = chunks_fts.rowid
+    LEFT JOIN documents d ON c.doc_id = d.doc_id
+    WHERE chunks_fts MATCH ?
+      AND (? IS NULL OR c.doc_id LIKE ? || '%')
+      AND (? IS NULL OR d.source_name = ?)
+      AND (? IS NULL OR c.heading_path LIKE ? ESCAPE '\\')
+  `);
+
+  try {
+    const rows = keywordQuery.all(
+      ftsQuery,
+      pathPrefix,
+      pathPrefix,
+      sourceName,
+      sourceName,
+      section,
+      section,
+      limit,
+      offset,
+    ) as SearchRow[];
+    const countResult = countQuery.get(ftsQuery, pathPrefix, pathPrefix, sourceName, sourceName, section, section) as {
+      count: number;
+    };
+
+    return { results: rows.map(toSearchResult), total: countResult.count };
+  } catch (error) {
+    // Invalid FTS syntax: no keyword matches
+    console.warn('FTS query failed:', error);
+    return { results: [], total: 0 };
+  }
+}
+
+/**
+ * Build the LIKE pattern for a `section` filter, matching the text anywhere in
+ * the heading path with `%`, `_` and `\` taken literally.
+ *
+ * @param section - Section filter text
+ * @returns Pattern for `LIKE ? ESCAPE '\'`, or null without a filter
+ */
+function toSectionPattern(section: string | undefined): string | null {
+  if (!section) return null;
+  return `%${section.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
 /**
  * Escape special FTS5 query characters.
  *
@@ -500,6 +798,157 @@ export async function documentExists(docId: string): Promise<boolean> {
   return result !== undefined;
 }
 
+/**
+ * Ensure the index vectors match the configured embedding model.
+ *
+ * An index without chunks adopts the configured model, recreating the
+ * vector table if the dimensions differ.
+ *
+ * @param model - Configured embedding model
+ * @throws EmbeddingModelError if indexed vectors use another model
+ */
+export async function checkEmbeddingModel(model: EmbeddingConfig): Promise<void> {
+  const indexed = getVectorModel();
+  if (indexed.model === model.model && indexed.dimensions === model.dimensions) {
+    return;
+  }
+
+  const db = getDb();
+  if (!db.prepare('SELECT 1 FROM chunks LIMIT 1').get()) {
+    if (indexed.dimensions !== model.dimensions) {
+      resetVectorTable(model.dimensions);
+    }
+    setVectorModel(model);
+    return;
+  }
+
+  const current = indexed.model ? `${indexed.model} (${indexed.dimensions} dims)` : 'an unfinished rebuild';
+  throw new EmbeddingModelError(
+    `Index embeddings are from ${current}, but embedding.model is ${model.model} (${model.dimensions} dims). ` +
+      'Run `dseek reindex --embeddings` to rebuild them.',
+  );
+}
+
+/**
+ * Read chunk texts in rowid order, one page at a time.
+ *
+ * @param afterId - Return chunks with a rowid above this one
+ * @param limit - Maximum number of chunks
+ * @returns Chunk rowids with their text and heading path
+ */
+export async function getChunkTexts(afterId: number, limit: number): Promise<ChunkText[]> {
+  const db = getDb();
+  const rows = db
+    .prepare('SELECT id, text, heading_path FROM chunks WHERE id > ? ORDER BY id LIMIT ?')
+    .all(afterId, limit) as Array<{ id: number; text: string; heading_path: string | null }>;
+
+  return rows.map((row) => ({
+    id: row.id,
+    text: row.text,
+    ...(row.heading_path !== null && { heading_path: row.heading_path }),
+  }));
+}
+
+/**
+ * Store embeddings of existing chunks.
+ *
+ * @param rows - Chunk rowids with their embeddings
+ */
+export async function insertEmbeddings(rows: Array<{ id: number; embedding: number[] }>): Promise<void> {
+  const db = getDb();
+  const insertVecStmt = db.prepare('INSERT INTO chunks_vec (chunk_rowid, embedding) VALUES (?, ?)');
+
+  db.transaction(() => {
+    for (const row of rows) {
+      insertVecStmt.run(BigInt(row.id), new Float32Array(row.embedding));
+    }
+  })();
+}
+
+/**
+ * Drop all vectors and prepare the vector table for a new embedding model.
+ *
+ * @param dimensions - Vector dimensions of the new model
+ */
+export async function resetEmbeddings(dimensions: number): Promise<void> {
+  resetVectorTable(dimensions);
+}
+
+/**
+ * Record the embedding model of the index vectors.
+ */
+export { getVectorModel, setVectorModel };
+
+/**
+ * Look up cached embeddings and mark them as used.
+ *
+ * @param hashes - Content hashes of the embedded texts
+ * @param model - Embedding model id
+ * @returns Cached vectors by content hash
+ */
+export async function getCachedEmbeddings(hashes: string[], model: string): Promise<Map<string, number[]>> {
+  const db = getDb();
+  const selectStmt = db.prepare('SELECT embedding FROM embedding_cache WHERE content_hash = ? AND model = ?');
+  const touchStmt = db.prepare('UPDATE embedding_cache SET used_at = ? WHERE content_hash = ? AND model = ?');
+  const now = Date.now();
+  const cached = new Map<string, number[]>();
+
+  db.transaction(() => {
+    for (const hash of new Set(hashes)) {
+      const row = selectStmt.get(hash, model) as { embedding: Buffer } | undefined;
+      if (!row) continue;
+
+      const vector = new Float32Array(row.embedding.buffer, row.embedding.byteOffset, row.embedding.byteLength / 4);
+      cached.set(hash, Array.from(vector));
+      touchStmt.run(now, hash, model);
+    }
+  })();
+
+  return cached;
+}
+
+/**
+ * Store embeddings in the cache.
+ *
+ * @param entries - Content hashes with their vectors
+ * @param model - Embedding model id
+ */
+export async function cacheEmbeddings(
+  entries: Array<{ hash: string; embedding: number[] }>,
+  model: string,
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const db = getDb();
+  const insertStmt = db.prepare(
+    'INSERT OR REPLACE INTO embedding_cache (content_hash, model, embedding, used_at) VALUES (?, ?, ?, ?)',
+  );
+  const now = Date.now();
+
+  db.transaction(() => {
+    for (const entry of entries) {
+      insertStmt.run(entry.hash, model, Buffer.from(new Float32Array(entry.embedding).buffer), now);
+    }
+  })();
+}
+
+/**
+ * Drop the least recently used cache entries beyond a limit.
+ *
+ * @param maxEntries - Entries to keep
+ * @returns Number of entries removed
+ */
+export async function pruneEmbeddingCache(maxEntries: number): Promise<number> {
+  const db = getDb();
+  const result = db
+    .prepare(
+      'DELETE FROM embedding_cache WHERE rowid IN (SELECT rowid FROM embedding_cache ORDER BY used_at DESC LIMIT -1 OFFSET ?)',
+    )
+    .run(maxEntries);
+
+  return result.changes;
+}
+
 /**
  * Reset the index (for testing).
  *
@@ -513,6 +962,7 @@ export async function resetIndex(): Promise<void> {
     DELETE FROM chunks;
     DELETE FROM documents;
     DELETE FROM index_events;
+    DELETE FROM embedding_cache;
   `);
 }
 
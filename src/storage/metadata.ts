@@ -7,7 +7,7 @@
  * @module metadata
  */
 
-import type { Document, IndexEvent } from '../types/index.js';
+import type { Document, IndexEvent, SensitiveFile, SensitivePathPolicy } from '../types/index.js';
 import { getDb } from './sqlite.js';
 
 /**
@@ -19,6 +19,33 @@ function generateIndexVersion(): string {
   return Date.now().toString(36) + Math.random().toString(36).substring(2, 6);
 }
 
+interface DocumentRow {
+  doc_id: string;
+  source_name: string;
+  format: string;
+  content_hash: string;
+  updated_at: string;
+  size_bytes: number;
+  pii_stats: string | null;
+  source_doc_id: string | null;
+}
+
+/**
+ * Convert a documents row to document metadata
+ */
+function toDocument(row: DocumentRow): Document {
+  return {
+    doc_id: row.doc_id,
+    source_name: row.source_name,
+    format: row.format as Document['format'],
+    content_hash: row.content_hash,
+    updated_at: row.updated_at,
+    size_bytes: row.size_bytes,
+    pii_stats: row.pii_stats !== null ? (JSON.parse(row.pii_stats) as Record<string, number>) : undefined,
+    source_doc_id: row.source_doc_id ?? undefined,
+  };
+}
+
 /**
  * Get document metadata by ID.
  *
@@ -30,31 +57,13 @@ export async function getDocument(docId: string): Promise<Document | null> {
   const result = db
     .prepare(
       `
-    SELECT doc_id, source_name, format, content_hash, updated_at, size_bytes
+    SELECT doc_id, source_name, format, content_hash, updated_at, size_bytes, pii_stats, source_doc_id
     FROM documents WHERE doc_id = ?
   `,
     )
-    .get(docId) as
-    | {
-        doc_id: string;
-        source_name: string;
-        format: string;
-        content_hash: string;
-        updated_at: string;
-        size_bytes: number;
-      }
-    | undefined;
-
-  if (!result) return null;
+    .get(docId) as DocumentRow | undefined;
 
-  return {
-    doc_id: result.doc_id,
-    source_name: result.source_name,
-    format: result.format as Document['format'],
-    content_hash: result.content_hash,
-    updated_at: result.updated_at,
-    size_bytes: result.size_bytes,
-  };
+  return result ? toDocument(result) : null;
 }
 
 /**
@@ -67,10 +76,55 @@ export async function setDocument(doc: Document): Promise<void> {
 
   db.prepare(
     `
-    INSERT OR REPLACE INTO documents (doc_id, source_name, format, content_hash, updated_at, size_bytes)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT OR REPLACE INTO documents
+      (doc_id, source_name, format, content_hash, updated_at, size_bytes, pii_stats, source_doc_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `,
-  ).run(doc.doc_id, doc.source_name, doc.format, doc.content_hash, doc.updated_at, doc.size_bytes);
+  ).run(
+    doc.doc_id,
+    doc.source_name,
+    doc.format,
+    doc.content_hash,
+    doc.updated_at,
+    doc.size_bytes,
+    doc.pii_stats ? JSON.stringify(doc.pii_stats) : null,
+    doc.source_doc_id ?? null,
+  );
+}
+
+/**
+ * Get the documents split out of a file (e.g. the messages of an mbox).
+ *
+ * @param sourceDocId - Document identifier of the file
+ * @returns Documents whose `source_doc_id` is the file, sorted by ID
+ */
+export async function getDocumentParts(sourceDocId: string): Promise<Document[]> {
+  const db = getDb();
+  const results = db
+    .prepare(
+      `
+    SELECT doc_id, source_name, format, content_hash, updated_at, size_bytes, pii_stats, source_doc_id
+    FROM documents WHERE source_doc_id = ? ORDER BY doc_id
+  `,
+    )
+    .all(sourceDocId) as DocumentRow[];
+
+  return results.map(toDocument);
+}
+
+/**
+ * Update the owning source of a document and the documents split out of it.
+ *
+ * @param docId - Document identifier
+ * @param sourceName - Name of the owning source
+ * @returns True if the stored source name changed
+ */
+export async function updateDocumentSource(docId: string, sourceName: string): Promise<boolean> {
+  const db = getDb();
+  const result = db
+    .prepare('UPDATE documents SET source_name = ? WHERE (doc_id = ? OR source_doc_id = ?) AND source_name != ?')
+    .run(sourceName, docId, docId, sourceName);
+  return result.changes > 0;
 }
 
 /**
@@ -95,27 +149,13 @@ export async function getAllDocuments(): Promise<Document[]> {
   const results = db
     .prepare(
       `
-    SELECT doc_id, source_name, format, content_hash, updated_at, size_bytes
+    SELECT doc_id, source_name, format, content_hash, updated_at, size_bytes, pii_stats, source_doc_id
     FROM documents
   `,
     )
-    .all() as Array<{
-    doc_id: string;
-    source_name: string;
-    format: string;
-    content_hash: string;
-    updated_at: string;
-    size_bytes: number;
-  }>;
-
-  return results.map((r) => ({
-    doc_id: r.doc_id,
-    source_name: r.source_name,
-    format: r.format as Document['format'],
-    content_hash: r.content_hash,
-    updated_at: r.updated_at,
-    size_bytes: r.size_bytes,
-  }));
+    .all() as DocumentRow[];
+
+  return results.map(toDocument);
 }
 
 /**
@@ -168,6 +208,49 @@ export async function getLastEvent(): Promise<IndexEvent | null> {
   };
 }
 
+/**
+ * Get sensitive files seen during indexing.
+ *
+ * @returns Sensitive files with the policy applied, sorted by path
+ */
+export async function getSensitiveFiles(): Promise<SensitiveFile[]> {
+  const db = getDb();
+  const result = db.prepare("SELECT value FROM meta WHERE key = 'sensitive_files'").get() as
+    | { value: string }
+    | undefined;
+
+  if (!result) return [];
+
+  const files = JSON.parse(result.value) as Record<string, SensitivePathPolicy>;
+  return Object.entries(files)
+    .map(([path, policy]) => ({ path, policy }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Record or clear the sensitive-path policy applied to a file.
+ *
+ * @param path - Document ID (relative path)
+ * @param policy - Policy applied, or null if the file is no longer tracked
+ */
+export async function setSensitiveFile(path: string, policy: SensitivePathPolicy | null): Promise<void> {
+  const db = getDb();
+  const result = db.prepare("SELECT value FROM meta WHERE key = 'sensitive_files'").get() as
+    | { value: string }
+    | undefined;
+  const files = result ? (JSON.parse(result.value) as Record<string, SensitivePathPolicy>) : {};
+
+  if (policy) {
+    files[path] = policy;
+  } else if (path in files) {
+    delete files[path];
+  } else {
+    return;
+  }
+
+  db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('sensitive_files', ?)").run(JSON.stringify(files));
+}
+
 /**
  * Get index version.
  *
@@ -201,14 +284,15 @@ async function updateIndexVersion(): Promise<void> {
 /**
  * Check if document needs re-indexing.
  *
- * Compares content hash to detect changes.
+ * Compares content hash to detect changes. Documents split out of a file
+ * carry the hash of the file.
  *
  * @param docId - Document identifier
  * @param contentHash - Current content hash
  * @returns True if document is new or content changed
  */
 export async function needsUpdate(docId: string, contentHash: string): Promise<boolean> {
-  const doc = await getDocument(docId);
+  const doc = (await getDocument(docId)) ?? (await getDocumentParts(docId))[0];
   if (!doc) return true;
   return doc.content_hash !== contentHash;
 }
@@ -223,7 +307,7 @@ export async function resetMetadata(): Promise<void> {
   db.exec(`
     DELETE FROM documents;
     DELETE FROM index_events;
-    DELETE FROM meta WHERE key = 'index_version';
+    DELETE FROM meta WHERE key IN ('index_version', 'sensitive_files');
   `);
 }
 
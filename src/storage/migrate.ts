@@ -10,12 +10,12 @@
 import { existsSync, readFileSync, renameSync } from 'node:fs';
 import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { getDseekDir } from '../core/config.js';
-import { DIRS, FILES } from '../core/constants.js';
+import { findProjectRoot, findSourceForPath, getDseekDir, loadConfig } from '../core/config.js';
+import { DIRS, FILES, SQLITE } from '../core/constants.js';
 import type { Chunk, Document, IndexEvent } from '../types/index.js';
 import { insertChunks } from './index.js';
-import { recordEvent, setDocument } from './metadata.js';
-import { getDb } from './sqlite.js';
+import { getAllDocuments, recordEvent, setDocument, updateDocumentSource } from './metadata.js';
+import { getDb, getDbPath, getSchemaVersion, setSchemaVersion } from './sqlite.js';
 
 /**
  * Get path to legacy Orama index file
@@ -243,10 +243,101 @@ export async function migrateFromOrama(): Promise<boolean> {
     }
   }
 
+  // Legacy metadata predates per-source attribution
+  if (totalDocs > 0) {
+    await backfillSourceNames();
+  }
+
   console.log(`Migration complete: ${totalChunks} chunks, ${totalDocs} documents`);
   return true;
 }
 
+/**
+ * Backfill `documents.source_name` from configured sources.
+ *
+ * Matches each document path against source paths and rewrites the stored
+ * source name when it differs. Documents outside every source are left as-is.
+ *
+ * @param projectRoot - Optional project root override
+ * @returns Number of documents updated
+ */
+export async function backfillSourceNames(projectRoot?: string): Promise<number> {
+  const root = projectRoot ?? findProjectRoot();
+  const config = await loadConfig(root);
+
+  if (config.sources.length === 0) {
+    return 0;
+  }
+
+  let updated = 0;
+
+  for (const doc of await getAllDocuments()) {
+    const source = findSourceForPath(doc.doc_id, config.sources, root);
+    if (source && (await updateDocumentSource(doc.doc_id, source.name))) {
+      updated++;
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Add a column to an existing table unless it is already there.
+ */
+function addColumnIfMissing(table: string, column: string, type: string): void {
+  const db = getDb();
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+/**
+ * Upgrade an existing SQLite index to the current schema version.
+ *
+ * Only runs against an existing database file; never creates one.
+ *
+ * @returns True if an upgrade was performed
+ */
+export async function migrateSchema(): Promise<boolean> {
+  if (!existsSync(getDbPath())) {
+    return false;
+  }
+
+  const version = getSchemaVersion();
+  if (version >= SQLITE.SCHEMA_VERSION) {
+    return false;
+  }
+
+  // v3: documents.source_name resolved from configured sources (was always 'default')
+  if (version < 3) {
+    const updated = await backfillSourceNames();
+    if (updated > 0) {
+      console.error(`Backfilled source names for ${updated} documents`);
+    }
+  }
+
+  // v4: documents.pii_stats for index-time redaction
+  if (version < 4) {
+    addColumnIfMissing('documents', 'pii_stats', 'TEXT');
+  }
+
+  // v5: documents.source_doc_id for documents split out of a file (mbox messages)
+  if (version < 5) {
+    addColumnIfMissing('documents', 'source_doc_id', 'TEXT');
+  }
+
+  // v6: chunks.heading_path; chunks indexed before stay without one until re-indexed
+  if (version < 6) {
+    addColumnIfMissing('chunks', 'heading_path', 'TEXT');
+  }
+
+  // v7: embedding_cache is created with the schema and starts empty; no data to migrate
+
+  setSchemaVersion(SQLITE.SCHEMA_VERSION);
+  return true;
+}
+
 /**
  * Check and perform migration on startup.
  *
@@ -256,4 +347,6 @@ export async function checkAndMigrate(): Promise<void> {
   if (needsMigration()) {
     await migrateFromOrama();
   }
+
+  await migrateSchema();
 }
@@ -13,7 +13,8 @@ import { join } from 'node:path';
 import Database from 'better-sqlite3';
 import * as sqliteVec from 'sqlite-vec';
 import { getDseekDir } from '../core/config.js';
-import { DIRS, EMBEDDING_CONFIG, FILES, SQLITE } from '../core/constants.js';
+import { DIRS, EMBEDDING_CONFIG, FILES, MODELS, SQLITE } from '../core/constants.js';
+import type { EmbeddingConfig } from '../types/index.js';
 
 let db: Database.Database | null = null;
 
@@ -31,7 +32,8 @@ CREATE TABLE IF NOT EXISTS chunks (
   line_start INTEGER NOT NULL,
   line_end INTEGER NOT NULL,
   page_start INTEGER,
-  page_end INTEGER
+  page_end INTEGER,
+  heading_path TEXT
 );
 
 -- FTS5 for BM25 keyword search (multilingual)
@@ -63,7 +65,9 @@ CREATE TABLE IF NOT EXISTS documents (
   format TEXT NOT NULL,
   content_hash TEXT NOT NULL,
   updated_at TEXT NOT NULL,
-  size_bytes INTEGER NOT NULL
+  size_bytes INTEGER NOT NULL,
+  pii_stats TEXT,
+  source_doc_id TEXT
 );
 
 -- Events log
@@ -74,6 +78,15 @@ CREATE TABLE IF NOT EXISTS index_events (
   at TEXT NOT NULL
 );
 
+-- Embedding vectors by content hash and model, reused when unchanged chunks are re-indexed
+CREATE TABLE IF NOT EXISTS embedding_cache (
+  content_hash TEXT NOT NULL,
+  model TEXT NOT NULL,
+  embedding BLOB NOT NULL,
+  used_at INTEGER NOT NULL,
+  PRIMARY KEY (content_hash, model)
+);
+
 -- Schema version metadata
 CREATE TABLE IF NOT EXISTS meta (
   key TEXT PRIMARY KEY,
@@ -83,6 +96,7 @@ CREATE TABLE IF NOT EXISTS meta (
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_chunks_doc_id ON chunks(doc_id);
 CREATE INDEX IF NOT EXISTS idx_documents_hash ON documents(content_hash);
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_used ON embedding_cache(used_at);
 `;
 
 /**
@@ -104,23 +118,43 @@ export function getDbPath(): string {
  * Called separately because vec0 virtual table creation has different syntax.
  */
 function initVectorTable(database: Database.Database): void {
-  const dims = EMBEDDING_CONFIG.DIMENSIONS;
-
   // Check if vector table exists
   const tableExists = database
     .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='chunks_vec'")
     .get();
 
   if (!tableExists) {
-    database.exec(`
-      CREATE VIRTUAL TABLE chunks_vec USING vec0(
-        chunk_rowid INTEGER PRIMARY KEY,
-        embedding float[${dims}]
-      );
-    `);
+    createVectorTable(database, readVectorModel(database).dimensions);
   }
 }
 
+function createVectorTable(database: Database.Database, dims: number): void {
+  database.exec(`
+    CREATE VIRTUAL TABLE chunks_vec USING vec0(
+      chunk_rowid INTEGER PRIMARY KEY,
+      embedding float[${dims}]
+    );
+  `);
+}
+
+/**
+ * Read the embedding model recorded in meta.
+ * Indexes created before models were recorded used the default model.
+ */
+function readVectorModel(database: Database.Database): EmbeddingConfig {
+  const rows = database
+    .prepare("SELECT key, value FROM meta WHERE key IN ('embedding_model', 'embedding_dimensions')")
+    .all() as Array<{ key: string; value: string }>;
+  const meta = new Map(rows.map((row) => [row.key, row.value]));
+
+  return {
+    model: meta.get('embedding_model') ?? MODELS.EMBEDDING,
+    dimensions: meta.has('embedding_dimensions')
+      ? Number.parseInt(meta.get('embedding_dimensions') as string, 10)
+      : EMBEDDING_CONFIG.DIMENSIONS,
+  };
+}
+
 /**
  * Initialize schema version tracking
  */
@@ -224,3 +258,57 @@ export function getSchemaVersion(): number {
 
   return result ? Number.parseInt(result.value, 10) : 0;
 }
+
+/**
+ * Set schema version in database.
+ *
+ * @param version - Schema version number to record
+ */
+export function setSchemaVersion(version: number): void {
+  const database = getDb();
+  database.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('schema_version', ?)").run(String(version));
+}
+
+/**
+ * Get the embedding model the vectors in `chunks_vec` were built with.
+ *
+ * An empty model name means a rebuild was started but not finished.
+ *
+ * @returns Model id and vector dimensions
+ */
+export function getVectorModel(): EmbeddingConfig {
+  return readVectorModel(getDb());
+}
+
+/**
+ * Record the embedding model of the vectors in `chunks_vec`.
+ *
+ * @param model - Model id and vector dimensions
+ */
+export function setVectorModel(model: EmbeddingConfig): void {
+  const database = getDb();
+  const upsert = database.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)');
+
+  database.transaction(() => {
+    upsert.run('embedding_model', model.model);
+    upsert.run('embedding_dimensions', String(model.dimensions));
+  })();
+}
+
+/**
+ * Drop all vectors and recreate `chunks_vec` with new dimensions.
+ *
+ * The model is recorded as unknown until {@link setVectorModel} is
+ * called, so an interrupted rebuild is detected.
+ *
+ * @param dimensions - Vector dimensions of the new model
+ */
+export function resetVectorTable(dimensions: number): void {
+  const database = getDb();
+
+  database.transaction(() => {
+    database.exec('DROP TABLE IF EXISTS chunks_vec');
+    createVectorTable(database, dimensions);
+  })();
+  setVectorModel({ model: '', dimensions });
+}
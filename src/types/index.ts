@@ -11,6 +11,7 @@ export interface DseekConfig {
   project_id: string;
   sources: Source[];
   chunking: ChunkingConfig;
+  embedding: EmbeddingConfig;
   retrieval: RetrievalConfig;
   privacy: PrivacyConfig;
   runtime: RuntimeConfig;
@@ -22,6 +23,8 @@ export interface Source {
   include: string[];
   exclude: string[];
   watch: boolean;
+  /** Overrides `privacy.sensitive_paths` for this source */
+  sensitive_paths?: SensitivePathPolicy;
 }
 
 export interface ChunkingConfig {
@@ -30,11 +33,29 @@ export interface ChunkingConfig {
     chunk_size: number;
     overlap: number;
   };
+  /** Index the text outputs of notebook code cells */
+  notebook_outputs: boolean;
 }
 
+/** Embedding model; changing it requires `dseek reindex --embeddings` */
+export interface EmbeddingConfig {
+  /** Hugging Face model id with ONNX weights, loaded with Transformers.js */
+  model: string;
+  /** Length of the model's embedding vectors */
+  dimensions: number;
+}
+
+export type RetrievalMode = 'hybrid' | 'semantic' | 'keyword';
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export type ScoreNormalization = 'min-max' | 'z-score';
+
 export interface RetrievalConfig {
-  mode: 'hybrid' | 'semantic' | 'keyword';
-  fusion: 'rrf' | 'weighted';
+  mode: RetrievalMode;
+  fusion: FusionMethod;
+  /** Per-query score normalization for weighted fusion */
+  normalization: ScoreNormalization;
   semantic_weight: number;
   keyword_weight: number;
   default_limit: number;
@@ -44,13 +65,45 @@ export interface RetrievalConfig {
   };
 }
 
+export type PIIDetectorName = 'regex_rules' | 'credit_card' | 'iban' | 'custom_rules';
+
+/** Handling of files that look sensitive (`.env`, keys, credentials) */
+export type SensitivePathPolicy = 'skip' | 'redact' | 'warn';
+
 export interface PrivacyConfig {
   local_only: boolean;
   allow_remote: boolean;
   require_boundary_key: boolean;
   boundary_key_env: string;
   redact_before_remote: boolean;
+  /** Redact chunk text before it is stored, keyword-indexed and embedded */
+  redact_at_index: boolean;
+  /** What indexing does with sensitive files */
+  sensitive_paths: SensitivePathPolicy;
+  /** Enabled detectors (`PIIDetectorName` values) */
   pii_detectors: string[];
+  /** Project-specific patterns used by the `custom_rules` detector */
+  pii_rules: PIIRule[];
+}
+
+export interface PIIRule {
+  /** Match type, e.g. `employee_id` */
+  type: string;
+  /** Regular expression source */
+  pattern: string;
+  /** Extra regex flags (`g` is always set) */
+  flags?: string;
+  /** Replacement token (default: `[TYPE]`) */
+  replacement?: string;
+  /** Matched values this rule leaves alone */
+  allowlist?: string[];
+}
+
+/** Contents of `.dseek/pii-rules.json` */
+export interface PIIRulesFile {
+  rules: PIIRule[];
+  /** Values never redacted, in whole or in part, whichever detector matches them */
+  allowlist: string[];
 }
 
 export interface RuntimeConfig {
@@ -64,7 +117,24 @@ export interface RuntimeConfig {
 // Document Types
 // ============================================================================
 
-export type DocumentFormat = 'md' | 'txt' | 'html' | 'pdf' | 'docx';
+export type DocumentFormat =
+  | 'md'
+  | 'rst'
+  | 'adoc'
+  | 'txt'
+  | 'html'
+  | 'pdf'
+  | 'docx'
+  | 'epub'
+  | 'odt'
+  | 'rtf'
+  | 'eml'
+  | 'mbox'
+  | 'code'
+  | 'json'
+  | 'yaml'
+  | 'toml'
+  | 'ipynb';
 
 export interface Document {
   doc_id: string;
@@ -74,7 +144,16 @@ export interface Document {
   updated_at: string;
   size_bytes: number;
   url?: string;
+  /** File a document was split out of (mbox messages: `archive.mbox` for `archive.mbox#3`) */
   source_doc_id?: string;
+  /** PII matches per type redacted at index time; set only with `privacy.redact_at_index` */
+  pii_stats?: Record<string, number>;
+}
+
+/** Options passed to parsers */
+export interface ParseOptions {
+  /** Include the text outputs of notebook code cells */
+  notebookOutputs?: boolean;
 }
 
 export interface ParsedDocument {
@@ -82,7 +161,26 @@ export interface ParsedDocument {
   metadata: {
     lines?: number;
     pages?: number;
+    /** 1-based line number where each page (notebooks: cell) starts (index 0 = page 1) */
+    page_breaks?: number[];
+    /** Programming language of source code files */
+    language?: string;
+    /** Source line of each content line (index 0 = line 1), when content is rendered from the file */
+    line_map?: number[];
   };
+  /**
+   * Logical documents inside a container file (mbox: one per message).
+   * Each is indexed as its own document, `<doc_id>#<id>`.
+   */
+  parts?: ParsedPart[];
+}
+
+/** Logical document split out of a container file */
+export interface ParsedPart {
+  /** Identifier within the file (mbox: 1-based message number) */
+  id: string;
+  content: string;
+  metadata: ParsedDocument['metadata'];
 }
 
 // ============================================================================
@@ -96,8 +194,11 @@ export interface Chunk {
   snippet: string;
   line_start: number;
   line_end: number;
+  /** Page range of paged formats; cell range of notebooks */
   page_start?: number;
   page_end?: number;
+  /** Headings enclosing the chunk, outermost first: `Auth > Tokens > Refresh` */
+  heading_path?: string;
   embedding?: number[];
 }
 
@@ -119,11 +220,15 @@ export interface SearchQuery {
   filters?: SearchFilters;
   rerank?: boolean;
   rerank_top_k?: number;
+  /** Overrides `retrieval.mode` from config */
+  mode?: RetrievalMode;
 }
 
 export interface SearchFilters {
   source_name?: string;
   path_prefix?: string;
+  /** Only chunks whose heading path contains this text (case-insensitive for ASCII letters only) */
+  section?: string;
 }
 
 export interface SearchResult {
@@ -131,10 +236,15 @@ export interface SearchResult {
   path: string;
   line_start: number;
   line_end: number;
+  /** Page range of paged formats; cell range of notebooks */
   page_start: number | null;
   page_end: number | null;
   score: number;
   snippet: string;
+  /** Headings enclosing the chunk, e.g. `Auth > Tokens > Refresh` (absent outside any heading) */
+  heading_path?: string;
+  /** Human-readable location, e.g. `docs/auth.md:45-67`, `manual.pdf#p12` or `analysis.ipynb cell 14` */
+  citation?: string;
 }
 
 export interface SearchResponse {
@@ -147,6 +257,9 @@ export interface SearchResponse {
   next_cursor: string | null;
   pii_redacted: boolean;
   timing_ms: {
+    /** Query embedding (absent in keyword mode and on rerank cache hits) */
+    embedding?: number;
+    /** Index query */
     search: number;
     fusion?: number;
     reranking?: number;
@@ -170,12 +283,36 @@ export interface IndexStatus {
   warnings: string[];
 }
 
+/** A sensitive file seen during indexing and the policy applied to it */
+export interface SensitiveFile {
+  path: string;
+  policy: SensitivePathPolicy;
+}
+
 export interface IndexEvent {
   type: 'add' | 'modify' | 'delete';
   path: string;
   at: string;
 }
 
+/** Progress published by a running `dseek watch` */
+export interface WatchState {
+  pid: number;
+  updated_at: string;
+  /** Changed files waiting to be indexed (relative paths) */
+  queued: string[];
+  /** File being indexed right now */
+  current_file: string | null;
+  /** Most recent failures, oldest first; cleared when the file indexes cleanly */
+  errors: WatchError[];
+}
+
+export interface WatchError {
+  path: string;
+  message: string;
+  at: string;
+}
+
 // ============================================================================
 // Audit Types
 // ============================================================================
@@ -222,9 +359,19 @@ export interface ConflictsResponse {
 export interface CursorData {
   query_hash: string;
   offset: number;
+  /** Index version the first page was served from */
   index_version: string;
+  /** Page size; a cursor is only valid with the same limit */
+  limit: number;
+  /** Filters of the original search (empty values omitted) */
+  filters?: SearchFilters;
+  /** Candidate pool size when paginating a reranked result set */
+  rerank_top_k?: number;
+  mode: RetrievalMode;
 }
 
+export type CursorErrorCode = 'invalid_cursor' | 'stale_cursor';
+
 // ============================================================================
 // PII Types
 // ============================================================================
@@ -26,10 +26,16 @@ declare module 'pdf-parse' {
     version: string;
   }
 
+  interface PDFTextItem {
+    str: string;
+    transform: number[];
+    width: number;
+  }
+
   interface PDFOptions {
     pagerender?: (pageData: {
       pageNumber: number;
-      getTextContent: () => Promise<{ items: Array<{ str: string }> }>;
+      getTextContent: () => Promise<{ items: PDFTextItem[] }>;
     }) => Promise<string> | string;
     max?: number;
     version?: string;
@@ -77,6 +77,15 @@ describe('CLI Smoke Tests', () => {
     expect(exitCode).not.toBe(0);
   });
 
+  it('audit pii rejects a non-numeric --max-findings', () => {
+    const { exitCode } = runCliWithCode('audit pii --max-findings abc');
+    const negative = runCliWithCode('audit pii --max-findings=-1');
+
+    // Must fail instead of passing the CI gate with a NaN limit
+    expect(exitCode).toBe(1);
+    expect(negative.exitCode).toBe(1);
+  });
+
   it('chat without query shows error', () => {
     const { exitCode } = runCliWithCode('chat');
 
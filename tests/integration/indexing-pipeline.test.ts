@@ -11,8 +11,9 @@ import { afterAll, beforeAll, describe, expect, it } from 'vitest';
 import { initializeProject } from '../../src/core/config.js';
 import { getEmbeddingDim } from '../../src/core/embedder.js';
 import { deleteDocument, indexFile, indexSource } from '../../src/core/indexer.js';
+import { getStatus } from '../../src/core/retrieval.js';
 import { getIndexStats, resetIndex, searchIndex } from '../../src/storage/index.js';
-import { getDocument, resetMetadata } from '../../src/storage/metadata.js';
+import { getDocument, getSensitiveFiles, resetMetadata } from '../../src/storage/metadata.js';
 import type { Source } from '../../src/types/index.js';
 
 const TEST_DIR = join(process.cwd(), '.test-indexing-pipeline');
@@ -67,7 +68,7 @@ Refresh tokens allow obtaining new access tokens without re-authentication.
     expect(stats.chunks).toBeGreaterThan(0);
 
     // Search should find the content
-    const embedding = new Array(getEmbeddingDim()).fill(0.01); // Placeholder for search
+    const embedding = new Array(await getEmbeddingDim()).fill(0.01); // Placeholder for search
     const { results } = await searchIndex('OAuth authentication', embedding, { limit: 5 });
 
     // At least one result should be from auth.md
@@ -178,6 +179,31 @@ And more text to make this section substantial enough for chunking.
     expect(result.indexed + result.skipped).toBeGreaterThanOrEqual(1);
   }, 120000);
 
+  it('indexSource skips sensitive files and reports them', async () => {
+    const secretsDir = join(TEST_DIR, 'ops');
+    mkdirSync(secretsDir, { recursive: true });
+    writeFileSync(join(secretsDir, 'credentials.txt'), 'db password: hunter2');
+
+    const source: Source = {
+      name: 'ops',
+      path: './ops',
+      include: ['**/*.txt'],
+      exclude: [],
+      watch: false,
+    };
+
+    const result = await indexSource(source, TEST_DIR);
+
+    expect(result.sensitive).toEqual([{ path: 'ops/credentials.txt', policy: 'skip' }]);
+    expect(result.indexed + result.skipped).toBe(0);
+    expect(await getDocument('ops/credentials.txt')).toBeNull();
+    expect((await getStatus()).warnings).toContain('Skipped sensitive file: ops/credentials.txt');
+
+    // Deleting the path forgets the skipped file
+    await deleteDocument('ops', TEST_DIR);
+    expect(await getSensitiveFiles()).toEqual([]);
+  }, 60000);
+
   it('deleteDocument removes all chunks for document', async () => {
     const filePath = join(DOCS_DIR, 'to-delete.md');
     writeFileSync(filePath, '# To Delete\n\nThis document will be deleted.');
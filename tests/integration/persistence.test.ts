@@ -10,13 +10,7 @@ import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
 import { initializeProject, loadConfig, saveConfig } from '../../src/core/config.js';
 import { EMBEDDING_CONFIG } from '../../src/core/constants.js';
 import { getIndexStats, initIndex, insertChunk, resetIndex, saveIndex } from '../../src/storage/index.js';
-import {
-  getDocument,
-  loadMetadata,
-  resetMetadata,
-  saveMetadata,
-  setDocument,
-} from '../../src/storage/metadata.js';
+import { getDocument, loadMetadata, resetMetadata, saveMetadata, setDocument } from '../../src/storage/metadata.js';
 import type { Chunk, Document } from '../../src/types/index.js';
 
 const TEST_DIR = join(process.cwd(), '.test-persistence');
@@ -98,10 +92,16 @@ describe('Persistence', () => {
         schema_version: 1,
         project_id: 'test',
         sources: [],
-        chunking: { strategy: 'markdown-structure', fallback: { chunk_size: 900, overlap: 150 } },
+        chunking: {
+          strategy: 'markdown-structure',
+          fallback: { chunk_size: 900, overlap: 150 },
+          notebook_outputs: false,
+        },
+        embedding: { model: 'onnx-community/gte-multilingual-base', dimensions: 768 },
         retrieval: {
           mode: 'hybrid',
           fusion: 'rrf',
+          normalization: 'min-max',
           semantic_weight: 0.75,
           keyword_weight: 0.25,
           default_limit: 8,
@@ -114,7 +114,10 @@ describe('Persistence', () => {
           require_boundary_key: true,
           boundary_key_env: 'DSEEK_DATA_BOUNDARY_KEY',
           redact_before_remote: true,
+          redact_at_index: false,
+          sensitive_paths: 'skip',
           pii_detectors: ['regex_rules'],
+          pii_rules: [],
         },
         runtime: { auto_bootstrap: true, log_level: 'info' },
       },
@@ -153,10 +156,16 @@ describe('Persistence', () => {
       schema_version: 1,
       project_id: 'new-project',
       sources: [],
-      chunking: { strategy: 'markdown-structure' as const, fallback: { chunk_size: 900, overlap: 150 } },
+      chunking: {
+        strategy: 'markdown-structure' as const,
+        fallback: { chunk_size: 900, overlap: 150 },
+        notebook_outputs: false,
+      },
+      embedding: { model: 'onnx-community/gte-multilingual-base', dimensions: 768 },
       retrieval: {
         mode: 'hybrid' as const,
         fusion: 'rrf' as const,
+        normalization: 'min-max' as const,
         semantic_weight: 0.75,
         keyword_weight: 0.25,
         default_limit: 8,
@@ -169,7 +178,10 @@ describe('Persistence', () => {
         require_boundary_key: true,
         boundary_key_env: 'DSEEK_DATA_BOUNDARY_KEY',
         redact_before_remote: true,
+        redact_at_index: false,
+        sensitive_paths: 'skip',
         pii_detectors: ['regex_rules'] as const,
+        pii_rules: [],
       },
       runtime: { auto_bootstrap: true, log_level: 'info' as const },
     };
@@ -5,15 +5,28 @@
  * Tests core CRUD operations without requiring the actual ML model.
  */
 
-import { beforeEach, describe, expect, it } from 'vitest';
-import { EMBEDDING_CONFIG } from '../../src/core/constants.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { chunkDocument } from '../../src/core/chunker.js';
+import { EMBEDDING_CONFIG, MODELS } from '../../src/core/constants.js';
 import {
+  cacheEmbeddings,
+  checkEmbeddingModel,
+  EmbeddingModelError,
+  getCachedEmbeddings,
+  getChunkTexts,
   getIndexStats,
+  getVectorModel,
   insertChunk,
   insertChunks,
+  insertEmbeddings,
+  keywordSearchIndex,
+  pruneEmbeddingCache,
   removeDocument,
+  resetEmbeddings,
   resetIndex,
   searchIndex,
+  semanticSearchIndex,
+  setVectorModel,
 } from '../../src/storage/index.js';
 import type { Chunk } from '../../src/types/index.js';
 
@@ -164,4 +177,293 @@ describe('Storage', () => {
     expect(stats.documents.has('a.md')).toBe(true);
     expect(stats.documents.has('b.md')).toBe(true);
   });
+
+  it('keywordSearchIndex ranks by BM25 without embeddings', async () => {
+    await insertChunks([
+      createChunk({ chunk_id: 'k1', doc_id: 'tokens.md', text: 'refresh token refresh token rotation' }),
+      createChunk({ chunk_id: 'k2', doc_id: 'auth.md', text: 'login flow with a refresh step' }),
+      createChunk({ chunk_id: 'k3', doc_id: 'other.md', text: 'unrelated deployment notes' }),
+    ]);
+
+    const { results, total } = await keywordSearchIndex('refresh token');
+
+    expect(total).toBe(1);
+    expect(results.map((r) => r.chunk_id)).toEqual(['k1']);
+    expect(results[0].score).toBeGreaterThan(0);
+
+    const refresh = await keywordSearchIndex('refresh');
+    expect(refresh.results.map((r) => r.chunk_id)).toEqual(['k1', 'k2']);
+    expect(refresh.results[0].score).toBeGreaterThan(refresh.results[1].score);
+  });
+
+  it('keywordSearchIndex applies filters and pagination to the total', async () => {
+    await insertChunks(
+      Array.from({ length: 5 }, (_, i) =>
+        createChunk({ chunk_id: `f${i}`, doc_id: `${i < 3 ? 'api' : 'guide'}/doc-${i}.md`, text: `shared term ${i}` }),
+      ),
+    );
+
+    const filtered = await keywordSearchIndex('shared', { filters: { path_prefix: 'api/' }, limit: 2 });
+
+    expect(filtered.total).toBe(3);
+    expect(filtered.results).toHaveLength(2);
+    expect(filtered.results.every((r) => r.path.startsWith('api/'))).toBe(true);
+
+    const page2 = await keywordSearchIndex('shared', { filters: { path_prefix: 'api/' }, limit: 2, offset: 2 });
+    expect(page2.results).toHaveLength(1);
+  });
+
+  it('filters by heading path and returns it with results', async () => {
+    await insertChunks([
+      createChunk({
+        chunk_id: 'h1',
+        doc_id: 'auth.md',
+        text: 'token lifetime',
+        heading_path: 'Auth > Tokens > Refresh',
+      }),
+      createChunk({ chunk_id: 'h2', doc_id: 'auth.md', text: 'token format', heading_path: 'Auth > Sessions' }),
+      createChunk({ chunk_id: 'h3', doc_id: 'notes.txt', text: 'token notes' }),
+    ]);
+
+    const { results, total } = await keywordSearchIndex('token', { filters: { section: 'tokens' } });
+    expect(total).toBe(1);
+    expect(results[0].chunk_id).toBe('h1');
+    expect(results[0].heading_path).toBe('Auth > Tokens > Refresh');
+
+    const hybrid = await searchIndex('token', fakeEmbedding(1), { filters: { section: 'Auth >' } });
+    expect(hybrid.results.map((r) => r.chunk_id).sort()).toEqual(['h1', 'h2']);
+
+    const all = await keywordSearchIndex('token');
+    expect(all.results.find((r) => r.chunk_id === 'h3')).not.toHaveProperty('heading_path');
+  });
+
+  it('matches wildcard characters in the section filter literally', async () => {
+    await insertChunks([
+      createChunk({ chunk_id: 'w1', doc_id: 'sla.md', text: 'uptime target', heading_path: 'SLA > 100% uptime' }),
+      createChunk({ chunk_id: 'w2', doc_id: 'sla.md', text: 'uptime history', heading_path: 'SLA > 1000 days uptime' }),
+      createChunk({ chunk_id: 'w3', doc_id: 'api.md', text: 'uptime field', heading_path: 'Fields > user_id' }),
+      createChunk({ chunk_id: 'w4', doc_id: 'api.md', text: 'uptime lookup', heading_path: 'Fields > userXid' }),
+    ]);
+
+    const percent = await keywordSearchIndex('uptime', { filters: { section: '100%' } });
+    expect(percent.results.map((r) => r.chunk_id)).toEqual(['w1']);
+
+    const underscore = await searchIndex('uptime', fakeEmbedding(1), { filters: { section: 'user_id' } });
+    expect(underscore.results.map((r) => r.chunk_id)).toEqual(['w3']);
+
+    const semantic = await semanticSearchIndex(fakeEmbedding(1), { filters: { section: '100%' } });
+    expect(semantic.results.map((r) => r.chunk_id)).toEqual(['w1']);
+  });
+
+  it('keywordSearchIndex matches every part of a split section on its heading', async () => {
+    const body = Array.from({ length: 60 }, (_, i) => `Paragraph ${i} about how credentials expire.`).join('\n\n');
+    const chunks = chunkDocument(`# Auth\n\n## Rotation\n\n${body}`, { docId: 'auth.md', format: 'md' });
+    const parts = chunks.filter((c) => c.heading_path === 'Auth > Rotation');
+    expect(parts.length).toBeGreaterThan(1);
+
+    await insertChunks(chunks.map((c) => ({ ...c, embedding: fakeEmbedding(1) })));
+
+    const { results, total } = await keywordSearchIndex('rotation', { limit: chunks.length });
+    expect(total).toBe(parts.length);
+    expect(results.map((r) => r.chunk_id).sort()).toEqual(parts.map((c) => c.chunk_id).sort());
+  });
+
+  it('keywordSearchIndex returns nothing for an empty query', async () => {
+    await insertChunk(createChunk({ chunk_id: 'e1', doc_id: 'a.md', text: 'anything' }));
+
+    expect(await keywordSearchIndex('   ')).toEqual({ results: [], total: 0 });
+  });
+
+  it('semanticSearchIndex ranks by vector similarity only', async () => {
+    await insertChunks([
+      createChunk({ chunk_id: 's1', doc_id: 'a.md', text: 'no keyword overlap', embedding: fakeEmbedding(5) }),
+      createChunk({ chunk_id: 's2', doc_id: 'b.md', text: 'query words here', embedding: fakeEmbedding(9) }),
+    ]);
+
+    const { results } = await semanticSearchIndex(fakeEmbedding(5));
+
+    expect(results[0].chunk_id).toBe('s1');
+    expect(results[0].score).toBeCloseTo(1, 5);
+  });
+
+  it('semanticSearchIndex counts only filtered matches above the similarity cutoff', async () => {
+    await insertChunks([
+      ...Array.from({ length: 5 }, (_, i) =>
+        createChunk({
+          chunk_id: `v${i}`,
+          doc_id: `${i < 3 ? 'api' : 'guide'}/doc-${i}.md`,
+          embedding: fakeEmbedding(5),
+        }),
+      ),
+      createChunk({ chunk_id: 'far', doc_id: 'api/far.md', embedding: fakeEmbedding(9) }),
+    ]);
+
+    const filtered = await semanticSearchIndex(fakeEmbedding(5), { filters: { path_prefix: 'api/' }, limit: 2 });
+
+    expect(filtered.total).toBe(3);
+    expect(filtered.results).toHaveLength(2);
+
+    const page2 = await semanticSearchIndex(fakeEmbedding(5), {
+      filters: { path_prefix: 'api/' },
+      limit: 2,
+      offset: 2,
+    });
+    expect(page2.results).toHaveLength(1);
+
+    const none = await semanticSearchIndex(fakeEmbedding(5), { filters: { section: 'Missing' } });
+    expect(none).toEqual({ results: [], total: 0 });
+  });
+
+  it('searchIndex supports weighted fusion with fusion timing', async () => {
+    await insertChunks(
+      Array.from({ length: 6 }, (_, i) =>
+        createChunk({
+          chunk_id: `w${i}`,
+          doc_id: `doc-${i}.md`,
+          text: i === 3 ? 'ERR_TOKEN_EXPIRED raised when the token expired' : `general notes ${i}`,
+          embedding: fakeEmbedding(i),
+        }),
+      ),
+    );
+
+    const { results, total, fusionTime } = await searchIndex('ERR_TOKEN_EXPIRED', fakeEmbedding(0), {
+      fusion: 'weighted',
+      keywordWeight: 0.6,
+      semanticWeight: 0.4,
+      limit: 3,
+    });
+
+    expect(results[0].chunk_id).toBe('w3');
+    expect(results).toHaveLength(3);
+    expect(total).toBeGreaterThanOrEqual(results.length);
+    expect(fusionTime).toBeGreaterThanOrEqual(0);
+
+    const page2 = await searchIndex('ERR_TOKEN_EXPIRED', fakeEmbedding(0), {
+      fusion: 'weighted',
+      normalization: 'z-score',
+      limit: 3,
+      offset: 3,
+    });
+    const page1 = await searchIndex('ERR_TOKEN_EXPIRED', fakeEmbedding(0), {
+      fusion: 'weighted',
+      normalization: 'z-score',
+      limit: 3,
+    });
+    const ids1 = new Set(page1.results.map((r) => r.chunk_id));
+    expect(page2.results.some((r) => ids1.has(r.chunk_id))).toBe(false);
+  });
+
+  it('searchIndex leaves fusion time unset for RRF', async () => {
+    await insertChunk(createChunk({ chunk_id: 'r1', doc_id: 'a.md', text: 'rrf content' }));
+
+    const { fusionTime } = await searchIndex('rrf', fakeEmbedding(1));
+
+    expect(fusionTime).toBeUndefined();
+  });
+});
+
+describe('Embedding model', () => {
+  const DEFAULT_MODEL = { model: MODELS.EMBEDDING, dimensions: EMBEDDING_CONFIG.DIMENSIONS };
+  const SMALL_MODEL = { model: 'test/small-model', dimensions: 4 };
+
+  beforeEach(async () => {
+    await resetIndex();
+    await checkEmbeddingModel(DEFAULT_MODEL);
+  });
+
+  afterEach(async () => {
+    await resetIndex();
+    await checkEmbeddingModel(DEFAULT_MODEL);
+  });
+
+  it('an empty index adopts the configured model and dimensions', async () => {
+    await checkEmbeddingModel(SMALL_MODEL);
+
+    expect(getVectorModel()).toEqual(SMALL_MODEL);
+
+    await insertChunk(createChunk({ chunk_id: 'm1', doc_id: 'a.md', embedding: [1, 0, 0, 0] }));
+    const { results } = await semanticSearchIndex([1, 0, 0, 0]);
+    expect(results[0].chunk_id).toBe('m1');
+  });
+
+  it('rejects another model once chunks are indexed', async () => {
+    await insertChunk(createChunk({ chunk_id: 'm2', doc_id: 'a.md' }));
+
+    await expect(checkEmbeddingModel(SMALL_MODEL)).rejects.toThrow(EmbeddingModelError);
+    await expect(checkEmbeddingModel(SMALL_MODEL)).rejects.toThrow('dseek reindex --embeddings');
+    await expect(checkEmbeddingModel(DEFAULT_MODEL)).resolves.toBeUndefined();
+  });
+
+  it('rebuilds vectors from stored chunk texts', async () => {
+    await insertChunks([
+      createChunk({ chunk_id: 'm3', doc_id: 'a.md', text: 'first', heading_path: 'Intro' }),
+      createChunk({ chunk_id: 'm4', doc_id: 'a.md', text: 'second' }),
+    ]);
+
+    await resetEmbeddings(SMALL_MODEL.dimensions);
+    // Unfinished until the model is recorded
+    await expect(checkEmbeddingModel(SMALL_MODEL)).rejects.toThrow('unfinished rebuild');
+
+    const page = await getChunkTexts(0, 10);
+    expect(page.map((c) => c.text)).toEqual(['first', 'second']);
+    expect(page[0].heading_path).toBe('Intro');
+    expect(page[1]).not.toHaveProperty('heading_path');
+    expect(await getChunkTexts(page[1].id, 10)).toEqual([]);
+
+    await insertEmbeddings([
+      { id: page[0].id, embedding: [0, 1, 0, 0] },
+      { id: page[1].id, embedding: [1, 0, 0, 0] },
+    ]);
+    setVectorModel(SMALL_MODEL);
+
+    await expect(checkEmbeddingModel(SMALL_MODEL)).resolves.toBeUndefined();
+    const { results } = await semanticSearchIndex([1, 0, 0, 0]);
+    expect(results[0].chunk_id).toBe('m4');
+  });
+});
+
+describe('Embedding cache', () => {
+  beforeEach(async () => {
+    await resetIndex();
+  });
+
+  it('returns cached vectors by content hash and model', async () => {
+    await cacheEmbeddings(
+      [
+        { hash: 'aaa', embedding: [0.5, 0.25, 0, 1] },
+        { hash: 'bbb', embedding: [1, 0, 0, 0] },
+      ],
+      'model-a',
+    );
+
+    const cached = await getCachedEmbeddings(['aaa', 'ccc', 'aaa'], 'model-a');
+
+    expect([...cached.keys()]).toEqual(['aaa']);
+    expect(cached.get('aaa')).toEqual([0.5, 0.25, 0, 1]);
+    expect((await getCachedEmbeddings(['aaa', 'bbb'], 'model-b')).size).toBe(0);
+  });
+
+  it('survives removing the chunks it was computed for', async () => {
+    const embedding = fakeEmbedding(3);
+    await insertChunk(createChunk({ chunk_id: 'k1', doc_id: 'a.md', embedding }));
+    await cacheEmbeddings([{ hash: 'k1-hash', embedding }], MODELS.EMBEDDING);
+
+    await removeDocument('a.md');
+
+    const cached = await getCachedEmbeddings(['k1-hash'], MODELS.EMBEDDING);
+    expect(cached.get('k1-hash')?.[3]).toBeCloseTo(embedding[3], 6);
+  });
+
+  it('prunes the least recently used entries', async () => {
+    await cacheEmbeddings([{ hash: 'old', embedding: [1] }], 'm');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await cacheEmbeddings([{ hash: 'new', embedding: [2] }], 'm');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    // A hit marks the entry as used
+    await getCachedEmbeddings(['old'], 'm');
+
+    expect(await pruneEmbeddingCache(1)).toBe(1);
+    expect([...(await getCachedEmbeddings(['old', 'new'], 'm')).keys()]).toEqual(['old']);
+    expect(await pruneEmbeddingCache(1)).toBe(0);
+  });
 });
@@ -0,0 +1,50 @@
+/**
+ * AsciiDoc parser unit tests
+ *
+ * Tests title and block conversion to markdown and line preservation.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseAsciidoc } from '../../src/parsers/asciidoc.js';
+import { extractSections } from '../../src/parsers/markdown.js';
+
+describe('AsciiDoc Parser', () => {
+  it('converts section titles to headings of the same depth', async () => {
+    const source = '= User Guide\n:toc:\n\n== Install\n\nRun it.\n\n=== Options\n\n==== Flags';
+    const result = await parseAsciidoc(Buffer.from(source), 'guide.adoc');
+
+    expect(result.content).toBe('# User Guide\n:toc:\n\n## Install\n\nRun it.\n\n### Options\n\n#### Flags');
+    expect(result.metadata.lines).toBe(10);
+  });
+
+  it('turns listing blocks into code fences so their content is not split', async () => {
+    const source = [
+      '== Setup',
+      '',
+      '[source,bash]',
+      '----',
+      '# install',
+      '== not a title',
+      '----',
+      '',
+      '== Usage',
+      '',
+      '....',
+      'literal',
+      '....',
+    ].join('\n');
+    const result = await parseAsciidoc(Buffer.from(source), 'guide.adoc');
+
+    expect(result.content.split('\n').slice(3, 7)).toEqual(['```', '\\# install', '== not a title', '```']);
+    expect(extractSections(result.content).map((s) => [s.heading, s.startLine, s.endLine])).toEqual([
+      ['Setup', 1, 8],
+      ['Usage', 9, 13],
+    ]);
+  });
+
+  it('does not read example block delimiters as titles', async () => {
+    const result = await parseAsciidoc(Buffer.from('====\nExample\n===='), 'guide.adoc');
+
+    expect(result.content).toBe('====\nExample\n====');
+  });
+});
@@ -1,11 +1,13 @@
 /**
  * Audit helpers unit tests
  *
- * Tests conflict detection logic for the audit command.
+ * Tests conflict detection logic and the PII scan for the audit command.
  */
 
 import { describe, expect, it } from 'vitest';
 import { detectPotentialConflict } from '../../src/cli/commands/audit.js';
+import { findPII } from '../../src/core/audit.js';
+import { insertChunks, resetIndex } from '../../src/storage/index.js';
 
 describe('Audit Helpers', () => {
   describe('detectPotentialConflict', () => {
@@ -113,4 +115,45 @@ describe('Audit Helpers', () => {
       });
     });
   });
+
+  describe('findPII', () => {
+    it('groups findings by document and type with line ranges', async () => {
+      await resetIndex();
+      await insertChunks([
+        {
+          chunk_id: 'a1',
+          doc_id: 'docs/team.md',
+          text: '# Team\n\nalice@example.com\nbob@example.com, +1-555-123-4567',
+          snippet: '',
+          line_start: 10,
+          line_end: 13,
+        },
+        // Overlapping chunk repeating the last line
+        {
+          chunk_id: 'a2',
+          doc_id: 'docs/team.md',
+          text: 'bob@example.com, +1-555-123-4567',
+          snippet: '',
+          line_start: 13,
+          line_end: 13,
+        },
+        { chunk_id: 'b1', doc_id: 'docs/clean.md', text: 'Nothing here', snippet: '', line_start: 1, line_end: 1 },
+        { chunk_id: 'c1', doc_id: 'ops.md', text: 'mail ops@example.com', snippet: '', line_start: 4, line_end: 4 },
+      ]);
+
+      const report = findPII();
+
+      expect(report.total).toBe(4);
+      expect(report.by_type).toEqual({ email: 3, phone: 1 });
+      expect(report.documents.map((d) => d.path)).toEqual(['docs/team.md', 'ops.md']);
+      expect(report.documents[0].by_type).toEqual({ email: 2, phone: 1 });
+      expect(report.documents[0].findings).toEqual([
+        { type: 'email', line_start: 12, line_end: 12 },
+        { type: 'email', line_start: 13, line_end: 13 },
+        { type: 'phone', line_start: 13, line_end: 13 },
+      ]);
+
+      await resetIndex();
+    });
+  });
 });
@@ -3,7 +3,7 @@
  */
 
 import { describe, expect, it } from 'vitest';
-import { chunkDocument } from '../../src/core/chunker.js';
+import { chunkDocument, formatLocation, getPageForLine } from '../../src/core/chunker.js';
 
 describe('chunkDocument', () => {
   describe('markdown strategy', () => {
@@ -63,6 +63,19 @@ Content 2`;
       const uniqueIds = new Set(ids);
       expect(uniqueIds.size).toBe(ids.length);
     });
+
+    it('splits large tables between rows, repeating the header rows', () => {
+      const rows = Array.from({ length: 80 }, (_, i) => `| ${i} | Setting number ${i} and what it does |`);
+      const content = ['# Settings', '', '| Name | Description |', '| --- | --- |', ...rows].join('\n');
+
+      const chunks = chunkDocument(content, { docId: 'settings.md', format: 'md' });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks.slice(1)) {
+        expect(chunk.text.startsWith('# Settings\n\n| Name | Description |\n| --- | --- |\n| ')).toBe(true);
+      }
+      expect(chunks.flatMap((c) => c.text.split('\n')).filter((line) => /^\| \d/.test(line))).toEqual(rows);
+    });
   });
 
   describe('fallback strategy', () => {
@@ -106,6 +119,100 @@ Content 2`;
         expect(chunks[0].line_end).toBeGreaterThanOrEqual(chunks[1].line_start - 1);
       }
     });
+
+    const fallback = { strategy: 'fallback' as const, fallback: { chunk_size: 300, overlap: 50 } };
+    const tableLines = (rows: number) => [
+      '| Code | Meaning |',
+      '| --- | --- |',
+      ...Array.from({ length: rows }, (_, i) => `| ${400 + i} | Description of error ${400 + i} |`),
+    ];
+
+    it('starts a table in a new chunk instead of cutting it', () => {
+      const content = [
+        ...Array.from({ length: 6 }, (_, i) => `Paragraph line ${i + 1} with some filler text.`),
+        ...tableLines(4),
+      ].join('\n');
+
+      const chunks = chunkDocument(content, { docId: 'errors.html', format: 'html', config: fallback });
+      const tableChunks = chunks.filter((c) => c.text.includes('| Code | Meaning |'));
+
+      expect(tableChunks).toHaveLength(1);
+      expect(tableChunks[0].text.startsWith('| Code | Meaning |')).toBe(true);
+      expect(tableChunks[0].text).toContain('| 403 |');
+      expect(tableChunks[0].line_start).toBe(7);
+    });
+
+    it('repeats the header rows when a long table is split', () => {
+      const content = tableLines(30).join('\n');
+
+      const chunks = chunkDocument(content, { docId: 'errors.html', format: 'html', config: fallback });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.text.startsWith('| Code | Meaning |\n| --- | --- |\n| 4')).toBe(true);
+      }
+      // Every row appears exactly once, without overlap between chunks
+      const rows = chunks.flatMap((c) => c.text.split('\n').slice(2));
+      expect(rows).toEqual(tableLines(30).slice(2));
+      expect(chunks[1].line_start).toBe(chunks[0].line_end + 1);
+    });
+  });
+
+  describe('code strategy', () => {
+    const source = [
+      "import { readFile } from 'node:fs/promises';",
+      '',
+      '/**',
+      ' * Load a file.',
+      ' */',
+      'export async function load(path: string): Promise<string> {',
+      "  return readFile(path, 'utf-8');",
+      '}',
+      '',
+      'export class Cache {',
+      '  private items = new Map<string, string>();',
+      '}',
+    ].join('\n');
+
+    it('splits on declarations with doc comments attached', () => {
+      const fn = (name: string) => [
+        `/** ${name} */`,
+        `export function ${name}() {`,
+        ...Array(40).fill('  step(1, 2, 3);'),
+        '}',
+      ];
+      const chunks = chunkDocument([...fn('first'), '', ...fn('second')].join('\n'), {
+        docId: 'src/steps.ts',
+        format: 'code',
+        language: 'typescript',
+      });
+
+      expect(chunks.map((c) => [c.line_start, c.line_end])).toEqual([
+        [1, 43],
+        [45, 87],
+      ]);
+      expect(chunks[1].text.startsWith('/** second */\nexport function second() {')).toBe(true);
+    });
+
+    it('merges small declarations and keeps line ranges', () => {
+      const chunks = chunkDocument(source, { docId: 'src/load.ts', format: 'code', language: 'typescript' });
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].line_start).toBe(1);
+      expect(chunks[0].line_end).toBe(12);
+      expect(chunks[0].text.split('\n')).toHaveLength(12);
+    });
+
+    it('uses fixed-size chunks with the fallback strategy', () => {
+      const chunks = chunkDocument(source, {
+        docId: 'src/load.ts',
+        format: 'code',
+        language: 'typescript',
+        config: { strategy: 'fallback', fallback: { chunk_size: 100, overlap: 20 } },
+      });
+
+      expect(chunks.length).toBeGreaterThan(1);
+    });
   });
 
   describe('snippet generation', () => {
@@ -137,3 +244,104 @@ This is the first sentence of the content. This is more content that follows.`;
     });
   });
 });
+
+describe('heading paths', () => {
+  it('records the enclosing headings of each markdown chunk', () => {
+    const content =
+      '# Auth\n\nIntro.\n\n## Tokens\n\nAbout tokens.\n\n### Refresh\n\nRotation.\n\n## Sessions\n\nCookies.';
+
+    const chunks = chunkDocument(content, { docId: 'auth.md', format: 'md' });
+
+    expect(chunks.map((c) => c.heading_path)).toEqual([
+      'Auth',
+      'Auth > Tokens',
+      'Auth > Tokens > Refresh',
+      'Auth > Sessions',
+    ]);
+  });
+
+  it('gives every part of a split section the full path and starts later parts with it', () => {
+    const body = Array.from({ length: 60 }, (_, i) => `Paragraph ${i} about refresh token rotation.`).join('\n\n');
+    const content = `# Auth\n\n## Tokens\n\n${body}`;
+
+    const chunks = chunkDocument(content, { docId: 'auth.md', format: 'md' });
+    const tokenChunks = chunks.filter((c) => c.heading_path === 'Auth > Tokens');
+
+    expect(tokenChunks.length).toBeGreaterThan(1);
+    expect(tokenChunks[0].text.startsWith('## Tokens')).toBe(true);
+    expect(tokenChunks[1].text.startsWith('# Auth > Tokens\n\nParagraph')).toBe(true);
+  });
+
+  it('uses the headings in effect where a fallback chunk starts', () => {
+    const lines = ['## Setup', ...Array.from({ length: 30 }, (_, i) => `Step ${i} of the installation guide.`)];
+
+    const chunks = chunkDocument(lines.join('\n'), {
+      docId: 'guide.html',
+      format: 'html',
+      config: { strategy: 'fallback', fallback: { chunk_size: 300, overlap: 50 } },
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.heading_path === 'Setup')).toBe(true);
+  });
+
+  it('leaves chunks without headings and plain text without a path', () => {
+    expect(chunkDocument('No headings here.', { docId: 'a.md', format: 'md' })[0].heading_path).toBeUndefined();
+    const text = `# Not a heading\n\n${'Plain text. '.repeat(30)}`;
+    expect(chunkDocument(text, { docId: 'a.txt', format: 'txt' })[0].heading_path).toBeUndefined();
+  });
+});
+
+describe('page mapping', () => {
+  it('getPageForLine returns the page containing a line', () => {
+    const pageBreaks = [1, 10, 25];
+
+    expect(getPageForLine(1, pageBreaks)).toBe(1);
+    expect(getPageForLine(9, pageBreaks)).toBe(1);
+    expect(getPageForLine(10, pageBreaks)).toBe(2);
+    expect(getPageForLine(100, pageBreaks)).toBe(3);
+  });
+
+  it('formatLocation prefers pages over lines', () => {
+    expect(formatLocation('docs/auth.md', { line_start: 45, line_end: 67 })).toBe('docs/auth.md:45-67');
+    expect(formatLocation('manual.pdf', { line_start: 1, line_end: 5, page_start: 12, page_end: 12 })).toBe(
+      'manual.pdf#p12',
+    );
+    expect(formatLocation('manual.pdf', { line_start: 1, line_end: 5, page_start: 3, page_end: 4 })).toBe(
+      'manual.pdf#p3-4',
+    );
+  });
+
+  it('formatLocation cites cells for notebooks', () => {
+    expect(formatLocation('analysis.ipynb', { line_start: 1, line_end: 5, page_start: 14, page_end: 14 })).toBe(
+      'analysis.ipynb cell 14',
+    );
+    expect(formatLocation('analysis.ipynb', { line_start: 1, line_end: 9, page_start: 2, page_end: 3 })).toBe(
+      'analysis.ipynb cells 2-3',
+    );
+  });
+
+  it('chunkDocument sets page ranges when page breaks are given', () => {
+    const pages = Array.from({ length: 3 }, (_, p) =>
+      Array.from({ length: 40 }, (_, i) => `Page ${p + 1} line ${i + 1} with some filler text here.`).join('\n'),
+    );
+    const content = pages.join('\n\n');
+    const pageBreaks = [1, 42, 83];
+
+    const chunks = chunkDocument(content, { docId: 'manual.pdf', format: 'pdf', pageBreaks });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].page_start).toBe(1);
+    expect(chunks[chunks.length - 1].page_end).toBe(3);
+    for (const chunk of chunks) {
+      expect(chunk.page_start).toBe(getPageForLine(chunk.line_start, pageBreaks));
+      expect(chunk.page_end).toBe(getPageForLine(chunk.line_end, pageBreaks));
+    }
+  });
+
+  it('chunkDocument leaves pages unset without page breaks', () => {
+    const chunks = chunkDocument('# Title\n\nSome text.', { docId: 'a.md', format: 'md' });
+
+    expect(chunks[0].page_start).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Code parser unit tests
+ *
+ * Tests language detection and declaration extraction for source files.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { extractDeclarations, getLanguage, parseCode } from '../../src/parsers/code.js';
+
+/**
+ * Summarize sections as [heading, startLine, endLine]
+ */
+function outline(content: string, language: string, maxLength = 10_000): Array<[string | null, number, number]> {
+  return extractDeclarations(content, language, maxLength).map((s) => [s.heading, s.startLine, s.endLine]);
+}
+
+describe('Code Parser', () => {
+  describe('getLanguage', () => {
+    it('maps extensions to languages', () => {
+      expect(getLanguage('src/index.ts')).toBe('typescript');
+      expect(getLanguage('App.TSX')).toBe('typescript');
+      expect(getLanguage('server.mjs')).toBe('javascript');
+      expect(getLanguage('tool.py')).toBe('python');
+      expect(getLanguage('lib.rs')).toBe('rust');
+      expect(getLanguage('README.md')).toBeNull();
+    });
+  });
+
+  describe('parseCode', () => {
+    it('returns the source unchanged with its language', async () => {
+      const result = await parseCode(Buffer.from('package main\n\nfunc main() {}\n'), 'main.go');
+
+      expect(result.content).toBe('package main\n\nfunc main() {}\n');
+      expect(result.metadata).toEqual({ lines: 4, language: 'go' });
+    });
+  });
+
+  describe('extractDeclarations', () => {
+    it('splits TypeScript on top-level declarations with doc comments and decorators', () => {
+      const source = [
+        "import { x } from './x.js';",
+        '',
+        '/**',
+        ' * Parse input.',
+        ' */',
+        'export function parse(input: string): number {',
+        '  return 1;',
+        '}',
+        '',
+        '@Injectable()',
+        'export class Service {',
+        '  run() {}',
+        '}',
+        '',
+      ].join('\n');
+
+      expect(outline(source, 'typescript')).toEqual([
+        [null, 1, 1],
+        ['export function parse(input: string): number {', 3, 8],
+        ['export class Service {', 10, 13],
+      ]);
+    });
+
+    it('splits large classes by member', () => {
+      const source = [
+        'class Store:',
+        '    """Key-value store."""',
+        '',
+        '    # Read a key',
+        '    def get(self, key):',
+        '        return self.items[key]',
+        '',
+        '    async def put(self, key, value):',
+        '        self.items[key] = value',
+      ].join('\n');
+
+      expect(outline(source, 'python')).toEqual([['class Store:', 1, 9]]);
+      expect(outline(source, 'python', 50)).toEqual([
+        ['class Store:', 1, 2],
+        ['def get(self, key):', 4, 6],
+        ['async def put(self, key, value):', 8, 9],
+      ]);
+    });
+
+    it('recognizes Go, Rust and Java declarations', () => {
+      expect(outline('package main\n\ntype T struct{}\n\nfunc (t T) Run() {\n}\n', 'go')).toEqual([
+        [null, 1, 1],
+        ['type T struct{}', 3, 3],
+        ['func (t T) Run() {', 5, 6],
+      ]);
+      expect(outline('use std::io;\n\n#[derive(Debug)]\npub struct Point;\n\nimpl Point {}\n', 'rust')).toEqual([
+        [null, 1, 1],
+        ['pub struct Point;', 3, 4],
+        ['impl Point {}', 6, 6],
+      ]);
+      expect(outline('package a;\n\npublic class App {\n}\n', 'java')).toEqual([
+        [null, 1, 1],
+        ['public class App {', 3, 4],
+      ]);
+    });
+  });
+});
@@ -7,6 +7,7 @@ import { join } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import {
   addSource,
+  findSourceForPath,
   generateProjectId,
   loadConfig,
   removeSource,
@@ -29,10 +30,16 @@ const DEFAULT_CONFIG: DseekConfig = {
       chunk_size: 900,
       overlap: 150,
     },
+    notebook_outputs: false,
+  },
+  embedding: {
+    model: 'onnx-community/gte-multilingual-base',
+    dimensions: 768,
   },
   retrieval: {
     mode: 'hybrid',
     fusion: 'rrf',
+    normalization: 'min-max',
     semantic_weight: 0.75,
     keyword_weight: 0.25,
     default_limit: 8,
@@ -47,7 +54,10 @@ const DEFAULT_CONFIG: DseekConfig = {
     require_boundary_key: true,
     boundary_key_env: 'DSEEK_DATA_BOUNDARY_KEY',
     redact_before_remote: true,
+    redact_at_index: false,
+    sensitive_paths: 'skip',
     pii_detectors: ['regex_rules'],
+    pii_rules: [],
   },
   runtime: {
     auto_bootstrap: true,
@@ -93,6 +103,7 @@ describe('Config', () => {
     expect(config.retrieval.semantic_weight).toBe(0.75);
     expect(config.privacy.local_only).toBe(true);
     expect(config.runtime.log_level).toBe('info');
+    expect(config.embedding).toEqual({ model: 'onnx-community/gte-multilingual-base', dimensions: 768 });
   });
 
   it('validates correct config returns no errors', () => {
@@ -167,6 +178,35 @@ describe('Config', () => {
     expect(docsSources[0].watch).toBe(false);
   });
 
+  it('validates PII detectors and rules', () => {
+    const config: DseekConfig = {
+      ...DEFAULT_CONFIG,
+      privacy: {
+        ...DEFAULT_CONFIG.privacy,
+        pii_detectors: ['regex_rules', 'ner_model'],
+        pii_rules: [{ type: 'broken', pattern: '[' }],
+      },
+    };
+
+    const errors = validateConfig(config);
+    expect(errors.some((e) => e.includes('Unknown PII detector "ner_model"'))).toBe(true);
+    expect(errors.some((e) => e.includes('Invalid PII rule "broken"'))).toBe(true);
+  });
+
+  it('validates sensitive_paths policies', () => {
+    const config: DseekConfig = {
+      ...DEFAULT_CONFIG,
+      sources: [
+        { name: 'ops', path: './ops', include: [], exclude: [], watch: false, sensitive_paths: 'ignore' as never },
+      ],
+      privacy: { ...DEFAULT_CONFIG.privacy, sensitive_paths: 'index' as never },
+    };
+
+    const errors = validateConfig(config);
+    expect(errors.some((e) => e.includes('Unknown sensitive_paths policy "index"'))).toBe(true);
+    expect(errors.some((e) => e.includes('Source "ops" has unknown sensitive_paths policy "ignore"'))).toBe(true);
+  });
+
   it('validates overlap must be less than chunk_size', () => {
     const config: DseekConfig = {
       ...DEFAULT_CONFIG,
@@ -183,6 +223,17 @@ describe('Config', () => {
     expect(errors).toContain('overlap must be less than chunk_size');
   });
 
+  it('validates embedding model and dimensions', () => {
+    const config: DseekConfig = {
+      ...DEFAULT_CONFIG,
+      embedding: { model: '', dimensions: 384.5 },
+    };
+
+    const errors = validateConfig(config);
+    expect(errors).toContain('embedding.model must not be empty');
+    expect(errors).toContain('embedding.dimensions must be a positive integer');
+  });
+
   it('validates source without name', () => {
     const config: DseekConfig = {
       ...DEFAULT_CONFIG,
@@ -258,4 +309,25 @@ describe('Config', () => {
     expect(config.runtime).toBeDefined();
     expect(config.runtime.log_level).toBe('info');
   });
+
+  it('findSourceForPath resolves the most specific owning source', () => {
+    const sources: Source[] = [
+      { name: 'docs', path: './docs', include: [], exclude: [], watch: true },
+      { name: 'api', path: 'docs/api', include: [], exclude: [], watch: true },
+      { name: 'shared', path: '/opt/shared-docs', include: [], exclude: [], watch: true },
+    ];
+
+    expect(findSourceForPath('docs/guide.md', sources, '/project')?.name).toBe('docs');
+    expect(findSourceForPath('/project/docs/api/auth.md', sources, '/project')?.name).toBe('api');
+    expect(findSourceForPath('/opt/shared-docs/intro.md', sources, '/project')?.name).toBe('shared');
+    // Prefix match must respect path boundaries
+    expect(findSourceForPath('docs-old/readme.md', sources, '/project')).toBeNull();
+    expect(findSourceForPath('README.md', sources, '/project')).toBeNull();
+  });
+
+  it('findSourceForPath matches single-file sources exactly', () => {
+    const sources: Source[] = [{ name: 'readme', path: 'README.md', include: [], exclude: [], watch: true }];
+
+    expect(findSourceForPath('/project/README.md', sources, '/project')?.name).toBe('readme');
+  });
 });
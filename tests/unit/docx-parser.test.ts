@@ -4,11 +4,41 @@
 
 import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
+import JSZip from 'jszip';
 import { describe, expect, it } from 'vitest';
 import { getDocxMetadata, parseDocx, parseDocxRaw } from '../../src/parsers/docx.js';
 
 const SAMPLE_DOCX = join(process.cwd(), 'testdata/sample.docx');
 
+/**
+ * Build a minimal DOCX whose document body is the given WordprocessingML
+ */
+async function buildDocx(body: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`,
+  );
+  zip.file(
+    '_rels/.rels',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`,
+  );
+  zip.file(
+    'word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`,
+  );
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
 describe('DOCX Parser', () => {
   describe('parseDocx', () => {
     it('extracts text as markdown', async () => {
@@ -40,6 +70,18 @@ describe('DOCX Parser', () => {
       expect(typeof result.content).toBe('string');
       expect(result.content.length).toBeGreaterThan(0);
     });
+
+    it('renders tables as markdown tables', async () => {
+      const cell = (text: string) => `<w:tc><w:p><w:r><w:t>${text}</w:t></w:r></w:p></w:tc>`;
+      const buffer = await buildDocx(
+        '<w:p><w:r><w:t>Error codes</w:t></w:r></w:p>' +
+          `<w:tbl><w:tr>${cell('Code')}${cell('Meaning')}</w:tr><w:tr>${cell('401')}${cell('Unauthorized')}</w:tr></w:tbl>`,
+      );
+
+      const result = await parseDocx(buffer, 'errors.docx');
+
+      expect(result.content).toBe('Error codes\n\n| Code | Meaning |\n| --- | --- |\n| 401 | Unauthorized |');
+    });
   });
 
   describe('parseDocxRaw', () => {
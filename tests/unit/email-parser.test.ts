@@ -0,0 +1,160 @@
+/**
+ * Email parser unit tests
+ *
+ * Tests rendering of .eml messages and splitting of .mbox archives.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseEml, parseMbox } from '../../src/parsers/email.js';
+
+/**
+ * Build a raw message with CRLF line endings
+ */
+function message(headers: string[], body: string[]): string {
+  return [...headers, '', ...body].join('\r\n');
+}
+
+const REPLY = message(
+  [
+    'From: Jane Doe <jane@example.com>',
+    'To: dev-list@example.com',
+    'Subject: =?UTF-8?Q?Re:_Release_plan_=E2=80=93_Q4?=',
+    'Date: Tue, 01 Oct 2024 10:00:00 +0000',
+    'Message-ID: <2@example.com>',
+  ],
+  [
+    'Agreed, we ship on Friday.',
+    '# of users doubled; ask ops@example.com first.',
+    '',
+    'On Mon, 30 Sep 2024 at 09:00, John Smith',
+    '<john@example.com> wrote:',
+    '> Should we ship on Friday?',
+    '>',
+    '> John',
+  ],
+);
+
+describe('Email Parser', () => {
+  describe('parseEml', () => {
+    it('renders subject, sender and date with addresses redacted', async () => {
+      const result = await parseEml(Buffer.from(REPLY), 'reply.eml');
+
+      expect(result.content).toBe(
+        [
+          '# Re: Release plan – Q4',
+          '',
+          'From: Jane Doe <[EMAIL]>',
+          'Date: 2024-10-01T10:00:00.000Z',
+          '',
+          'Agreed, we ship on Friday.',
+          '\\# of users doubled; ask [EMAIL] first.',
+        ].join('\n'),
+      );
+      expect(result.metadata.lines).toBe(7);
+      expect(result.parts).toBeUndefined();
+    });
+
+    it('drops everything after an Outlook original message separator', async () => {
+      const raw = message(
+        ['From: a@example.com', 'Subject: Budget'],
+        ['Approved.', '', '-----Original Message-----', 'From: b@example.com', 'Can we get budget?'],
+      );
+
+      const result = await parseEml(Buffer.from(raw), 'budget.eml');
+
+      expect(result.content).toBe('# Budget\n\nFrom: [EMAIL]\n\nApproved.');
+    });
+
+    it('converts HTML-only messages to text', async () => {
+      const raw = message(
+        ['From: a@example.com', 'Content-Type: text/html; charset=utf-8'],
+        ['<html><body><p>Decision: use <b>Postgres</b>.</p><blockquote>old</blockquote></body></html>'],
+      );
+
+      const result = await parseEml(Buffer.from(raw), 'html.eml');
+
+      expect(result.content).toContain('# (no subject)');
+      expect(result.content).toContain('Decision: use Postgres.');
+    });
+  });
+
+  describe('parseMbox', () => {
+    it('splits an archive into one part per message', async () => {
+      const mbox = [
+        'From jane@example.com Tue Oct  1 10:00:00 2024',
+        message(['From: Jane <jane@example.com>', 'Subject: First'], ['Hello.', '>From the start.']),
+        '',
+        'From john@example.com Tue Oct  1 11:00:00 2024',
+        message(['From: John <john@example.com>', 'Subject: Second'], ['>From here on we use Rust.']),
+        '',
+      ].join('\n');
+
+      const result = await parseMbox(Buffer.from(mbox), 'list.mbox');
+
+      expect(result.parts?.map((p) => p.id)).toEqual(['1', '2']);
+      expect(result.parts?.[0].content).toBe('# First\n\nFrom: Jane <[EMAIL]>\n\nHello.\nFrom the start.');
+      expect(result.parts?.[1].content).toBe('# Second\n\nFrom: John <[EMAIL]>\n\nFrom here on we use Rust.');
+      expect(result.parts?.[1].metadata.lines).toBe(5);
+      expect(result.content).toContain('# First');
+      expect(result.content).toContain('# Second');
+    });
+
+    it('returns an empty mailbox for an empty file', async () => {
+      for (const empty of ['', '\n\n']) {
+        expect(await parseMbox(Buffer.from(empty), 'empty.mbox')).toEqual({
+          content: '',
+          metadata: { lines: 0 },
+          parts: [],
+        });
+      }
+    });
+
+    describe('with a message that cannot be parsed', () => {
+      afterEach(() => {
+        vi.restoreAllMocks();
+      });
+
+      // postal-mime rejects MIME trees nested deeper than 256 levels
+      const nested = Array.from(
+        { length: 300 },
+        (_, i) => `Content-Type: multipart/mixed; boundary="b${i}"\r\n\r\n--b${i}\r\n`,
+      ).join('');
+
+      it('skips that message and keeps the others', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const mbox = [
+          'From jane@example.com Tue Oct  1 10:00:00 2024',
+          message(['From: Jane <jane@example.com>', 'Subject: First'], ['Hello.']),
+          '',
+          'From spam@example.com Tue Oct  1 10:30:00 2024',
+          nested,
+          '',
+          'From john@example.com Tue Oct  1 11:00:00 2024',
+          message(['From: John <john@example.com>', 'Subject: Third'], ['Bye.']),
+          '',
+        ].join('\n');
+
+        const result = await parseMbox(Buffer.from(mbox), 'list.mbox');
+
+        expect(result.parts?.map((p) => p.id)).toEqual(['1', '3']);
+        expect(result.parts?.[1].content).toContain('# Third');
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping message 2 of list.mbox'));
+      });
+
+      it('throws when no message can be parsed', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const mbox = ['From spam@example.com Tue Oct  1 10:30:00 2024', nested].join('\n');
+
+        await expect(parseMbox(Buffer.from(mbox), 'bad.mbox')).rejects.toThrow(
+          'Failed to parse mbox: no message could be parsed',
+        );
+      });
+    });
+
+    it('throws error when the file holds no messages', async () => {
+      await expect(parseMbox(Buffer.from('not an mbox'), 'bad.mbox')).rejects.toThrow(
+        'Failed to parse mbox: no messages found',
+      );
+    });
+  });
+});
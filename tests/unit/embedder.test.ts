@@ -16,9 +16,10 @@ import {
 } from '../../src/core/embedder.js';
 
 describe('Embedder', () => {
-  it('model constants are correct', () => {
-    expect(getEmbeddingDim()).toBe(768);
-    expect(getModelName()).toBe('onnx-community/gte-multilingual-base');
+  it('model defaults are correct', async () => {
+    resetEmbedder();
+    expect(await getEmbeddingDim()).toBe(768);
+    expect(await getModelName()).toBe('onnx-community/gte-multilingual-base');
   });
 
   describe('getModelsDir', () => {
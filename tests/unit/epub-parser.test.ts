@@ -0,0 +1,77 @@
+/**
+ * EPUB parser unit tests
+ */
+
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { parseEpub } from '../../src/parsers/epub.js';
+
+/**
+ * Build an EPUB with the given chapters, listed in the spine in reverse file order
+ */
+async function buildEpub(chapters: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  const names = Object.keys(chapters).reverse();
+
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file(
+    'META-INF/container.xml',
+    `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`,
+  );
+  zip.file(
+    'OEBPS/content.opf',
+    `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <manifest>
+    <item id="css" href="style.css" media-type="text/css"/>
+    ${names.map((name) => `<item id="${name}" href="text/${name}.xhtml" media-type="application/xhtml+xml"/>`).join('\n')}
+  </manifest>
+  <spine>
+    <itemref idref="css"/>
+    ${names.map((name) => `<itemref idref="${name}"/>`).join('\n')}
+  </spine>
+</package>`,
+  );
+  for (const [name, body] of Object.entries(chapters)) {
+    zip.file(
+      `OEBPS/text/${name}.xhtml`,
+      `<?xml version="1.0"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>${name}</title></head><body>${body}</body></html>`,
+    );
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('EPUB Parser', () => {
+  describe('parseEpub', () => {
+    it('extracts chapters in spine order with markdown headings', async () => {
+      const buffer = await buildEpub({
+        ch2: '<section><h1>Maintenance</h1><p>Clean the filter monthly.</p></section>',
+        ch1: '<h1>Installation</h1><h2>Mounting</h2><p>Use the supplied bracket.</p><ul><li>Screws</li></ul>',
+      });
+
+      const result = await parseEpub(buffer, 'manual.epub');
+
+      expect(result.content).toBe(
+        '# Installation\n\n## Mounting\n\nUse the supplied bracket.\n\n- Screws\n\n' +
+          '# Maintenance\n\nClean the filter monthly.',
+      );
+      expect(result.metadata.lines).toBe(11);
+    });
+
+    it('throws error for invalid EPUB', async () => {
+      await expect(parseEpub(Buffer.from('not a zip'), 'bad.epub')).rejects.toThrow('Failed to parse EPUB');
+    });
+
+    it('throws error when the container is missing', async () => {
+      const zip = new JSZip();
+      zip.file('mimetype', 'application/epub+zip');
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      await expect(parseEpub(buffer, 'bad.epub')).rejects.toThrow('missing META-INF/container.xml');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Weighted score fusion tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { fuseWeighted, normalizeScores } from '../../src/core/fusion.js';
+
+describe('Fusion', () => {
+  describe('normalizeScores', () => {
+    it('min-max scales scores to 0-1', () => {
+      expect(normalizeScores([2, 4, 6], 'min-max')).toEqual([0, 0.5, 1]);
+    });
+
+    it('z-score centers scores on the mean and maps them to 0-1', () => {
+      const normalized = normalizeScores([1, 2, 3], 'z-score');
+
+      expect(normalized[1]).toBe(0.5);
+      expect(normalized[0]).toBeCloseTo(1 - normalized[2], 10);
+      expect(normalized[2]).toBeCloseTo(1 / (1 + Math.exp(-Math.sqrt(1.5))), 10);
+    });
+
+    it('keeps z-scores of outliers within 0-1', () => {
+      const normalized = normalizeScores([0, 0, 0, 0, 0, 0, 0, 0, 0, 100], 'z-score');
+
+      expect(normalized.every((s) => s > 0 && s < 1)).toBe(true);
+      expect(normalized[9]).toBeGreaterThan(normalized[0]);
+    });
+
+    it('handles empty and constant score lists', () => {
+      expect(normalizeScores([], 'min-max')).toEqual([]);
+      expect(normalizeScores([3, 3], 'min-max')).toEqual([1, 1]);
+      expect(normalizeScores([3, 3], 'z-score')).toEqual([0.5, 0.5]);
+    });
+  });
+
+  describe('fuseWeighted', () => {
+    const options = { keywordWeight: 0.5, semanticWeight: 0.5, normalization: 'min-max' as const };
+
+    it('combines normalized keyword and semantic scores', () => {
+      const keyword = [
+        { id: 1, score: 12 },
+        { id: 2, score: 2 },
+      ];
+      const semantic = [
+        { id: 2, score: 0.9 },
+        { id: 1, score: 0.7 },
+      ];
+
+      const fused = fuseWeighted(keyword, semantic, options);
+
+      expect(fused).toEqual([
+        { id: 1, score: 0.5 },
+        { id: 2, score: 0.5 },
+      ]);
+    });
+
+    it('keeps score gaps so a strong exact match wins', () => {
+      const keyword = [
+        { id: 1, score: 20 },
+        { id: 2, score: 1 },
+        { id: 3, score: 0.5 },
+      ];
+      const semantic = [
+        { id: 2, score: 0.81 },
+        { id: 3, score: 0.8 },
+        { id: 1, score: 0.79 },
+        { id: 4, score: 0.2 },
+      ];
+
+      const fused = fuseWeighted(keyword, semantic, options);
+
+      expect(fused[0].id).toBe(1);
+      expect(fused[0].score).toBeGreaterThan(fused[1].score + 0.4);
+    });
+
+    it('scores candidates missing from the keyword list as no match', () => {
+      const fused = fuseWeighted(
+        [{ id: 1, score: 5 }],
+        [
+          { id: 2, score: 0.8 },
+          { id: 1, score: 0.6 },
+        ],
+        options,
+      );
+
+      // id 1: keyword 1, semantic 0; id 2: keyword 0 (no match), semantic 1
+      expect(fused).toEqual([
+        { id: 1, score: 0.5 },
+        { id: 2, score: 0.5 },
+      ]);
+    });
+
+    it('scores candidates missing from the semantic list at its lowest similarity', () => {
+      const fused = fuseWeighted(
+        [
+          { id: 1, score: 5 },
+          { id: 3, score: 5 },
+        ],
+        [
+          { id: 1, score: 0.9 },
+          { id: 2, score: 0.5 },
+        ],
+        options,
+      );
+
+      const byId = new Map(fused.map((f) => [f.id, f.score]));
+      expect(byId.get(1)).toBe(1);
+      expect(byId.get(3)).toBe(0.5);
+      expect(byId.get(2)).toBe(0);
+    });
+
+    it('applies weights', () => {
+      const keyword = [
+        { id: 1, score: 10 },
+        { id: 2, score: 0 },
+      ];
+      const semantic = [
+        { id: 2, score: 0.9 },
+        { id: 1, score: 0.1 },
+      ];
+
+      const keywordHeavy = fuseWeighted(keyword, semantic, { ...options, keywordWeight: 0.9, semanticWeight: 0.1 });
+      const semanticHeavy = fuseWeighted(keyword, semantic, { ...options, keywordWeight: 0.1, semanticWeight: 0.9 });
+
+      expect(keywordHeavy[0].id).toBe(1);
+      expect(semanticHeavy[0].id).toBe(2);
+    });
+  });
+});
@@ -73,6 +73,45 @@ describe('HTML Parser', () => {
       expect(result.content).not.toContain('Hidden by attribute');
       expect(result.content).not.toContain('Hidden by style');
     });
+
+    it('does not repeat blocks nested in wrapper divs', async () => {
+      const html = '<body><div class="chapter"><h2>Setup</h2><p>Install it.</p></div><div>Plain div</div></body>';
+
+      const result = await parseHtml(Buffer.from(html), 'test.html');
+
+      expect(result.content).toBe('## Setup\n\nInstall it.\n\nPlain div');
+    });
+
+    it('renders tables as markdown tables with their rows intact', async () => {
+      const html = `
+        <body>
+          <p>Error codes:</p>
+          <table>
+            <thead><tr><th>Code</th><th>Meaning</th></tr></thead>
+            <tbody>
+              <tr><td>401</td><td>Missing or <b>expired</b> token</td></tr>
+              <tr><td>403</td><td>a | b</td></tr>
+            </tbody>
+          </table>
+        </body>`;
+
+      const result = await parseHtml(Buffer.from(html), 'test.html');
+
+      expect(result.content).toBe(
+        'Error codes:\n\n| Code | Meaning |\n| --- | --- |\n| 401 | Missing or expired token |\n| 403 | a \\| b |',
+      );
+    });
+
+    it('keeps nested tables out of the rows of the outer table', async () => {
+      const html =
+        '<table><tr><th>Name</th><th>Detail</th></tr>' +
+        '<tr><td>Outer</td><td><table><tr><td>Inner</td></tr></table></td></tr></table>';
+
+      const result = await parseHtml(Buffer.from(html), 'test.html');
+
+      expect(result.content.split('\n').filter((line) => line.includes('Inner'))).toHaveLength(1);
+      expect(result.content).toContain('| Name | Detail |');
+    });
   });
 
   describe('extractHtmlHeadings', () => {
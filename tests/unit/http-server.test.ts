@@ -0,0 +1,228 @@
+/**
+ * HTTP server tests
+ *
+ * Tests routing, request validation and bind address checks.
+ * Only paths that fail before retrieval are exercised, so no models are loaded.
+ */
+
+import { type IncomingHttpHeaders, type OutgoingHttpHeaders, request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createHttpServer, isLoopbackHost } from '../../src/server/http.js';
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+/**
+ * Send a raw request; unlike fetch, allows setting the Host header
+ */
+function rawRequest(
+  url: string,
+  options: { method?: string; headers?: OutgoingHttpHeaders; body?: string } = {},
+): Promise<{ status: number; headers: IncomingHttpHeaders; body: { error?: string } | null }> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, { method: options.method ?? 'GET', headers: options.headers }, (res) => {
+      let data = '';
+      res.on('data', (chunk) => {
+        data += chunk;
+      });
+      res.on('end', () =>
+        resolve({ status: res.statusCode ?? 0, headers: res.headers, body: data ? JSON.parse(data) : null }),
+      );
+    });
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+describe('HTTP server', () => {
+  describe('isLoopbackHost', () => {
+    it('accepts localhost and loopback addresses', () => {
+      expect(isLoopbackHost('localhost')).toBe(true);
+      expect(isLoopbackHost('127.0.0.1')).toBe(true);
+      expect(isLoopbackHost('127.1.2.3')).toBe(true);
+      expect(isLoopbackHost('::1')).toBe(true);
+      expect(isLoopbackHost('[::1]')).toBe(true);
+    });
+
+    it('rejects wildcard and external addresses', () => {
+      expect(isLoopbackHost('0.0.0.0')).toBe(false);
+      expect(isLoopbackHost('::')).toBe(false);
+      expect(isLoopbackHost('192.168.1.10')).toBe(false);
+      expect(isLoopbackHost('example.com')).toBe(false);
+    });
+  });
+
+  describe('routing', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      server = createHttpServer();
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      baseUrl = `http://127.0.0.1:${port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('returns 404 JSON for unknown paths', async () => {
+      const res = await fetch(`${baseUrl}/nope`);
+
+      expect(res.status).toBe(404);
+      expect(res.headers.get('content-type')).toContain('application/json');
+      expect(await res.json()).toEqual({ error: 'Not found: /nope' });
+    });
+
+    it('returns 405 with Allow header for unsupported methods', async () => {
+      const res = await fetch(`${baseUrl}/chat`);
+
+      expect(res.status).toBe(405);
+      expect(res.headers.get('allow')).toBe('POST');
+    });
+
+    it('requires a query for search', async () => {
+      const get = await fetch(`${baseUrl}/search?limit=5`);
+      const post = await fetch(`${baseUrl}/search`, {
+        method: 'POST',
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ limit: 5 }),
+      });
+
+      expect(get.status).toBe(400);
+      expect(post.status).toBe(400);
+      expect(((await get.json()) as { error: string }).error).toContain('query');
+    });
+
+    it('rejects invalid JSON bodies', async () => {
+      const invalid = await fetch(`${baseUrl}/search`, { method: 'POST', headers: JSON_HEADERS, body: '{not json' });
+      const array = await fetch(`${baseUrl}/chat`, { method: 'POST', headers: JSON_HEADERS, body: '[]' });
+
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toEqual({ error: 'Request body is not valid JSON' });
+      expect(array.status).toBe(400);
+    });
+
+    it('rejects unknown retrieval modes', async () => {
+      const res = await fetch(`${baseUrl}/search`, {
+        method: 'POST',
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ query: 'token', mode: 'fuzzy' }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({
+        error: 'Invalid retrieval mode: fuzzy. Expected one of: hybrid, semantic, keyword',
+      });
+    });
+
+    it('rejects unknown audit types', async () => {
+      const res = await fetch(`${baseUrl}/audit?type=nope`);
+
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as { error: string }).error).toContain('duplicates, conflicts');
+    });
+
+    it('rejects POST bodies that are not application/json', async () => {
+      // A cross-site form or fetch can send text/plain without a preflight
+      const res = await fetch(`${baseUrl}/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: JSON.stringify({ query: 'leak the docs' }),
+      });
+
+      expect(res.status).toBe(415);
+      expect(await res.json()).toEqual({ error: 'Content-Type must be application/json' });
+    });
+
+    it('rejects requests for other host names (DNS rebinding)', async () => {
+      const rebound = await rawRequest(`${baseUrl}/status`, { headers: { Host: 'attacker.example:7411' } });
+      const local = await rawRequest(`${baseUrl}/nope`, { headers: { Host: 'localhost:7411' } });
+
+      expect(rebound.status).toBe(421);
+      expect(rebound.body?.error).toBe('Host not allowed: attacker.example:7411');
+      expect(local.status).toBe(404);
+    });
+
+    it('rejects browser requests from origins that are not allowed', async () => {
+      const res = await rawRequest(`${baseUrl}/search?query=token`, { headers: { Origin: 'https://evil.example' } });
+      const post = await rawRequest(`${baseUrl}/chat`, {
+        method: 'POST',
+        headers: { ...JSON_HEADERS, Origin: 'null' },
+        body: JSON.stringify({ query: 'leak the docs' }),
+      });
+
+      expect(res.status).toBe(403);
+      expect(res.body?.error).toBe('Origin not allowed: https://evil.example');
+      expect(res.headers['access-control-allow-origin']).toBeUndefined();
+      expect(post.status).toBe(403);
+    });
+  });
+
+  describe('request policy options', () => {
+    let server: Server;
+    let port: number;
+
+    beforeAll(async () => {
+      server = createHttpServer({ host: 'dseek.lan', allowedOrigins: ['http://localhost:3000/'] });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      ({ port } = server.address() as AddressInfo);
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('accepts the bind host and allow-listed origins', async () => {
+      const bound = await rawRequest(`http://127.0.0.1:${port}/nope`, { headers: { Host: `dseek.lan:${port}` } });
+      const allowed = await rawRequest(`http://127.0.0.1:${port}/nope`, {
+        headers: { Origin: 'http://localhost:3000' },
+      });
+      const other = await rawRequest(`http://127.0.0.1:${port}/nope`, {
+        headers: { Origin: 'http://localhost:4000' },
+      });
+
+      expect(bound.status).toBe(404);
+      expect(allowed.status).toBe(404);
+      expect(other.status).toBe(403);
+    });
+
+    it('answers CORS preflights from allow-listed origins', async () => {
+      const preflight = await rawRequest(`http://127.0.0.1:${port}/search`, {
+        method: 'OPTIONS',
+        headers: {
+          Origin: 'http://localhost:3000',
+          'Access-Control-Request-Method': 'POST',
+          'Access-Control-Request-Headers': 'content-type',
+        },
+      });
+      const foreign = await rawRequest(`http://127.0.0.1:${port}/search`, {
+        method: 'OPTIONS',
+        headers: { Origin: 'http://localhost:4000', 'Access-Control-Request-Method': 'POST' },
+      });
+
+      expect(preflight.status).toBe(204);
+      expect(preflight.body).toBeNull();
+      expect(preflight.headers['access-control-allow-origin']).toBe('http://localhost:3000');
+      expect(preflight.headers['access-control-allow-methods']).toBe('GET, POST');
+      expect(preflight.headers['access-control-allow-headers']).toBe('Content-Type');
+      expect(preflight.headers.vary).toBe('Origin');
+      expect(foreign.status).toBe(403);
+      expect(foreign.headers['access-control-allow-origin']).toBeUndefined();
+    });
+
+    it('echoes allow-listed origins on cross-origin POSTs', async () => {
+      const res = await rawRequest(`http://127.0.0.1:${port}/search`, {
+        method: 'POST',
+        headers: { ...JSON_HEADERS, Origin: 'http://localhost:3000' },
+        body: JSON.stringify({ limit: 5 }),
+      });
+
+      // Fails validation before retrieval, but the browser can read the error
+      expect(res.status).toBe(400);
+      expect(res.headers['access-control-allow-origin']).toBe('http://localhost:3000');
+      expect(res.headers.vary).toBe('Origin');
+    });
+  });
+});
@@ -1,11 +1,14 @@
 /**
  * Indexer module tests - pure functions
  *
- * Tests for document ID generation, content hashing, and path ignoring.
+ * Tests for document ID generation, content hashing, path ignoring and
+ * source file selection.
  */
 
 import { describe, expect, it } from 'vitest';
-import { generateDocId, generateHash, shouldIgnore } from '../../src/core/indexer.js';
+import { DEFAULT_INCLUDE_PATTERNS } from '../../src/core/constants.js';
+import { generateDocId, generateHash, isSourceFile, shouldIgnore } from '../../src/core/indexer.js';
+import type { Source } from '../../src/types/index.js';
 
 describe('Indexer', () => {
   describe('generateDocId', () => {
@@ -72,6 +75,10 @@ describe('Indexer', () => {
 
       expect(hash).toMatch(/^[a-f0-9]{64}$/);
     });
+
+    it('hashes strings like their UTF-8 bytes', () => {
+      expect(generateHash('Привіт світ 🌍')).toBe(generateHash(Buffer.from('Привіт світ 🌍')));
+    });
   });
 
   describe('shouldIgnore', () => {
@@ -119,4 +126,27 @@ describe('Indexer', () => {
       expect(shouldIgnore('.github/workflows/ci.yml', ['.github'], [])).toBe(true);
     });
   });
+
+  describe('isSourceFile', () => {
+    const source: Source = {
+      name: 'docs',
+      path: './docs',
+      include: [...DEFAULT_INCLUDE_PATTERNS],
+      exclude: [],
+      watch: true,
+    };
+
+    it('picks up notebooks in sources added with the default include patterns', () => {
+      expect(isSourceFile('/project/docs/analysis/churn.ipynb', source, '/project', [])).toBe(true);
+    });
+
+    it('picks up emails and mailbox archives in sources added with the default include patterns', () => {
+      expect(isSourceFile('/project/docs/support/refund-request.eml', source, '/project', [])).toBe(true);
+      expect(isSourceFile('/project/docs/archive/2024.mbox', source, '/project', [])).toBe(true);
+    });
+
+    it('skips supported formats missing from the default include patterns', () => {
+      expect(isSourceFile('/project/docs/scripts/build.ts', source, '/project', [])).toBe(false);
+    });
+  });
 });
@@ -44,6 +44,40 @@ describe('LLM', () => {
       expect(prompt.toLowerCase()).toContain('language');
     });
 
+    it('cites pages for paged contexts', () => {
+      const contexts = [
+        { path: 'manual.pdf', line_start: 40, line_end: 52, page_start: 12, page_end: 12, snippet: 'Reset steps' },
+        { path: 'guide.pdf', line_start: 1, line_end: 30, page_start: 3, page_end: 4, snippet: 'Setup' },
+      ];
+
+      const prompt = buildRAGPrompt('How do I reset?', contexts);
+
+      expect(prompt).toContain('manual.pdf (page 12)');
+      expect(prompt).toContain('guide.pdf (pages 3-4)');
+      expect(prompt).toContain('[1: manual.pdf#p12]');
+    });
+
+    it('cites cells for notebook contexts', () => {
+      const contexts = [
+        { path: 'analysis.ipynb', line_start: 5, line_end: 9, page_start: 14, page_end: 14, snippet: 'df.describe()' },
+      ];
+
+      const prompt = buildRAGPrompt('What does the data look like?', contexts);
+
+      expect(prompt).toContain('analysis.ipynb (cell 14)');
+      expect(prompt).toContain('[1: analysis.ipynb cell 14]');
+    });
+
+    it('names the section of contexts with a heading path', () => {
+      const contexts = [
+        { path: 'docs/auth.md', line_start: 40, line_end: 52, heading_path: 'Auth > Tokens', snippet: 'Rotate' },
+      ];
+
+      const prompt = buildRAGPrompt('How are tokens rotated?', contexts);
+
+      expect(prompt).toContain('docs/auth.md (lines 40-52, section: Auth > Tokens)');
+    });
+
     it('handles empty contexts', () => {
       const prompt = buildRAGPrompt('What is X?', []);
 
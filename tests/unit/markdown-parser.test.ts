@@ -5,7 +5,13 @@
  */
 
 import { describe, expect, it } from 'vitest';
-import { extractHeadings, extractSections, isCodeBlockDelimiter } from '../../src/parsers/markdown.js';
+import {
+  extractHeadings,
+  extractSections,
+  findTables,
+  formatMarkdownTable,
+  isCodeBlockDelimiter,
+} from '../../src/parsers/markdown.js';
 
 describe('Markdown Parser', () => {
   describe('extractHeadings', () => {
@@ -130,4 +136,24 @@ line 5`;
       expect(isCodeBlockDelimiter('# heading')).toBe(false);
     });
   });
+
+  describe('formatMarkdownTable', () => {
+    it('renders the first row as header and pads short rows', () => {
+      const table = formatMarkdownTable([['Code', 'Meaning'], ['401', 'Unauthorized'], ['500']]);
+
+      expect(table).toBe('| Code | Meaning |\n| --- | --- |\n| 401 | Unauthorized |\n| 500 |  |');
+    });
+
+    it('escapes pipes in cells', () => {
+      expect(formatMarkdownTable([['a|b']])).toBe('| a\\|b |\n| --- |');
+    });
+  });
+
+  describe('findTables', () => {
+    it('finds tables with a separator row', () => {
+      const lines = ['Intro', '| a | b |', '|---|:-:|', '| 1 | 2 |', '| 3 | 4 |', '', '| not | a table |'];
+
+      expect(findTables(lines)).toEqual([{ start: 1, end: 4 }]);
+    });
+  });
 });
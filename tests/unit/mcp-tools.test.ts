@@ -0,0 +1,119 @@
+/**
+ * MCP tool tests
+ *
+ * Tests tool definitions, argument mapping and error handling.
+ * Does not load models: only paths that fail before retrieval are exercised.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { LIMITS } from '../../src/core/constants.js';
+import { callTool, MCP_TOOLS, toChatOptions, toSearchQuery } from '../../src/mcp/tools.js';
+
+describe('MCP tools', () => {
+  describe('MCP_TOOLS', () => {
+    it('exposes search, status, list_documents and chat', () => {
+      expect(MCP_TOOLS.map((t) => t.name)).toEqual(['search', 'status', 'list_documents', 'chat']);
+    });
+
+    it('declares object input schemas with required query where needed', () => {
+      for (const tool of MCP_TOOLS) {
+        expect(tool.inputSchema.type).toBe('object');
+        expect(tool.description.length).toBeGreaterThan(0);
+      }
+
+      const searchTool = MCP_TOOLS.find((t) => t.name === 'search');
+      expect(searchTool?.inputSchema.required).toEqual(['query']);
+      expect(Object.keys(searchTool?.inputSchema.properties ?? {})).toEqual(
+        expect.arrayContaining([
+          'query',
+          'limit',
+          'cursor',
+          'path_prefix',
+          'source_name',
+          'section',
+          'mode',
+          'rerank',
+          'rerank_top_k',
+        ]),
+      );
+      expect(searchTool?.outputSchema?.properties).toHaveProperty('results');
+    });
+  });
+
+  describe('toSearchQuery', () => {
+    it('maps tool arguments to a search query', () => {
+      const query = toSearchQuery({
+        query: 'auth flow',
+        limit: 5,
+        cursor: 'abc',
+        path_prefix: 'docs/',
+        source_name: 'docs',
+        section: 'Tokens',
+      });
+
+      expect(query).toEqual({
+        query: 'auth flow',
+        limit: 5,
+        cursor: 'abc',
+        filters: { path_prefix: 'docs/', source_name: 'docs', section: 'Tokens' },
+        rerank: false,
+        rerank_top_k: undefined,
+        mode: undefined,
+      });
+    });
+
+    it('defaults rerank_top_k only when reranking', () => {
+      expect(toSearchQuery({ query: 'q', rerank: true }).rerank_top_k).toBe(LIMITS.DEFAULT_RERANK_TOP_K);
+      expect(toSearchQuery({ query: 'q', rerank: true, rerank_top_k: 30 }).rerank_top_k).toBe(30);
+      expect(toSearchQuery({ query: 'q', rerank_top_k: 30 }).rerank_top_k).toBeUndefined();
+    });
+
+    it('ignores invalid optional arguments', () => {
+      const query = toSearchQuery({ query: 'q', limit: 'ten', cursor: '', path_prefix: 42 });
+
+      expect(query.limit).toBeUndefined();
+      expect(query.cursor).toBeUndefined();
+      expect(query.filters?.path_prefix).toBeUndefined();
+    });
+
+    it('throws when query is missing', () => {
+      expect(() => toSearchQuery({})).toThrow('Missing required argument: query');
+    });
+  });
+
+  describe('toChatOptions', () => {
+    it('maps tool arguments to chat options', () => {
+      expect(toChatOptions({ top_k: 3, model: 'llama3', temperature: 0.2, rerank: true, no_cite: true })).toEqual({
+        top_k: 3,
+        model: 'llama3',
+        temperature: 0.2,
+        rerank: true,
+        no_cite: true,
+      });
+    });
+
+    it('clamps top_k to a positive integer', () => {
+      // LIMIT -1 would mean no limit in SQLite
+      expect(toChatOptions({ top_k: -1 }).top_k).toBe(1);
+      expect(toChatOptions({ top_k: 0 }).top_k).toBe(1);
+      expect(toChatOptions({ top_k: 2.7 }).top_k).toBe(2);
+      expect(toChatOptions({ top_k: '5' }).top_k).toBeUndefined();
+    });
+  });
+
+  describe('callTool', () => {
+    it('returns an error result for unknown tools', async () => {
+      const result = await callTool('nope');
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Unknown tool: nope');
+    });
+
+    it('returns an error result instead of throwing on bad arguments', async () => {
+      const result = await callTool('search', {});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('query');
+    });
+  });
+});
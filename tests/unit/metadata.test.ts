@@ -4,19 +4,27 @@
  * Tests document metadata CRUD operations without touching Orama.
  */
 
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
 import { beforeEach, describe, expect, it } from 'vitest';
+import { saveConfig } from '../../src/core/config.js';
 import {
   getAllDocuments,
   getDocument,
   getDocumentCount,
+  getDocumentParts,
   getLastEvent,
+  getSensitiveFiles,
   needsUpdate,
   recordEvent,
   removeDocument,
   resetMetadata,
   setDocument,
+  setSensitiveFile,
+  updateDocumentSource,
 } from '../../src/storage/metadata.js';
-import type { Document, IndexEvent } from '../../src/types/index.js';
+import { backfillSourceNames } from '../../src/storage/migrate.js';
+import type { Document, DseekConfig, IndexEvent } from '../../src/types/index.js';
 
 /**
  * Create a test document with defaults
@@ -50,6 +58,29 @@ describe('Metadata', () => {
     expect(retrieved).toEqual(doc);
   });
 
+  it('round-trips PII stats', async () => {
+    const doc = createDocument({ doc_id: 'secrets.md', pii_stats: { api_key: 1, email: 2 } });
+
+    await setDocument(doc);
+
+    expect(await getDocument('secrets.md')).toEqual(doc);
+    expect((await getAllDocuments())[0].pii_stats).toEqual({ api_key: 1, email: 2 });
+  });
+
+  it('tracks sensitive files by path', async () => {
+    await setSensitiveFile('ops/secrets.md', 'skip');
+    await setSensitiveFile('.env', 'warn');
+    await setSensitiveFile('ops/secrets.md', 'redact');
+
+    expect(await getSensitiveFiles()).toEqual([
+      { path: '.env', policy: 'warn' },
+      { path: 'ops/secrets.md', policy: 'redact' },
+    ]);
+
+    await setSensitiveFile('.env', null);
+    expect(await getSensitiveFiles()).toEqual([{ path: 'ops/secrets.md', policy: 'redact' }]);
+  });
+
   it('removes a document and returns true', async () => {
     await setDocument(createDocument({ doc_id: 'remove.md' }));
 
@@ -112,4 +143,69 @@ describe('Metadata', () => {
 
     expect(await getDocumentCount()).toBe(2);
   });
+
+  it('updateDocumentSource changes source name only when different', async () => {
+    await setDocument(createDocument({ doc_id: 'docs/a.md' }));
+
+    expect(await updateDocumentSource('docs/a.md', 'docs')).toBe(true);
+    expect((await getDocument('docs/a.md'))?.source_name).toBe('docs');
+    expect(await updateDocumentSource('docs/a.md', 'docs')).toBe(false);
+  });
+
+  it('tracks documents split out of a file by source_doc_id', async () => {
+    for (const id of ['2', '1']) {
+      await setDocument(
+        createDocument({
+          doc_id: `list.mbox#${id}`,
+          format: 'mbox',
+          content_hash: 'mbox-hash',
+          source_doc_id: 'list.mbox',
+        }),
+      );
+    }
+    await setDocument(createDocument({ doc_id: 'other.md' }));
+
+    expect((await getDocumentParts('list.mbox')).map((d) => d.doc_id)).toEqual(['list.mbox#1', 'list.mbox#2']);
+    expect(await getDocument('list.mbox#1')).toMatchObject({ source_doc_id: 'list.mbox' });
+    expect(await needsUpdate('list.mbox', 'mbox-hash')).toBe(false);
+    expect(await needsUpdate('list.mbox', 'new-hash')).toBe(true);
+
+    expect(await updateDocumentSource('list.mbox', 'mail')).toBe(true);
+    expect((await getDocumentParts('list.mbox')).map((d) => d.source_name)).toEqual(['mail', 'mail']);
+    expect((await getDocument('other.md'))?.source_name).toBe('default');
+  });
+
+  it('backfillSourceNames assigns documents to configured sources', async () => {
+    const root = join(process.cwd(), '.test-metadata-backfill');
+    mkdirSync(root, { recursive: true });
+
+    try {
+      await saveConfig(
+        {
+          schema_version: 1,
+          project_id: 'backfill',
+          sources: [
+            { name: 'docs', path: 'docs', include: [], exclude: [], watch: true },
+            { name: 'api', path: './docs/api', include: [], exclude: [], watch: true },
+          ],
+        } as unknown as DseekConfig,
+        root,
+      );
+
+      await setDocument(createDocument({ doc_id: 'docs/guide.md' }));
+      await setDocument(createDocument({ doc_id: 'docs/api/auth.md' }));
+      await setDocument(createDocument({ doc_id: 'notes/todo.md' }));
+
+      const updated = await backfillSourceNames(root);
+
+      expect(updated).toBe(2);
+      expect((await getDocument('docs/guide.md'))?.source_name).toBe('docs');
+      // Nested source wins over its parent
+      expect((await getDocument('docs/api/auth.md'))?.source_name).toBe('api');
+      // Outside every source: left untouched
+      expect((await getDocument('notes/todo.md'))?.source_name).toBe('default');
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,103 @@
+/**
+ * Notebook parser unit tests
+ *
+ * Tests cell rendering, cell breaks and cell-based chunking of .ipynb files.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { chunkDocument, formatLocation } from '../../src/core/chunker.js';
+import { parseNotebook } from '../../src/parsers/notebook.js';
+
+/**
+ * Build an nbformat 4 notebook buffer
+ */
+function notebook(cells: Array<Record<string, unknown>>): Buffer {
+  return Buffer.from(
+    JSON.stringify({
+      cells,
+      metadata: { kernelspec: { language: 'python', name: 'python3' } },
+      nbformat: 4,
+      nbformat_minor: 5,
+    }),
+  );
+}
+
+const CELLS = [
+  { cell_type: 'markdown', source: ['# Churn analysis\n', '\n', 'Monthly churn by plan.'] },
+  {
+    cell_type: 'code',
+    source: ['df = load()\n', 'df.describe()'],
+    outputs: [
+      { output_type: 'stream', name: 'stdout', text: ['loaded 120 rows\n'] },
+      { output_type: 'execute_result', data: { 'text/plain': ['count 120'], 'image/png': 'iVBOR' } },
+    ],
+  },
+  { cell_type: 'code', source: [], outputs: [] },
+  { cell_type: 'markdown', source: '## Findings\n\nEnterprise churn is lowest.' },
+];
+
+describe('Notebook Parser', () => {
+  it('renders markdown cells as-is and code cells as fenced blocks', async () => {
+    const result = await parseNotebook(notebook(CELLS), 'analysis.ipynb');
+
+    expect(result.content).toBe(
+      [
+        '# Churn analysis',
+        '',
+        'Monthly churn by plan.',
+        '',
+        '```python',
+        'df = load()',
+        'df.describe()',
+        '```',
+        '',
+        '## Findings',
+        '',
+        'Enterprise churn is lowest.',
+      ].join('\n'),
+    );
+    expect(result.metadata.pages).toBe(4);
+    // The empty third cell starts where the fourth does
+    expect(result.metadata.page_breaks).toEqual([1, 5, 10, 10]);
+  });
+
+  it('includes text outputs when enabled', async () => {
+    const result = await parseNotebook(notebook(CELLS), 'analysis.ipynb', { notebookOutputs: true });
+
+    expect(result.content).toContain('```\n\nOutput:\n```\nloaded 120 rows\ncount 120\n```');
+    expect(result.content).not.toContain('iVBOR');
+  });
+
+  it('rejects files that are not notebooks', async () => {
+    await expect(parseNotebook(Buffer.from('{"cells": 1}'), 'bad.ipynb')).rejects.toThrow('Invalid notebook');
+    await expect(parseNotebook(Buffer.from('not json'), 'bad.ipynb')).rejects.toThrow('Invalid notebook JSON');
+  });
+
+  it('chunks by cell, starting a new chunk at each heading', async () => {
+    const result = await parseNotebook(notebook(CELLS), 'analysis.ipynb');
+    const chunks = chunkDocument(result.content, {
+      docId: 'analysis.ipynb',
+      format: 'ipynb',
+      pageBreaks: result.metadata.page_breaks,
+    });
+
+    expect(chunks.map((c) => formatLocation(c.doc_id, c))).toEqual([
+      'analysis.ipynb cells 1-2',
+      'analysis.ipynb cell 4',
+    ]);
+    expect(chunks[1].text).toBe('## Findings\n\nEnterprise churn is lowest.');
+  });
+
+  it('splits cells too large for one chunk', async () => {
+    const big = Array.from({ length: 80 }, (_, i) => `x${i} = compute(${i})  # step ${i}`).join('\n');
+    const result = await parseNotebook(notebook([{ cell_type: 'code', source: big, outputs: [] }]), 'big.ipynb');
+    const chunks = chunkDocument(result.content, {
+      docId: 'big.ipynb',
+      format: 'ipynb',
+      pageBreaks: result.metadata.page_breaks,
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.page_start === 1 && c.page_end === 1)).toBe(true);
+  });
+});
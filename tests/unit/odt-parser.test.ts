@@ -0,0 +1,74 @@
+/**
+ * ODT parser unit tests
+ */
+
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { parseOdt } from '../../src/parsers/odt.js';
+
+/**
+ * Build an ODT whose content.xml holds the given automatic styles and body
+ */
+async function buildOdt(body: string, styles = ''): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/vnd.oasis.opendocument.text');
+  zip.file(
+    'content.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content
+  xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"
+  xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"
+  xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0">
+  <office:automatic-styles>${styles}</office:automatic-styles>
+  <office:body><office:text>${body}</office:text></office:body>
+</office:document-content>`,
+  );
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('ODT Parser', () => {
+  describe('parseOdt', () => {
+    it('converts headings and list items to markdown', async () => {
+      const buffer = await buildOdt(
+        '<text:h text:outline-level="1">Interface Spec</text:h>' +
+          '<text:p>Version<text:s/>2 of the<text:tab/>protocol.</text:p>' +
+          '<text:h text:outline-level="2">Messages</text:h>' +
+          '<text:list><text:list-item><text:p>Hello</text:p></text:list-item>' +
+          '<text:list-item><text:p>Goodbye</text:p></text:list-item></text:list>',
+      );
+
+      const result = await parseOdt(buffer, 'spec.odt');
+
+      expect(result.content).toBe(
+        '# Interface Spec\n\nVersion 2 of the protocol.\n\n## Messages\n\n- Hello\n\n- Goodbye',
+      );
+      expect(result.metadata.lines).toBe(9);
+    });
+
+    it('treats paragraphs with heading styles as headings', async () => {
+      const buffer = await buildOdt(
+        '<text:p text:style-name="P1">Overview</text:p><text:p text:style-name="Heading_20_3">Details</text:p>',
+        '<style:style style:name="P1" style:family="paragraph" style:parent-style-name="Heading_20_2"/>',
+      );
+
+      const result = await parseOdt(buffer, 'spec.odt');
+
+      expect(result.content).toBe('## Overview\n\n### Details');
+    });
+
+    it('leaves footnotes out of the running text', async () => {
+      const buffer = await buildOdt(
+        '<text:p>Timeouts apply.<text:note><text:note-citation>1</text:note-citation>' +
+          '<text:note-body><text:p>Default 30s.</text:p></text:note-body></text:note></text:p>',
+      );
+
+      const result = await parseOdt(buffer, 'spec.odt');
+
+      expect(result.content).toBe('Timeouts apply.');
+    });
+
+    it('throws error for invalid ODT', async () => {
+      await expect(parseOdt(Buffer.from('not a zip'), 'bad.odt')).rejects.toThrow('Failed to parse ODT');
+    });
+  });
+});
@@ -35,11 +35,47 @@ describe('Parsers', () => {
       expect(getFormat('file.docx')).toBe('docx');
     });
 
+    it('returns code for source files', () => {
+      expect(getFormat('src/index.ts')).toBe('code');
+      expect(getFormat('script.js')).toBe('code');
+      expect(getFormat('main.go')).toBe('code');
+      expect(getFormat('lib.rs')).toBe('code');
+      expect(getFormat('App.java')).toBe('code');
+      expect(getFormat('tool.py')).toBe('code');
+    });
+
+    it('returns rst and adoc for markup extensions', () => {
+      expect(getFormat('guide.rst')).toBe('rst');
+      expect(getFormat('guide.adoc')).toBe('adoc');
+      expect(getFormat('guide.asciidoc')).toBe('adoc');
+    });
+
+    it('returns epub, odt and rtf for document extensions', () => {
+      expect(getFormat('manual.epub')).toBe('epub');
+      expect(getFormat('spec.odt')).toBe('odt');
+      expect(getFormat('legacy.RTF')).toBe('rtf');
+    });
+
+    it('returns eml and mbox for email files', () => {
+      expect(getFormat('decision.eml')).toBe('eml');
+      expect(getFormat('dev-list.mbox')).toBe('mbox');
+    });
+
+    it('returns ipynb for notebooks', () => {
+      expect(getFormat('analysis.ipynb')).toBe('ipynb');
+    });
+
+    it('returns structured data formats', () => {
+      expect(getFormat('package.json')).toBe('json');
+      expect(getFormat('config.yaml')).toBe('yaml');
+      expect(getFormat('compose.yml')).toBe('yaml');
+      expect(getFormat('Cargo.toml')).toBe('toml');
+    });
+
     it('returns null for unknown extensions', () => {
       expect(getFormat('file.xyz')).toBeNull();
       expect(getFormat('noext')).toBeNull();
       expect(getFormat('.gitignore')).toBeNull();
-      expect(getFormat('script.js')).toBeNull();
       expect(getFormat('style.css')).toBeNull();
     });
 
@@ -60,7 +96,6 @@ describe('Parsers', () => {
 
     it('returns false for unsupported formats', () => {
       expect(isSupported('file.xyz')).toBe(false);
-      expect(isSupported('script.js')).toBe(false);
       expect(isSupported('style.css')).toBe(false);
       expect(isSupported('image.png')).toBe(false);
       expect(isSupported('noextension')).toBe(false);
@@ -78,6 +113,14 @@ describe('Parsers', () => {
       expect(exts).toContain('.txt');
       expect(exts).toContain('.pdf');
       expect(exts).toContain('.docx');
+      expect(exts).toContain('.epub');
+      expect(exts).toContain('.odt');
+      expect(exts).toContain('.rtf');
+      expect(exts).toContain('.eml');
+      expect(exts).toContain('.mbox');
+      expect(exts).toContain('.json');
+      expect(exts).toContain('.yml');
+      expect(exts).toContain('.toml');
     });
 
     it('returns array of strings starting with dot', () => {
@@ -5,7 +5,7 @@
 import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { describe, expect, it } from 'vitest';
-import { getPdfMetadata, parsePdf } from '../../src/parsers/pdf.js';
+import { getPdfMetadata, joinPages, parsePdf, parsePdfPages, renderPageText } from '../../src/parsers/pdf.js';
 
 const SAMPLE_PDF = join(process.cwd(), 'testdata/sample.pdf');
 
@@ -43,6 +43,79 @@ describe('PDF Parser', () => {
     });
   });
 
+  describe('page boundaries', () => {
+    it('records the starting line of every page', async () => {
+      const buffer = readFileSync(SAMPLE_PDF);
+      const result = await parsePdf(buffer, 'sample.pdf');
+      const pageBreaks = result.metadata.page_breaks ?? [];
+
+      expect(pageBreaks).toHaveLength(3);
+      expect(pageBreaks[0]).toBe(1);
+      for (let i = 1; i < pageBreaks.length; i++) {
+        expect(pageBreaks[i]).toBeGreaterThan(pageBreaks[i - 1]);
+        expect(pageBreaks[i]).toBeLessThanOrEqual(result.metadata.lines);
+      }
+    });
+
+    it('joinPages separates pages with a blank line', () => {
+      const { text, pageBreaks } = joinPages(['a\nb', 'c', 'd\ne']);
+
+      expect(text).toBe('a\nb\n\nc\n\nd\ne');
+      expect(pageBreaks).toEqual([1, 4, 6]);
+      expect(text.split('\n')[pageBreaks[2] - 1]).toBe('d');
+    });
+
+    it('parsePdfPages extracts a page range', async () => {
+      const buffer = readFileSync(SAMPLE_PDF);
+      const full = await parsePdf(buffer, 'sample.pdf');
+      const firstPage = await parsePdfPages(buffer, 1, 1);
+
+      expect(full.content.startsWith(firstPage)).toBe(true);
+    });
+  });
+
+  describe('renderPageText', () => {
+    /** Text item at (x, y) in a 10pt font, 5 units per character */
+    const item = (str: string, x: number, y: number) => ({
+      str,
+      transform: [10, 0, 0, 10, x, y],
+      width: str.length * 5,
+    });
+
+    it('renders cells aligned in columns as a markdown table', () => {
+      const text = renderPageText([
+        item('Error codes', 50, 700),
+        item('Code', 50, 680),
+        item('Meaning', 150, 680),
+        item('401', 50, 665),
+        item('Unauthorized', 150, 665),
+        item('403', 50, 650),
+        item('Forbidden', 150, 650),
+        item('See the API guide.', 50, 630),
+      ]);
+
+      expect(text).toBe(
+        'Error codes\n| Code | Meaning |\n| --- | --- |\n| 401 | Unauthorized |\n| 403 | Forbidden |\nSee the API guide.',
+      );
+    });
+
+    it('keeps lines with closely spaced items as text', () => {
+      const text = renderPageText([
+        item('Hello', 50, 700),
+        item(' ', 75, 700),
+        item('world', 80, 700),
+        item('Second', 50, 685),
+        item('line', 85, 685),
+      ]);
+
+      expect(text).toBe('Hello world\nSecondline');
+    });
+
+    it('does not treat a single line with gaps as a table', () => {
+      expect(renderPageText([item('Chapter 1', 50, 700), item('2', 400, 700)])).toBe('Chapter 12');
+    });
+  });
+
   describe('getPdfMetadata', () => {
     it('returns page count', async () => {
       const buffer = readFileSync(SAMPLE_PDF);
@@ -8,7 +8,7 @@
  */
 
 import { describe, expect, it } from 'vitest';
-import { detectPII, redactPII } from '../../src/privacy/pii.js';
+import { createDetectors, detectPII, redactPII } from '../../src/privacy/pii.js';
 
 describe('PII Edge Cases', () => {
   describe('overlapping patterns', () => {
@@ -43,6 +43,26 @@ describe('PII Edge Cases', () => {
       expect(result.redacted).toBe(true);
     });
 
+    it('replaces only one of overlapping matches', () => {
+      // Phone pattern matches the digits inside the employee ID
+      const detectors = createDetectors({
+        local_only: true,
+        allow_remote: false,
+        require_boundary_key: true,
+        boundary_key_env: 'DSEEK_DATA_BOUNDARY_KEY',
+        redact_before_remote: true,
+        redact_at_index: false,
+        sensitive_paths: 'skip',
+        pii_detectors: ['regex_rules', 'custom_rules'],
+        pii_rules: [{ type: 'employee_id', pattern: 'EMP-\\d{6}' }],
+      });
+
+      const result = redactPII('Owner: EMP-123456', detectors);
+
+      expect(result.text).toBe('Owner: [EMPLOYEE_ID]');
+      expect(result.matches.map((m) => m.type)).toEqual(['employee_id']);
+    });
+
     it('handles adjacent PII without merging', () => {
       const text = 'Email: foo@bar.com Phone: +1-555-123-4567';
 
@@ -0,0 +1,154 @@
+/**
+ * Privacy guard unit tests
+ *
+ * Tests endpoint classification, refusal of remote calls and
+ * redaction of contexts before remote sends.
+ */
+
+import { existsSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { generate, generateWithRAG } from '../../src/core/llm.js';
+import {
+  assertEndpointAllowed,
+  classifyEndpoint,
+  guardContexts,
+  PrivacyError,
+  redactContexts,
+} from '../../src/privacy/guard.js';
+import type { PrivacyConfig } from '../../src/types/index.js';
+
+const KEY_ENV = 'DSEEK_TEST_BOUNDARY_KEY';
+
+const DEFAULT_PRIVACY: PrivacyConfig = {
+  local_only: true,
+  allow_remote: false,
+  require_boundary_key: true,
+  boundary_key_env: 'DSEEK_DATA_BOUNDARY_KEY',
+  redact_before_remote: true,
+  redact_at_index: false,
+  sensitive_paths: 'skip',
+  pii_detectors: ['regex_rules'],
+  pii_rules: [],
+};
+
+const REMOTE_ALLOWED: PrivacyConfig = {
+  ...DEFAULT_PRIVACY,
+  local_only: false,
+  allow_remote: true,
+  boundary_key_env: KEY_ENV,
+};
+
+const CONTEXTS = [{ path: 'docs/team.md', line_start: 1, line_end: 3, snippet: 'Contact alice@example.com' }];
+
+describe('Privacy Guard', () => {
+  afterEach(() => {
+    delete process.env[KEY_ENV];
+  });
+
+  describe('classifyEndpoint', () => {
+    it('treats loopback and unspecified addresses as local', () => {
+      expect(classifyEndpoint('http://localhost:11434')).toBe('local');
+      expect(classifyEndpoint('http://127.0.0.1:11434')).toBe('local');
+      expect(classifyEndpoint('http://[::1]:11434')).toBe('local');
+      expect(classifyEndpoint('0.0.0.0:11434')).toBe('local');
+      expect(classifyEndpoint('ollama.localhost:11434')).toBe('local');
+    });
+
+    it('treats other hosts and unparseable values as remote', () => {
+      expect(classifyEndpoint('https://ollama.example.com')).toBe('remote');
+      expect(classifyEndpoint('gpu-box:11434')).toBe('remote');
+      expect(classifyEndpoint('http://192.168.1.20:11434')).toBe('remote');
+      expect(classifyEndpoint('http://localhost.example.com')).toBe('remote');
+      expect(classifyEndpoint('http://')).toBe('remote');
+    });
+  });
+
+  describe('assertEndpointAllowed', () => {
+    it('always allows local endpoints', () => {
+      expect(assertEndpointAllowed('http://localhost:11434', DEFAULT_PRIVACY)).toBe('local');
+    });
+
+    it('refuses remote endpoints with the default config', () => {
+      expect(() => assertEndpointAllowed('https://ollama.example.com', DEFAULT_PRIVACY)).toThrow(PrivacyError);
+      expect(() => assertEndpointAllowed('https://ollama.example.com', DEFAULT_PRIVACY)).toThrow(/local_only/);
+    });
+
+    it('refuses remote endpoints when allow_remote is false', () => {
+      const privacy = { ...REMOTE_ALLOWED, allow_remote: false };
+      process.env[KEY_ENV] = 'set';
+
+      expect(() => assertEndpointAllowed('https://ollama.example.com', privacy)).toThrow(/allow_remote/);
+    });
+
+    it('refuses remote endpoints when the boundary key is missing', () => {
+      expect(() => assertEndpointAllowed('https://ollama.example.com', REMOTE_ALLOWED)).toThrow(KEY_ENV);
+    });
+
+    it('allows remote endpoints when permitted and the boundary key is set', () => {
+      process.env[KEY_ENV] = 'set';
+      expect(assertEndpointAllowed('https://ollama.example.com', REMOTE_ALLOWED)).toBe('remote');
+
+      delete process.env[KEY_ENV];
+      expect(
+        assertEndpointAllowed('https://ollama.example.com', { ...REMOTE_ALLOWED, require_boundary_key: false }),
+      ).toBe('remote');
+    });
+  });
+
+  describe('redactContexts / guardContexts', () => {
+    it('redacts snippets without touching other fields', () => {
+      const [redacted] = redactContexts(CONTEXTS);
+
+      expect(redacted.snippet).toBe('Contact [EMAIL]');
+      expect(redacted.path).toBe('docs/team.md');
+      expect(CONTEXTS[0].snippet).toContain('alice@example.com');
+    });
+
+    it('redacts heading paths', () => {
+      const [redacted] = redactContexts([{ ...CONTEXTS[0], heading_path: 'Team > alice@example.com' }]);
+
+      expect(redacted.heading_path).toBe('Team > [EMAIL]');
+    });
+
+    it('redacts only for remote endpoints with redact_before_remote', () => {
+      process.env[KEY_ENV] = 'set';
+
+      expect(guardContexts('http://localhost:11434', CONTEXTS, REMOTE_ALLOWED)).toBe(CONTEXTS);
+      expect(guardContexts('https://ollama.example.com', CONTEXTS, REMOTE_ALLOWED)[0].snippet).toBe('Contact [EMAIL]');
+      expect(
+        guardContexts('https://ollama.example.com', CONTEXTS, { ...REMOTE_ALLOWED, redact_before_remote: false })[0]
+          .snippet,
+      ).toContain('alice@example.com');
+    });
+  });
+
+  describe('LLM calls', () => {
+    const TEST_DIR = join(process.cwd(), '.test-privacy-guard');
+    let ollamaHost: string | undefined;
+
+    beforeEach(() => {
+      mkdirSync(TEST_DIR, { recursive: true });
+      process.env.DSEEK_PROJECT_ROOT = TEST_DIR;
+      ollamaHost = process.env.OLLAMA_HOST;
+      process.env.OLLAMA_HOST = 'https://ollama.example.com';
+    });
+
+    afterEach(() => {
+      if (existsSync(TEST_DIR)) {
+        rmSync(TEST_DIR, { recursive: true });
+      }
+      delete process.env.DSEEK_PROJECT_ROOT;
+      if (ollamaHost === undefined) {
+        delete process.env.OLLAMA_HOST;
+      } else {
+        process.env.OLLAMA_HOST = ollamaHost;
+      }
+    });
+
+    it('refuses to send prompts to a remote OLLAMA_HOST by default', async () => {
+      await expect(generate('hello')).rejects.toThrow(PrivacyError);
+      await expect(generateWithRAG('Who do I contact?', CONTEXTS)).rejects.toThrow(PrivacyError);
+    });
+  });
+});
@@ -5,13 +5,33 @@
  */
 
 import { describe, expect, it } from 'vitest';
-import { calculateConfidence, decodeCursor, encodeCursor, hashQuery } from '../../src/core/retrieval.js';
+import { fuseWeighted } from '../../src/core/fusion.js';
+import {
+  CursorError,
+  calculateConfidence,
+  cursorMatches,
+  decodeCursor,
+  encodeCursor,
+  hashQuery,
+  normalizeFilters,
+  normalizeKeywordScores,
+  redactResults,
+  rerankCacheKey,
+} from '../../src/core/retrieval.js';
+import { createDetectors } from '../../src/privacy/pii.js';
 import type { SearchResult } from '../../src/types/index.js';
 
 describe('Retrieval', () => {
   describe('encodeCursor / decodeCursor', () => {
     it('round-trips cursor data as base64', () => {
-      const data = { query_hash: 'abc123', offset: 10, index_version: 1 };
+      const data = {
+        query_hash: 'abc123',
+        offset: 10,
+        index_version: '1',
+        limit: 10,
+        filters: { path_prefix: 'docs/' },
+        mode: 'hybrid' as const,
+      };
       const cursor = encodeCursor(data);
 
       // Verify base64 format
@@ -32,6 +52,53 @@ describe('Retrieval', () => {
     });
   });
 
+  describe('cursorMatches', () => {
+    const shape = {
+      query_hash: 'abc123',
+      limit: 10,
+      filters: { path_prefix: 'docs/' },
+      rerank_top_k: undefined,
+      mode: 'hybrid' as const,
+    };
+    const cursor = { ...shape, offset: 10, index_version: '3' };
+
+    it('accepts a cursor issued for the same search', () => {
+      expect(cursorMatches(cursor, shape)).toBe(true);
+    });
+
+    it('rejects cursors from a different query, limit, mode or filters', () => {
+      expect(cursorMatches(cursor, { ...shape, query_hash: 'other' })).toBe(false);
+      expect(cursorMatches(cursor, { ...shape, limit: 20 })).toBe(false);
+      expect(cursorMatches(cursor, { ...shape, mode: 'keyword' })).toBe(false);
+      expect(cursorMatches(cursor, { ...shape, rerank_top_k: 50 })).toBe(false);
+      expect(cursorMatches(cursor, { ...shape, filters: { source_name: 'docs' } })).toBe(false);
+      expect(cursorMatches(cursor, { ...shape, filters: undefined })).toBe(false);
+    });
+
+    it('rejects malformed offsets', () => {
+      expect(cursorMatches({ ...cursor, offset: -10 }, shape)).toBe(false);
+      expect(cursorMatches({ ...cursor, offset: 1.5 }, shape)).toBe(false);
+    });
+  });
+
+  describe('normalizeFilters', () => {
+    it('drops empty filter values', () => {
+      expect(normalizeFilters(undefined)).toBeUndefined();
+      expect(normalizeFilters({ path_prefix: '', source_name: undefined })).toBeUndefined();
+      expect(normalizeFilters({ source_name: 'docs', path_prefix: '' })).toEqual({ source_name: 'docs' });
+    });
+  });
+
+  describe('CursorError', () => {
+    it('carries a machine-readable code', () => {
+      const error = new CursorError('stale_cursor', 'The index changed');
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('CursorError');
+      expect(error.code).toBe('stale_cursor');
+    });
+  });
+
   describe('hashQuery', () => {
     it('produces consistent 16-char hex hashes', () => {
       const hash1 = hashQuery('test query');
@@ -57,11 +124,107 @@ describe('Retrieval', () => {
     });
   });
 
+  describe('rerankCacheKey', () => {
+    it('is stable for the same query, mode, pool size, filters and index version', () => {
+      const key = rerankCacheKey('auth', 'hybrid', 20, { path_prefix: 'docs/' }, '5');
+
+      expect(rerankCacheKey('auth', 'hybrid', 20, { path_prefix: 'docs/' }, '5')).toBe(key);
+      expect(key).toMatch(/^[a-f0-9]{16}$/);
+    });
+
+    it('shares a key between equivalent filters', () => {
+      const key = rerankCacheKey('auth', 'hybrid', 20, undefined, '5');
+
+      expect(rerankCacheKey('auth', 'hybrid', 20, {}, '5')).toBe(key);
+      expect(rerankCacheKey('auth', 'hybrid', 20, { path_prefix: '', section: '' }, '5')).toBe(key);
+
+      const filtered = rerankCacheKey('auth', 'hybrid', 20, { source_name: 'docs', path_prefix: 'api/' }, '5');
+      expect(rerankCacheKey('auth', 'hybrid', 20, { path_prefix: 'api/', source_name: 'docs' }, '5')).toBe(filtered);
+      expect(rerankCacheKey('auth', 'hybrid', 20, { path_prefix: 'api/', source_name: 'docs', section: '' }, '5')).toBe(
+        filtered,
+      );
+    });
+
+    it('changes when anything affecting the candidate list changes', () => {
+      const key = rerankCacheKey('auth', 'hybrid', 20, undefined, '5');
+
+      expect(rerankCacheKey('auth flow', 'hybrid', 20, undefined, '5')).not.toBe(key);
+      expect(rerankCacheKey('auth', 'keyword', 20, undefined, '5')).not.toBe(key);
+      expect(rerankCacheKey('auth', 'hybrid', 30, undefined, '5')).not.toBe(key);
+      expect(rerankCacheKey('auth', 'hybrid', 20, { source_name: 'docs' }, '5')).not.toBe(key);
+      expect(rerankCacheKey('auth', 'hybrid', 20, undefined, '6')).not.toBe(key);
+    });
+  });
+
+  describe('normalizeKeywordScores', () => {
+    it('maps BM25 scores to 0-1 keeping their order', () => {
+      const results = [{ score: 8 }, { score: 2 }, { score: 0 }, { score: -0.5 }] as SearchResult[];
+
+      const scores = normalizeKeywordScores(results).map((r) => r.score);
+
+      expect(scores).toEqual([8 / 9, 2 / 3, 0, 0]);
+    });
+  });
+
+  describe('redactResults', () => {
+    const detectors = createDetectors({
+      local_only: true,
+      allow_remote: false,
+      require_boundary_key: true,
+      boundary_key_env: 'DSEEK_DATA_BOUNDARY_KEY',
+      redact_before_remote: true,
+      redact_at_index: false,
+      sensitive_paths: 'skip',
+      pii_detectors: ['regex_rules'],
+      pii_rules: [],
+    });
+    const result: SearchResult = {
+      chunk_id: 'c1',
+      path: 'team.md',
+      line_start: 3,
+      line_end: 8,
+      score: 0.8,
+      snippet: 'On call this week.',
+    };
+
+    it('redacts PII in heading paths as well as snippets', () => {
+      const { results, redacted } = redactResults(
+        [{ ...result, heading_path: 'Contacts > jane.doe@example.com' }],
+        detectors,
+      );
+
+      expect(redacted).toBe(true);
+      expect(results[0].heading_path).toBe('Contacts > [EMAIL]');
+      expect(results[0].snippet).toBe('On call this week.');
+      expect(results[0].citation).toBe('team.md:3-8');
+    });
+
+    it('leaves clean results unchanged and reports no redaction', () => {
+      const { results, redacted } = redactResults([result, { ...result, heading_path: 'Contacts' }], detectors);
+
+      expect(redacted).toBe(false);
+      expect(results[0]).not.toHaveProperty('heading_path');
+      expect(results[1].heading_path).toBe('Contacts');
+    });
+  });
+
   describe('calculateConfidence', () => {
     it('returns 0 for empty results', () => {
       expect(calculateConfidence([], 0)).toBe(0);
     });
 
+    it('keeps keyword-mode confidence below 1 for a weak BM25 match', () => {
+      // Raw -bm25() scores are unbounded; a weak match still scores above 1
+      const weak = [{ score: 1.5 }] as SearchResult[];
+      const strong = [{ score: 12 }] as SearchResult[];
+
+      expect(calculateConfidence(weak, 10)).toBe(1);
+
+      const weakConf = calculateConfidence(normalizeKeywordScores(weak), 10);
+      expect(weakConf).toBeLessThan(1);
+      expect(calculateConfidence(normalizeKeywordScores(strong), 10)).toBeGreaterThan(weakConf);
+    });
+
     it('produces valid 0-1 scores based on result quality', () => {
       const highScores = [{ score: 0.95 }, { score: 0.9 }] as SearchResult[];
       const lowScores = [{ score: 0.3 }, { score: 0.2 }] as SearchResult[];
@@ -79,6 +242,29 @@ describe('Retrieval', () => {
       expect(highConf).toBeGreaterThan(lowConf);
     });
 
+    it('stays within 0-1 for z-score fused scores', () => {
+      const keyword = [0, 0, 0, 0, 0, 0, 0, 0, 0, 40].map((score, id) => ({ id, score }));
+      const semantic = keyword.map(({ id }) => ({ id, score: id === 9 ? 0.95 : 0.61 }));
+      const fused = fuseWeighted(keyword, semantic, {
+        keywordWeight: 0.25,
+        semanticWeight: 0.75,
+        normalization: 'z-score',
+      });
+
+      const top = calculateConfidence(fused.slice(0, 1) as SearchResult[], 10);
+      const tail = calculateConfidence(fused.slice(1) as SearchResult[], 10);
+
+      for (const confidence of [top, tail]) {
+        expect(confidence).toBeGreaterThanOrEqual(0);
+        expect(confidence).toBeLessThanOrEqual(1);
+      }
+      expect(top).toBeGreaterThan(tail);
+    });
+
+    it('clamps scores outside 0-1', () => {
+      expect(calculateConfidence([{ score: -2 }] as SearchResult[], 0)).toBe(0);
+    });
+
     it('factors in result count and formatting', () => {
       const results = [{ score: 0.5 }] as SearchResult[];
 
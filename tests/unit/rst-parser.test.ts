@@ -0,0 +1,69 @@
+/**
+ * reStructuredText parser unit tests
+ *
+ * Tests title conversion to markdown headings and line preservation.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { extractSections } from '../../src/parsers/markdown.js';
+import { parseRst } from '../../src/parsers/rst.js';
+
+describe('reStructuredText Parser', () => {
+  it('converts titles to headings by order of adornment style', async () => {
+    const source = [
+      '=========',
+      'User Guide',
+      '=========',
+      '',
+      'Install',
+      '-------',
+      '',
+      'Run pip.',
+      '',
+      'Upgrade',
+      '-------',
+      '',
+      'Options',
+      '~~~~~~~',
+    ].join('\n');
+    const result = await parseRst(Buffer.from(source), 'guide.rst');
+
+    expect(result.content.split('\n')).toEqual([
+      '',
+      '# User Guide',
+      '',
+      '',
+      '## Install',
+      '',
+      '',
+      'Run pip.',
+      '',
+      '## Upgrade',
+      '',
+      '',
+      '### Options',
+      '',
+    ]);
+    expect(result.metadata.lines).toBe(14);
+  });
+
+  it('keeps source line numbers for sections', async () => {
+    const source = 'Intro text.\n\nSetup\n=====\n\nStep one.\n\nUsage\n=====\n\nCall it.';
+    const result = await parseRst(Buffer.from(source), 'guide.rst');
+
+    const sections = extractSections(result.content).map((s) => [s.heading, s.startLine, s.endLine]);
+    expect(sections).toEqual([
+      [null, 1, 2],
+      ['Setup', 3, 7],
+      ['Usage', 8, 11],
+    ]);
+  });
+
+  it('does not read indented blocks or transitions as titles', async () => {
+    const source = 'Example::\n\n    # not a heading\n    ---\n\n----------\n\n# comment-like text';
+    const result = await parseRst(Buffer.from(source), 'guide.rst');
+
+    expect(extractSections(result.content)).toHaveLength(1);
+    expect(result.content).toContain('\\# comment-like text');
+  });
+});
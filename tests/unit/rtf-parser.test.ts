@@ -0,0 +1,51 @@
+/**
+ * RTF parser unit tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseRtf } from '../../src/parsers/rtf.js';
+
+const HEADER = '{\\rtf1\\ansi\\ansicpg1252\\deff0{\\fonttbl{\\f0 Times New Roman;}}{\\colortbl;\\red0\\green0\\blue0;}';
+
+describe('RTF Parser', () => {
+  describe('parseRtf', () => {
+    it('extracts paragraphs and converts outline levels to headings', async () => {
+      const rtf = [
+        HEADER,
+        '{\\info{\\title Legacy Spec}{\\author Someone}}',
+        '\\pard\\s1\\outlinelevel0\\b Legacy Spec\\b0\\par',
+        '\\pard\\plain Text with {\\i emphasis} and a\\tab tab.\\par',
+        '\\pard\\s2\\outlinelevel1 Wire Format\\par',
+        '\\pard Bytes are little-endian.\\par',
+        '}',
+      ].join('\n');
+
+      const result = await parseRtf(Buffer.from(rtf), 'spec.rtf');
+
+      expect(result.content).toBe(
+        '# Legacy Spec\n\nText with emphasis and a tab.\n\n## Wire Format\n\nBytes are little-endian.',
+      );
+      expect(result.metadata.lines).toBe(7);
+    });
+
+    it('decodes escaped and unicode characters', async () => {
+      const rtf = `${HEADER}\\pard Caf\\'e9 \\{x\\} \\u8364? \\uc0\\u8211  \\ldblquote ok\\rdblquote\\par}`;
+
+      const result = await parseRtf(Buffer.from(rtf), 'spec.rtf');
+
+      expect(result.content).toBe('Café {x} € – “ok”');
+    });
+
+    it('skips ignorable destinations and pictures', async () => {
+      const rtf = `${HEADER}{\\*\\generator Writer;}{\\pict\\pngblip 89504e47}\\pard Visible\\par}`;
+
+      const result = await parseRtf(Buffer.from(rtf), 'spec.rtf');
+
+      expect(result.content).toBe('Visible');
+    });
+
+    it('throws error for non-RTF content', async () => {
+      await expect(parseRtf(Buffer.from('plain text'), 'bad.rtf')).rejects.toThrow('Failed to parse RTF');
+    });
+  });
+});
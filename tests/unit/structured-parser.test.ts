@@ -0,0 +1,227 @@
+/**
+ * Structured data parser unit tests
+ *
+ * Tests JSON, YAML, TOML and OpenAPI/AsyncAPI rendering and the line
+ * ranges of the chunks produced from them.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { chunkDocument } from '../../src/core/chunker.js';
+import { parseJson, parseToml, parseYaml } from '../../src/parsers/structured.js';
+import type { DocumentFormat } from '../../src/types/index.js';
+
+/**
+ * Parse and chunk a file, summarizing chunks as [first line of text, line_start, line_end]
+ */
+async function outline(
+  source: string,
+  format: Extract<DocumentFormat, 'json' | 'yaml' | 'toml'>,
+): Promise<Array<[string, number, number]>> {
+  const parse = { json: parseJson, yaml: parseYaml, toml: parseToml }[format];
+  const parsed = await parse(Buffer.from(source), `file.${format}`);
+  const chunks = chunkDocument(parsed.content, { docId: `file.${format}`, format, lineMap: parsed.metadata.line_map });
+  return chunks.map((c) => [c.text.split('\n')[0], c.line_start, c.line_end]);
+}
+
+/**
+ * YAML service map large enough to be split by key
+ */
+function services(count: number): string {
+  const lines = ['version: 2', 'services:'];
+  for (let i = 0; i < count; i++) {
+    lines.push(`  svc${i}:`, `    image: example/service-${i}:latest`, '    environment:', `      - KEY=value${i}`);
+  }
+  lines.push('# Shared volumes', 'volumes:', '  data: {}');
+  return lines.join('\n');
+}
+
+const OPENAPI = `openapi: 3.0.3
+info:
+  title: Pet Store
+  version: 1.0.0
+paths:
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        required: true
+        schema:
+          type: string
+    get:
+      summary: Info for a specific pet
+      operationId: showPetById
+      responses:
+        '200':
+          description: Expected response
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+    delete:
+      summary: Delete a pet
+      parameters:
+        - $ref: '#/components/parameters/Force'
+      responses:
+        '204':
+          description: Deleted
+components:
+  parameters:
+    Force:
+      name: force
+      in: query
+      schema:
+        type: boolean
+  schemas:
+    Pet:
+      description: A pet in the store
+      type: object
+      required: [id]
+      properties:
+        id:
+          type: integer
+        tags:
+          type: array
+          items:
+            type: string
+`;
+
+describe('Structured Parsers', () => {
+  describe('parseJson', () => {
+    it('keeps small files in one fenced block with source lines', async () => {
+      const source = '{\n  "name": "demo",\n  "private": true\n}\n';
+      const result = await parseJson(Buffer.from(source), 'package.json');
+
+      expect(result.content).toBe('```json\n{\n  "name": "demo",\n  "private": true\n}\n```\n');
+      expect(result.metadata.lines).toBe(5);
+      expect(result.metadata.line_map).toEqual([1, 1, 2, 3, 4, 4, 4]);
+    });
+
+    it('returns the raw text when the file is not valid JSON', async () => {
+      const result = await parseJson(Buffer.from('{ "a": '), 'broken.json');
+
+      expect(result.content).toBe('{ "a": ');
+      expect(result.metadata.line_map).toBeUndefined();
+    });
+  });
+
+  describe('parseYaml', () => {
+    it('splits large files by key and merges small neighbours', async () => {
+      const chunks = await outline(services(30), 'yaml');
+
+      expect(chunks[0]).toEqual(['# version', 1, 1]);
+      expect(chunks[1][0]).toBe(
+        '## services.svc0, services.svc1, services.svc2, services.svc3, services.svc4, ' +
+          'services.svc5, services.svc6, services.svc7, services.svc8, services.svc9, services.svc10',
+      );
+      expect(chunks[1].slice(1)).toEqual([2, 46]);
+      expect(chunks.at(-1)).toEqual(['# volumes', 123, 125]);
+    });
+
+    it('does not treat comments as headings', async () => {
+      const result = await parseYaml(Buffer.from('# Settings\nname: demo\n'), 'config.yaml');
+
+      expect(result.content).toBe('```yaml\n# Settings\nname: demo\n```\n');
+    });
+  });
+
+  describe('parseToml', () => {
+    it('splits large files by table with attached comments', async () => {
+      const filler = Array.from({ length: 40 }, (_, i) => `key${i} = "value number ${i}"`);
+      const source = [
+        'title = "demo"',
+        '',
+        '# Server settings',
+        '[server]',
+        ...filler,
+        'ports = [',
+        '  [8080]',
+        ']',
+        '',
+        '[[products]]',
+        'notes = """',
+        '[not.a.table]',
+        '"""',
+        ...filler,
+      ].join('\n');
+      const result = await parseToml(Buffer.from(source), 'Cargo.toml');
+
+      expect(result.content.split('\n').filter((l) => l.startsWith('# ['))).toEqual(['# [server]', '# [[products]]']);
+
+      const chunks = await outline(source, 'toml');
+      expect(chunks[0]).toEqual(['```toml', 1, 1]);
+      expect(chunks.find((c) => c[0] === '# [server]')?.[1]).toBe(3);
+      expect(chunks.at(-1)?.[2]).toBe(92);
+    });
+  });
+
+  describe('OpenAPI', () => {
+    it('renders one section per operation and schema', async () => {
+      const result = await parseYaml(Buffer.from(OPENAPI), 'openapi.yaml');
+
+      expect(result.content).toContain(
+        [
+          '## GET /pets/{petId}',
+          '',
+          'Info for a specific pet',
+          'Operation ID: showPetById',
+          'Parameters:',
+          '- petId (path, string, required)',
+          'Responses:',
+          '- 200: Expected response (application/json: Pet)',
+        ].join('\n'),
+      );
+      expect(result.content).toContain('- force (query, boolean)');
+      expect(result.content).toContain('- id (integer, required)\n- tags (array of string)');
+    });
+
+    it('cites the source lines of each operation', async () => {
+      expect(await outline(OPENAPI, 'yaml')).toEqual([
+        ['# Pet Store', 1, 4],
+        ['## GET /pets/{petId}', 13, 22],
+        ['## DELETE /pets/{petId}', 23, 29],
+        ['## Schema: Pet', 38, 48],
+      ]);
+    });
+
+    it('renders JSON Swagger specs', async () => {
+      const spec = {
+        swagger: '2.0',
+        info: { title: 'Legacy', version: '1' },
+        paths: { '/users': { post: { summary: 'Create a user', parameters: [{ name: 'body', in: 'body' }] } } },
+        definitions: { User: { type: 'object' } },
+      };
+      const result = await parseJson(Buffer.from(JSON.stringify(spec, null, 2)), 'swagger.json');
+
+      expect(result.content).toContain('Swagger 2.0');
+      expect(result.content).toContain('## POST /users\n\nCreate a user\nParameters:\n- body (body)');
+      expect(result.content).toContain('## Schema: User');
+    });
+
+    it('renders AsyncAPI channel operations and messages', async () => {
+      const spec = [
+        'asyncapi: 2.6.0',
+        'info:',
+        '  title: Account Service',
+        '  version: 1.0.0',
+        'channels:',
+        '  user/signedup:',
+        '    subscribe:',
+        '      summary: A user signed up',
+        '      message:',
+        "        $ref: '#/components/messages/UserSignedUp'",
+        'components:',
+        '  messages:',
+        '    UserSignedUp:',
+        '      payload:',
+        '        type: object',
+        '        properties:',
+        '          email:',
+        '            type: string',
+      ].join('\n');
+      const result = await parseYaml(Buffer.from(spec), 'asyncapi.yaml');
+
+      expect(result.content).toContain('## SUBSCRIBE user/signedup\n\nA user signed up\nMessage: UserSignedUp');
+      expect(result.content).toContain('## Message: UserSignedUp\n\nPayload: object\nProperties:\n- email (string)');
+    });
+  });
+});
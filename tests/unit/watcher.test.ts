@@ -1,13 +1,14 @@
 /**
  * Watcher module tests
  *
- * Tests watcher state management and lock file handling.
+ * Tests watcher state management, lock file handling and published progress.
  */
 
 import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
-import { isWatcherRunning } from '../../src/core/watcher.js';
+import { isWatchedFile, isWatcherRunning, readWatchState, summarizeWatchState } from '../../src/core/watcher.js';
+import type { Source, WatchState } from '../../src/types/index.js';
 
 const TEST_DIR = join(process.cwd(), '.test-watcher');
 const DSEEK_DIR = join(TEST_DIR, '.dseek');
@@ -111,6 +112,121 @@ describe('Watcher', () => {
     });
   });
 
+  describe('readWatchState', () => {
+    const watchState: WatchState = {
+      pid: process.pid,
+      updated_at: new Date().toISOString(),
+      queued: ['docs/b.md'],
+      current_file: 'docs/a.md',
+      errors: [],
+    };
+
+    it('returns the published state while the watcher is running', () => {
+      writeFileSync(join(RUN_DIR, 'watch.lock'), new Date().toISOString());
+      writeFileSync(join(RUN_DIR, 'watch.pid'), process.pid.toString());
+      writeFileSync(join(RUN_DIR, 'watch-state.json'), JSON.stringify(watchState));
+
+      expect(readWatchState()).toEqual(watchState);
+    });
+
+    it('ignores and removes state left by a dead watcher', () => {
+      const statePath = join(RUN_DIR, 'watch-state.json');
+      writeFileSync(join(RUN_DIR, 'watch.lock'), new Date().toISOString());
+      writeFileSync(join(RUN_DIR, 'watch.pid'), '999999999');
+      writeFileSync(statePath, JSON.stringify(watchState));
+
+      expect(readWatchState()).toBeNull();
+      expect(existsSync(statePath)).toBe(false);
+    });
+
+    it('returns null when the state file is missing or corrupted', () => {
+      writeFileSync(join(RUN_DIR, 'watch.lock'), new Date().toISOString());
+      writeFileSync(join(RUN_DIR, 'watch.pid'), process.pid.toString());
+      expect(readWatchState()).toBeNull();
+
+      writeFileSync(join(RUN_DIR, 'watch-state.json'), '{not json');
+      expect(readWatchState()).toBeNull();
+    });
+  });
+
+  describe('summarizeWatchState', () => {
+    const idle: WatchState = {
+      pid: 1,
+      updated_at: '2025-01-01T00:00:00.000Z',
+      queued: [],
+      current_file: null,
+      errors: [],
+    };
+
+    it('reports ready without a watcher or pending work', () => {
+      expect(summarizeWatchState(null)).toEqual({ index_state: 'ready', queued_files: 0, warnings: [] });
+      expect(summarizeWatchState(idle).index_state).toBe('ready');
+    });
+
+    it('reports updating while files are queued or being indexed', () => {
+      const status = summarizeWatchState({ ...idle, queued: ['docs/b.md', 'docs/c.md'], current_file: 'docs/a.md' });
+
+      expect(status.index_state).toBe('updating');
+      expect(status.queued_files).toBe(3);
+    });
+
+    it('reports error with a warning per failed file', () => {
+      const status = summarizeWatchState({
+        ...idle,
+        queued: ['docs/b.md'],
+        errors: [{ path: 'docs/broken.pdf', message: 'Invalid PDF structure', at: idle.updated_at }],
+      });
+
+      expect(status.index_state).toBe('error');
+      expect(status.queued_files).toBe(1);
+      expect(status.warnings).toEqual(['Failed to index docs/broken.pdf: Invalid PDF structure']);
+    });
+  });
+
+  describe('isWatchedFile', () => {
+    const root = '/project';
+    const docs: Source = {
+      name: 'docs',
+      path: './docs',
+      include: ['**/*.md', '**/*.txt'],
+      exclude: ['drafts/'],
+      watch: true,
+    };
+
+    it('skips supported files outside the source include patterns', () => {
+      // Source code is a supported format, but `dseek add` would not index it here
+      expect(isWatchedFile('/project/docs/scripts/build.ts', [docs], root)).toBe(false);
+      expect(isWatchedFile('/project/docs/guide/auth.md', [docs], root)).toBe(true);
+      expect(isWatchedFile('/project/docs/notes.txt', [docs], root)).toBe(true);
+    });
+
+    it('skips changed manifests and lockfiles in documentation sources', () => {
+      // JSON and YAML are indexable formats, but only when a source includes them
+      expect(isWatchedFile('/project/docs/package.json', [docs], root)).toBe(false);
+      expect(isWatchedFile('/project/docs/pnpm-lock.yaml', [docs], root)).toBe(false);
+
+      const api: Source = { ...docs, name: 'api', include: ['**/openapi.yaml'] };
+      expect(isWatchedFile('/project/docs/openapi.yaml', [api], root)).toBe(true);
+      expect(isWatchedFile('/project/docs/package.json', [api], root)).toBe(false);
+    });
+
+    it('applies exclude and ignore patterns', () => {
+      expect(isWatchedFile('/project/docs/drafts/wip.md', [docs], root)).toBe(false);
+      expect(isWatchedFile('/project/docs/archive/old.md', [docs], root, ['archive/'])).toBe(false);
+    });
+
+    it('skips files outside any source', () => {
+      expect(isWatchedFile('/project/src/readme.md', [docs], root)).toBe(false);
+    });
+
+    it('accepts any supported file of a source without include patterns', () => {
+      const code: Source = { ...docs, name: 'code', path: './src', include: [], exclude: [] };
+
+      expect(isWatchedFile('/project/src/index.ts', [docs, code], root)).toBe(true);
+      expect(isWatchedFile('/project/src/logo.png', [docs, code], root)).toBe(false);
+    });
+  });
+
   describe('lock file management', () => {
     it('lock file contains valid ISO timestamp', () => {
       const lockPath = join(RUN_DIR, 'watch.lock');